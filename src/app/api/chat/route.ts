@@ -1,13 +1,40 @@
 import { NextRequest, NextResponse } from "next/server";
-import { streamChat, ChatMessage } from "@/lib/gemini";
+import { streamChat, resolveModel, ChatMessage, type TokenUsage } from "@/lib/llm";
+import { finishReasonError, toLLMError } from "@/lib/llm/errors";
+import { fixtureKey, replaySSEFixture, recordSSEFixture } from "@/lib/llm/fixtures";
 import { loadInstruction } from "@/lib/instructions";
+import { cacheSSE, hashContent, readCachedSSE, responseCacheKey } from "@/lib/response-cache";
+import { compactHistory, summaryBlock, toGeminiHistory, type HistoryMessage } from "@/lib/compaction";
+import { estimateTokens } from "@/lib/tokens";
+import { retrieveSections, DEFAULT_RETRIEVAL_BUDGET, type IncludedSection } from "@/lib/retrieval";
+import { isTaskType, pickRoute } from "@/lib/routing";
+import { CHAT_TOOLS, TOOLS_INSTRUCTION } from "@/lib/chat-tools";
+import { createEventStream, EVENT_STREAM_HEADERS, type StreamEvent } from "@/lib/stream-events";
+import { createDocMarkerSplitter } from "@/lib/doc-stream";
+import { estimatePartTokens, toMessageParts } from "@/lib/attachments";
+import { factsBlock } from "@/lib/facts";
+import { customDocTypesBlock, parseDocTypePayload } from "@/lib/doc-definitions";
 
 export const runtime = "nodejs";
 
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const { message, history = [], existingDocs = {}, verifyReport } = body;
+    const {
+      message,
+      history = [],
+      existingDocs = {},
+      verifyReport,
+      contextSummary = null,
+      focusDocs = [],
+      cache = false,
+      bypassCache = false,
+      task,
+      routing = null,
+      attachments = [],
+      projectFacts = [],
+      customDocTypes = [],
+    } = body;
 
     if (!message || typeof message !== "string") {
       return NextResponse.json(
@@ -18,68 +45,166 @@ export async function POST(req: NextRequest) {
 
     // Always use the master architect — it knows all document types
     const config = loadInstruction("master-architect.yaml");
+    // Free-form chat has no task and stays on the architect's own model
+    const route = pickRoute(isTaskType(task) ? task : undefined, config, routing);
+
+    // Function tools replace the text markers unless disabled for models without tool support
+    const useTools = config.tools !== false && process.env.CHAT_TOOLS !== "off";
 
     // Build a context block from existing documents (their latest edited state)
     let systemInstruction = config.systemInstruction;
+    if (useTools) systemInstruction += `\n\n${TOOLS_INSTRUCTION}`;
+    // Document types the user defined for this project
+    systemInstruction += customDocTypesBlock(parseDocTypePayload(customDocTypes));
+    // Only the sections relevant to this message are included; documents the
+    // client marks as in focus (or that the message names) go in whole
     const docEntries = Object.entries(existingDocs as Record<string, string>);
+    let included: IncludedSection[] = [];
     if (docEntries.length > 0) {
       const docList = docEntries.map(([type]) => `- ${type}`).join("\n");
-      const docsContext = docEntries
-        .map(([type, content]) => `### ${type}\n\n${content}`)
-        .join("\n\n---\n\n");
+      const lowerMessage = message.toLowerCase();
+      const fullDocs = docEntries
+        .map(([type]) => type)
+        .filter((type) => (focusDocs as string[]).includes(type) || lowerMessage.includes(type.toLowerCase()));
+      const retrieval = retrieveSections(existingDocs, message, {
+        fullDocs,
+        tokenBudget: Number(process.env.CHAT_RETRIEVAL_BUDGET) || DEFAULT_RETRIEVAL_BUDGET,
+        alreadyPresent: message,
+      });
+      included = retrieval.included;
+      const docsContext = retrieval.context;
 
-      systemInstruction += `\n\n# ⚠️ CRITICAL: EXISTING DOCUMENTS — FINAL VERSIONS\n\nThe following ${docEntries.length} document(s) have already been created and may have been edited by the user. These represent the FINAL, AUTHORITATIVE state of the project:\n\n${docList}\n\nRULES:\n1. **NEVER restart from scratch** — always build upon these documents\n2. **Preserve all decisions** — names, features, tech choices, architecture decisions already made must carry through unchanged unless the user explicitly asks to change them\n3. **Reference them explicitly** — when generating a new document, cite the existing ones: "As established in the PRD...", "Per the Architecture Document..."\n4. **Fill gaps, don't contradict** — new documents should add detail and depth, not conflict with what's already defined\n5. **The user may have manually edited these** — treat the content below as ground truth\n\n## FULL DOCUMENT CONTENTS:\n\n${docsContext}`;
+      systemInstruction += `\n\n# ⚠️ CRITICAL: EXISTING DOCUMENTS — FINAL VERSIONS\n\nThe following ${docEntries.length} document(s) have already been created and may have been edited by the user. These represent the FINAL, AUTHORITATIVE state of the project:\n\n${docList}\n\nRULES:\n1. **NEVER restart from scratch** — always build upon these documents\n2. **Preserve all decisions** — names, features, tech choices, architecture decisions already made must carry through unchanged unless the user explicitly asks to change them\n3. **Reference them explicitly** — when generating a new document, cite the existing ones: "As established in the PRD...", "Per the Architecture Document..."\n4. **Fill gaps, don't contradict** — new documents should add detail and depth, not conflict with what's already defined\n5. **The user may have manually edited these** — treat the content below as ground truth\n\n## DOCUMENT CONTEXT:\n\nEach document is shown with its full outline. Unless marked "full document", only the sections relevant to this request are included — an omitted section is not empty, it just was not needed here.\n\n${docsContext}`;
     }
 
+    // Answers settled in earlier interviews, so later ones do not ask again
+    systemInstruction += factsBlock(projectFacts);
+
     // Inject verify report context if available
     if (verifyReport && typeof verifyReport === "string") {
       systemInstruction += `\n\n# 🔍 CYBERNETIC VERIFIER REPORT — LATEST ANALYSIS\n\nThe Cybernetic Verifier has analyzed the existing documents. Be aware of these findings when generating or modifying documents. Address any issues marked as critical or warning. If the report includes guidance for missing documents, incorporate that guidance when generating those documents.\n\n${verifyReport}`;
     }
 
+    // Files in context travel as extra parts of the user message
+    const parts = toMessageParts(attachments);
+    const partTokens = estimatePartTokens(parts);
+
+    // Keep the request inside the token budget by folding old turns into a rolling summary;
+    // attachments always go out, so the history gets what they leave
+    const budget = Number(process.env.CHAT_CONTEXT_BUDGET) || config.contextBudget || 120_000;
+    let compaction: Awaited<ReturnType<typeof compactHistory>>;
+    try {
+      compaction = await compactHistory({
+        systemInstruction,
+        history: history as HistoryMessage[],
+        message,
+        summary: contextSummary,
+        budget: budget - partTokens,
+        provider: route.provider,
+        model: route.model,
+      });
+    } catch (err) {
+      console.error("History compaction failed — sending full history:", err);
+      compaction = {
+        history: history as HistoryMessage[],
+        summary: null,
+        compacted: false,
+        tokens: estimateTokens(systemInstruction + message + JSON.stringify(history)),
+      };
+    }
+    systemInstruction += summaryBlock(compaction.summary);
+
     // Convert history to Gemini format
-    const geminiHistory: ChatMessage[] = history.map(
-      (msg: { role: string; content: string }) => ({
-        role: msg.role === "assistant" ? "model" : "user",
-        parts: [{ text: msg.content }],
-      })
-    );
+    const geminiHistory: ChatMessage[] = toGeminiHistory(compaction.history);
+
+    // A recording only replays for the same model and protocol (tools or text markers)
+    const { provider, model } = resolveModel(route);
+    const fixture = fixtureKey("chat", {
+      systemInstruction,
+      history: geminiHistory,
+      message: message,
+      // Left out when empty so recordings made before attachments still match
+      parts: parts.length > 0 ? parts : undefined,
+      provider: provider.name,
+      model,
+      tools: useTools,
+    });
+    const replayed = replaySSEFixture(fixture);
+    if (replayed) return replayed;
+
+    // Opt-in: document generation requests may replay an identical earlier response
+    const cacheKey = cache
+      ? responseCacheKey({
+          route: "chat",
+          provider: provider.name,
+          model,
+          instruction: hashContent(systemInstruction),
+          history: hashContent(geminiHistory),
+          message: hashContent(message),
+          attachments: parts.length > 0 ? hashContent(parts) : undefined,
+          tools: useTools,
+        })
+      : null;
+    const cached = cacheKey && !bypassCache ? readCachedSSE(cacheKey) : null;
+    if (cached) {
+      return new Response(cached.stream, {
+        headers: { ...EVENT_STREAM_HEADERS, "X-Cache": "HIT", "X-Cache-Created": String(cached.createdAt) },
+      });
+    }
 
-    const stream = await streamChat({
-      model: config.model,
+    const stream = streamChat({
+      provider: route.provider,
+      model: route.model,
       systemInstruction,
       history: geminiHistory,
       message,
+      parts,
       temperature: config.temperature,
       maxOutputTokens: config.maxOutputTokens,
+      ...(useTools && { tools: CHAT_TOOLS }),
     });
 
-    // Stream the response as SSE
-    const encoder = new TextEncoder();
-    const readable = new ReadableStream({
-      async start(controller) {
-        try {
-          for await (const chunk of stream) {
-            const text = chunk.text;
-            if (text) {
-              controller.enqueue(
-                encoder.encode(`data: ${JSON.stringify({ text })}\n\n`)
-              );
-            }
+    // Documents stream out as doc_* events, whether the model writes them
+    // with the write_document tool or with ~~~doc: markers
+    const readable = createEventStream(async (send) => {
+      send({ type: "context", context: { tokens: compaction.tokens + partTokens, budget, included } });
+      if (compaction.compacted && compaction.summary) send({ type: "compaction", summary: compaction.summary });
+      // The summarizer call is billed on its own
+      if (compaction.usage) send({ type: "usage", usage: { ...compaction.usage, provider: provider.name, model } });
+      const splitter = createDocMarkerSplitter();
+      const sendAll = (events: StreamEvent[]) => events.forEach(send);
+      let usage: TokenUsage | undefined;
+      try {
+        let finishReason: string | undefined;
+        for await (const chunk of stream) {
+          if (chunk.text) sendAll(splitter.push(chunk.text));
+          if (chunk.finishReason) finishReason = chunk.finishReason;
+          if (chunk.usage) usage = chunk.usage;
+          if (chunk.toolCall?.name === "write_document" && typeof chunk.toolCall.args.docType === "string") {
+            const docType = chunk.toolCall.args.docType.trim();
+            send({ type: "doc_start", docType });
+            send({ type: "doc_delta", docType, text: String(chunk.toolCall.args.content ?? "") });
+            send({ type: "doc_end", docType });
+          } else if (chunk.toolCall) {
+            send({ type: "tool", call: chunk.toolCall });
           }
-          controller.enqueue(encoder.encode("data: [DONE]\n\n"));
-          controller.close();
-        } catch (err) {
-          controller.error(err);
         }
-      },
+        sendAll(splitter.flush());
+        const finishError = finishReasonError(finishReason);
+        if (finishError) send({ type: "error", error: finishError.toStreamError() });
+      } catch (err) {
+        sendAll(splitter.flush());
+        const error = toLLMError(err);
+        console.error(`LLM stream failed (${error.kind}):`, error.message);
+        send({ type: "error", error: error.toStreamError() });
+      }
+      // Failed streams still bill whatever the provider reported
+      if (usage) send({ type: "usage", usage: { ...usage, provider: provider.name, model } });
     });
 
-    return new Response(readable, {
-      headers: {
-        "Content-Type": "text/event-stream",
-        "Cache-Control": "no-cache",
-        Connection: "keep-alive",
-      },
+    const recorded = recordSSEFixture(fixture, readable);
+    return new Response(cacheKey ? cacheSSE(cacheKey, recorded) : recorded, {
+      headers: { ...EVENT_STREAM_HEADERS, ...(cacheKey && { "X-Cache": "MISS" }) },
     });
   } catch (error) {
     console.error("Chat API error:", error);
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { streamChat, resolveModel, type TokenUsage } from "@/lib/llm";
+import { LLMError, finishReasonError, toLLMError } from "@/lib/llm/errors";
+import { fixtureKey, replaySSEFixture, recordSSEFixture } from "@/lib/llm/fixtures";
+import { loadInstruction } from "@/lib/instructions";
+import { pickRoute } from "@/lib/routing";
+import { buildDecisionsPrompt, DECISIONS_INSTRUCTION, DECISIONS_SCHEMA, parseDecisions } from "@/lib/decisions";
+import { createEventStream, EVENT_STREAM_HEADERS } from "@/lib/stream-events";
+
+export const runtime = "nodejs";
+
+export async function POST(req: NextRequest) {
+  try {
+    const { documents, knownTitles = [], routing = null } = await req.json();
+
+    if (!documents || typeof documents !== "object" || Object.keys(documents).length === 0) {
+      return NextResponse.json(
+        { error: "At least one document is required to extract decisions" },
+        { status: 400 }
+      );
+    }
+
+    // Extraction reads the suite the way the verifier does — same route
+    const config = loadInstruction("cybernetic-verifier.yaml");
+    const route = pickRoute("verify", config, routing);
+    const message = buildDecisionsPrompt(
+      documents,
+      (knownTitles as unknown[]).filter((t): t is string => typeof t === "string")
+    );
+
+    // A recording only replays for the same model
+    const { provider, model } = resolveModel(route);
+    const fixture = fixtureKey("decisions", {
+      systemInstruction: DECISIONS_INSTRUCTION,
+      message,
+      provider: provider.name,
+      model,
+    });
+    const replayed = replaySSEFixture(fixture);
+    if (replayed) return replayed;
+
+    const stream = streamChat({
+      provider: route.provider,
+      model: route.model,
+      systemInstruction: DECISIONS_INSTRUCTION,
+      history: [],
+      message,
+      temperature: config.temperature,
+      maxOutputTokens: config.maxOutputTokens,
+      responseSchema: DECISIONS_SCHEMA,
+    });
+
+    // Text is progress only — the parsed records follow as one `decisions` event
+    const readable = createEventStream(async (send) => {
+      let usage: TokenUsage | undefined;
+      try {
+        let text = "";
+        let finishReason: string | undefined;
+        for await (const chunk of stream) {
+          if (chunk.text) {
+            text += chunk.text;
+            send({ type: "text", text: chunk.text });
+          }
+          if (chunk.finishReason) finishReason = chunk.finishReason;
+          if (chunk.usage) usage = chunk.usage;
+        }
+        const finishError = finishReasonError(finishReason);
+        if (finishError) throw finishError;
+        const decisions = parseDecisions(text);
+        if (!decisions) throw new LLMError("invalid_output", "Decision extraction did not return a decisions object");
+        send({ type: "decisions", decisions });
+      } catch (err) {
+        const error = toLLMError(err);
+        console.error(`LLM stream failed (${error.kind}):`, error.message);
+        send({ type: "error", error: error.toStreamError() });
+      }
+      if (usage) send({ type: "usage", usage: { ...usage, provider: provider.name, model } });
+    });
+
+    return new Response(recordSSEFixture(fixture, readable), { headers: EVENT_STREAM_HEADERS });
+  } catch (error) {
+    console.error("Decisions API error:", error);
+    return NextResponse.json(
+      { error: "Failed to process decision extraction request" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,63 +1,57 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenAI } from "@google/genai";
+import { getProvider } from "@/lib/llm";
+import { fixtureKey, replayJSONFixture, recordJSONFixture } from "@/lib/llm/fixtures";
+import { loadInstruction } from "@/lib/instructions";
+import { pickRoute } from "@/lib/routing";
 
 export const runtime = "nodejs";
 
 export async function POST(req: NextRequest) {
   try {
-    const { prompt } = await req.json();
+    const { prompt, routing = null } = await req.json();
 
     if (!prompt || typeof prompt !== "string") {
       return NextResponse.json({ error: "Prompt is required" }, { status: 400 });
     }
 
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      return NextResponse.json({ error: "GEMINI_API_KEY not configured" }, { status: 500 });
+    // The architect's own (text) model never applies to images
+    const { routing: defaults } = loadInstruction("master-architect.yaml");
+    const route = pickRoute("image", { routing: defaults }, routing);
+    const provider = getProvider(route.provider ?? process.env.IMAGE_PROVIDER);
+    // Same rule as resolveModel: a bare YAML model is a Gemini model
+    const model = route.provider !== undefined || provider.name === "gemini" ? route.model : undefined;
+
+    // A recording only replays for the same model
+    const fixture = fixtureKey("image", { prompt, provider: provider.name, model });
+    const replayed = replayJSONFixture(fixture);
+    if (replayed) return replayed;
+
+    if (!provider.generateImage) {
+      return NextResponse.json({
+        error: "Image generation not available for this prompt",
+        fallbackText: `The ${provider.name} provider does not support image generation.`,
+      }, { status: 422 });
     }
 
-    const ai = new GoogleGenAI({ apiKey });
-
-    const response = await ai.models.generateContent({
-      model: process.env.GEMINI_MODEL ?? "gemini-2.5-flash-image",
-      contents: [
-        {
-          role: "user",
-          parts: [
-            {
-              text: `Create a clean, professional technical diagram or visualization for: ${prompt}. 
+    const result = await provider.generateImage(
+      `Create a clean, professional technical diagram or visualization for: ${prompt}. 
               Style: Dark background (#0a0a14), neon cyan (#00e5ff) and electric green (#00ff88) accent colors, 
               clean lines, minimal text labels, professional software architecture aesthetic.`,
-            },
-          ],
-        },
-      ],
-      config: {
-        responseModalities: ["TEXT", "IMAGE"],
-      },
-    });
-
-    // Extract image data from response
-    const candidate = response.candidates?.[0];
-    if (!candidate?.content?.parts) {
-      return NextResponse.json({ error: "No image generated" }, { status: 500 });
-    }
+      model
+    );
 
-    for (const part of candidate.content.parts) {
-      if (part.inlineData?.mimeType?.startsWith("image/")) {
-        return NextResponse.json({
-          imageData: part.inlineData.data,
-          mimeType: part.inlineData.mimeType,
-        });
-      }
+    if (result.imageData) {
+      return recordJSONFixture(fixture, {
+        imageData: result.imageData,
+        mimeType: result.mimeType,
+      });
     }
 
     // If no image part found, return text description
-    const textPart = candidate.content.parts.find((p) => p.text);
-    return NextResponse.json({
+    return recordJSONFixture(fixture, {
       error: "Image generation not available for this prompt",
-      fallbackText: textPart?.text ?? "Could not generate visual.",
-    }, { status: 422 });
+      fallbackText: result.fallbackText ?? "Could not generate visual.",
+    }, 422);
 
   } catch (error) {
     console.error("Image generation error:", error);
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { streamChat, resolveModel, type TokenUsage } from "@/lib/llm";
+import { finishReasonError, toLLMError } from "@/lib/llm/errors";
+import { fixtureKey, replaySSEFixture, recordSSEFixture } from "@/lib/llm/fixtures";
+import { loadInstruction } from "@/lib/instructions";
+import { pickRoute } from "@/lib/routing";
+import { buildSectionPrompt, isSectionAction, SECTION_INSTRUCTION } from "@/lib/section-actions";
+import { createEventStream, EVENT_STREAM_HEADERS } from "@/lib/stream-events";
+import { factsBlock } from "@/lib/facts";
+import { decisionsGuidance } from "@/lib/decisions";
+import { customDocTypesBlock, parseDocTypePayload } from "@/lib/doc-definitions";
+
+export const runtime = "nodejs";
+
+export async function POST(req: NextRequest) {
+  try {
+    const {
+      docType,
+      action,
+      section,
+      outline = "",
+      routing = null,
+      projectFacts = [],
+      decisions = [],
+      customDocTypes = [],
+    } = await req.json();
+
+    if (!isSectionAction(action) || typeof section !== "string" || !section.trim() || typeof docType !== "string") {
+      return NextResponse.json(
+        { error: "docType, a section and a valid action are required" },
+        { status: 400 }
+      );
+    }
+
+    // Section rewrites are document generation — same route, none of the chat
+    // history, but the settled facts, decisions and custom types still hold
+    const config = loadInstruction("master-architect.yaml");
+    const route = pickRoute("document", config, routing);
+    const message = buildSectionPrompt(action, docType, section, outline);
+    const systemInstruction =
+      SECTION_INSTRUCTION +
+      customDocTypesBlock(parseDocTypePayload(customDocTypes)) +
+      factsBlock(projectFacts) +
+      decisionsGuidance(decisions);
+
+    // A recording only replays for the same model
+    const { provider, model } = resolveModel(route);
+    const fixture = fixtureKey("section", {
+      systemInstruction,
+      message,
+      provider: provider.name,
+      model,
+    });
+    const replayed = replaySSEFixture(fixture);
+    if (replayed) return replayed;
+
+    const stream = streamChat({
+      provider: route.provider,
+      model: route.model,
+      systemInstruction,
+      history: [],
+      message,
+      temperature: config.temperature,
+      maxOutputTokens: config.maxOutputTokens,
+    });
+
+    const readable = createEventStream(async (send) => {
+      let usage: TokenUsage | undefined;
+      try {
+        let finishReason: string | undefined;
+        for await (const chunk of stream) {
+          if (chunk.text) send({ type: "text", text: chunk.text });
+          if (chunk.finishReason) finishReason = chunk.finishReason;
+          if (chunk.usage) usage = chunk.usage;
+        }
+        const finishError = finishReasonError(finishReason);
+        if (finishError) send({ type: "error", error: finishError.toStreamError() });
+      } catch (err) {
+        const error = toLLMError(err);
+        console.error(`LLM stream failed (${error.kind}):`, error.message);
+        send({ type: "error", error: error.toStreamError() });
+      }
+      if (usage) send({ type: "usage", usage: { ...usage, provider: provider.name, model } });
+    });
+
+    return new Response(recordSSEFixture(fixture, readable), { headers: EVENT_STREAM_HEADERS });
+  } catch (error) {
+    console.error("Section API error:", error);
+    return NextResponse.json(
+      { error: "Failed to process section request" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,47 @@
 import { NextRequest, NextResponse } from "next/server";
-import { streamChat, ChatMessage } from "@/lib/gemini";
+import { streamChat, resolveModel, ChatMessage, type LLMChunk, type TokenUsage } from "@/lib/llm";
+import { LLMError, finishReasonError, toLLMError } from "@/lib/llm/errors";
+import { fixtureKey, replaySSEFixture, recordSSEFixture } from "@/lib/llm/fixtures";
 import { loadInstruction, loadInstructionSpecs } from "@/lib/instructions";
+import {
+  cacheSSE,
+  hashContent,
+  hashDocuments,
+  readCachedSSE,
+  responseCacheKey,
+} from "@/lib/response-cache";
+import { pickRoute } from "@/lib/routing";
+import { VERIFIER_REPORT_SCHEMA, parseVerifierReport } from "@/lib/verifier-report";
+import { decisionsBlock, decisionsGuidance } from "@/lib/decisions";
+import { DEFAULT_DOC_DEFINITIONS, parseDocTypePayload } from "@/lib/doc-definitions";
+import { createEventStream, EVENT_STREAM_HEADERS, type StreamEvent } from "@/lib/stream-events";
+import { createDocMarkerSplitter } from "@/lib/doc-stream";
 
 export const runtime = "nodejs";
 
+// Drains a model stream, forwarding text as it arrives; usage accumulates across calls
+async function collect(
+  stream: AsyncIterable<LLMChunk>,
+  onText?: (text: string) => void
+): Promise<{ text: string; finishReason?: string; usage?: TokenUsage }> {
+  let text = "";
+  let finishReason: string | undefined;
+  let usage: TokenUsage | undefined;
+  for await (const chunk of stream) {
+    if (chunk.text) {
+      text += chunk.text;
+      onText?.(chunk.text);
+    }
+    if (chunk.finishReason) finishReason = chunk.finishReason;
+    if (chunk.usage) usage = chunk.usage;
+  }
+  return { text, finishReason, usage };
+}
+
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const { documents, mode = "verify", report = "" } = body;
+    const { documents, mode = "verify", report = "", bypassCache = false, routing = null, decisions = [], customDocTypes = [] } = body;
 
     if (!documents || typeof documents !== "object" || Object.keys(documents).length === 0) {
       return NextResponse.json(
@@ -17,12 +51,13 @@ export async function POST(req: NextRequest) {
     }
 
     const config = loadInstruction("cybernetic-verifier.yaml");
+    const route = pickRoute(mode === "harmonize" ? "harmonize" : "verify", config, routing);
 
-    // All possible document types in the suite
+    // All possible document types in the suite, including the project's own
+    const customTypes = parseDocTypePayload(customDocTypes);
     const ALL_DOC_TYPES = [
-      "PRD", "Design Document", "Tech Stack", "Architecture",
-      "Tech Spec", "Roadmap", "API Spec", "UI Design", "Task List",
-      "Security Spec", "Data Model", "Vibe Prompt"
+      ...DEFAULT_DOC_DEFINITIONS.map((d) => d.docKey),
+      ...customTypes.map((t) => t.docKey),
     ];
 
     // Build the document context
@@ -37,6 +72,12 @@ export async function POST(req: NextRequest) {
       .map(([type, content]) => `### ${type}\n\n${content}`)
       .join("\n\n---\n\n");
 
+    // Custom types have no YAML spec — their instruction is what they are checked and fixed against
+    const customEntries = customTypes.filter((t) => existingDocTypes.includes(t.docKey));
+    const customContext = customEntries.length > 0
+      ? `\n\n## Custom Document Types (defined by the user — expected content):\n\n${customEntries.map((t) => `### ${t.docKey}\n${t.defaultInstruction}`).join("\n\n")}`
+      : "";
+
     // Build the user message based on mode
     let userMessage: string;
 
@@ -53,7 +94,7 @@ ${docList}
 
 ## Full Document Contents:
 
-${docsContext}
+${docsContext}${customContext}${decisionsGuidance(decisions)}
 
 Please fix ONLY the documents that have issues identified in the telemetry report. Use ~~~doc:Type~~~ markers for each corrected document. Make minimal changes to restore consistency.`;
     } else {
@@ -65,6 +106,7 @@ Please fix ONLY the documents that have issues identified in the telemetry repor
       const specContext = specEntries.length > 0
         ? `\n\n## Instruction Specs (expected structure from YAML instructions):\n\n${specEntries.map(([docType, { structure }]) => `### ${docType} — Expected Sections:\n${structure}`).join("\n\n")}`
         : "";
+      const decisionContext = decisionsBlock(decisions);
 
       userMessage = `# VERIFY MODE — Run Cybernetic Telemetry Analysis
 
@@ -75,56 +117,115 @@ ${docList}
 ## Documents NOT Yet Created:
 
 ${missingList}
-${specContext}
+${specContext}${customContext}${decisionContext}
 
 ## Full Document Contents:
 
 ${docsContext}
 
-Analyze all documents as a coupled system and produce the full TELEMETRY REPORT in the exact format specified. Check all 7 dimensions: Cross-Reference Matrix, Contradiction Log, Terminology Drift, Complexity Audit, Coverage Gaps, Consistency Checks, and Instruction Compliance.
+Analyze all documents as a coupled system and produce the full TELEMETRY REPORT as a single JSON object with "issues", "guidance" and "summary". Check all ${decisionContext ? 8 : 7} dimensions: Cross-Reference Matrix, Contradiction Log, Terminology Drift, Complexity Audit, Coverage Gaps, Consistency Checks, Instruction Compliance${decisionContext ? ", and Decision Compliance" : ""}.
 
-Since only ${docEntries.length} of ${ALL_DOC_TYPES.length} documents exist, also produce the ~~~guidance~~~ block with important notes for each missing document based on what's already established.`;
+${missingDocTypes.length > 0
+  ? `Since only ${docEntries.length} of ${ALL_DOC_TYPES.length} documents exist, also fill "guidance" with important notes for each missing document based on what's already established.`
+  : `All documents exist, so "guidance" must be an empty array.`}`;
     }
 
     // Use empty history — verifier is stateless
     const geminiHistory: ChatMessage[] = [];
 
-    const stream = await streamChat({
-      model: config.model,
+    // A recording only replays for the same model
+    const { provider, model } = resolveModel(route);
+    const fixture = fixtureKey("verify", {
       systemInstruction: config.systemInstruction,
       history: geminiHistory,
       message: userMessage,
-      temperature: config.temperature,
-      maxOutputTokens: config.maxOutputTokens,
+      provider: provider.name,
+      model,
+    });
+    const replayed = replaySSEFixture(fixture);
+    if (replayed) return replayed;
+
+    // Unchanged documents + same instruction/model/mode → replay the previous run
+    const cacheKey = responseCacheKey({
+      route: "verify",
+      provider: provider.name,
+      model,
+      instruction: hashContent(config.systemInstruction),
+      documents: hashDocuments(documents),
+      mode,
+      report: hashContent(report),
+      // Left out when empty so runs cached before the registry and custom types still match
+      decisions: Array.isArray(decisions) && decisions.length > 0 ? hashContent(decisions) : undefined,
+      customDocTypes: customTypes.length > 0 ? hashContent(customTypes) : undefined,
     });
+    const cached = bypassCache ? null : readCachedSSE(cacheKey);
+    if (cached) {
+      return new Response(cached.stream, {
+        headers: { ...EVENT_STREAM_HEADERS, "X-Cache": "HIT", "X-Cache-Created": String(cached.createdAt) },
+      });
+    }
 
-    // Stream response as SSE
-    const encoder = new TextEncoder();
-    const readable = new ReadableStream({
-      async start(controller) {
-        try {
-          for await (const chunk of stream) {
-            const text = chunk.text;
-            if (text) {
-              controller.enqueue(
-                encoder.encode(`data: ${JSON.stringify({ text })}\n\n`)
-              );
-            }
+    const request = {
+      provider: route.provider,
+      model: route.model,
+      systemInstruction: config.systemInstruction,
+      temperature: config.temperature,
+      maxOutputTokens: config.maxOutputTokens,
+      // Verify reports are schema-constrained JSON; harmonize returns ~~~doc blocks
+      ...(mode !== "harmonize" && { responseSchema: VERIFIER_REPORT_SCHEMA }),
+    };
+    const stream = streamChat({ ...request, history: geminiHistory, message: userMessage });
+
+    // Harmonize output is split into doc_* events; verify text is progress
+    // only — the validated report follows as a single `report` event
+    const readable = createEventStream(async (send) => {
+      const splitter = mode === "harmonize" ? createDocMarkerSplitter() : null;
+      const sendAll = (events: StreamEvent[]) => events.forEach(send);
+      // One usage event per attempt; failed attempts still bill whatever the provider reported
+      const sendUsage = (usage: TokenUsage | undefined) => {
+        if (usage) send({ type: "usage", usage: { ...usage, provider: provider.name, model } });
+      };
+      try {
+        const first = await collect(stream, (text) =>
+          splitter ? sendAll(splitter.push(text)) : send({ type: "text", text })
+        );
+        if (splitter) sendAll(splitter.flush());
+        sendUsage(first.usage);
+        const finishError = finishReasonError(first.finishReason);
+        if (finishError) throw finishError;
+
+        if (mode !== "harmonize") {
+          let parsed = parseVerifierReport(first.text);
+          // Re-ask once, showing the model its own output and what was wrong with it
+          if (!parsed.ok) {
+            console.warn("Verifier report failed validation — re-asking:", parsed.errors.join("; "));
+            const retry = await collect(
+              streamChat({
+                ...request,
+                history: [
+                  { role: "user", parts: [{ text: userMessage }] },
+                  { role: "model", parts: [{ text: first.text }] },
+                ],
+                message: `Your response is not a valid report:\n${parsed.errors.slice(0, 20).map((e) => `- ${e}`).join("\n")}\n\nReturn the complete corrected JSON object only.`,
+              })
+            );
+            sendUsage(retry.usage);
+            parsed = parseVerifierReport(retry.text);
+          }
+          if (!parsed.ok) {
+            throw new LLMError("invalid_output", `Verifier report did not match the schema: ${parsed.errors.slice(0, 5).join("; ")}`);
           }
-          controller.enqueue(encoder.encode("data: [DONE]\n\n"));
-          controller.close();
-        } catch (err) {
-          controller.error(err);
+          send({ type: "report", report: parsed.report });
         }
-      },
+      } catch (err) {
+        const error = toLLMError(err);
+        console.error(`LLM stream failed (${error.kind}):`, error.message);
+        send({ type: "error", error: error.toStreamError() });
+      }
     });
 
-    return new Response(readable, {
-      headers: {
-        "Content-Type": "text/event-stream",
-        "Cache-Control": "no-cache",
-        Connection: "keep-alive",
-      },
+    return new Response(cacheSSE(cacheKey, recordSSEFixture(fixture, readable)), {
+      headers: { ...EVENT_STREAM_HEADERS, "X-Cache": "MISS" },
     });
   } catch (error) {
     console.error("Verify API error:", error);
@@ -1,23 +1,54 @@
 "use client";
 
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { motion } from "framer-motion";
-import { ArrowLeft, Zap, ChevronRight, Settings } from "lucide-react";
+import { ArrowLeft, Zap, ChevronRight, Settings, Coins, BookMarked, Landmark } from "lucide-react";
 import { ChatPanel, ChatPanelHandle } from "@/components/ChatPanel";
-import { DocPreview } from "@/components/DocPreview";
+import { DocPreview, type PreviewCommand } from "@/components/DocPreview";
 import { SessionSettings } from "@/components/SessionSettings";
+import { ProjectFactsPanel } from "@/components/ProjectFactsPanel";
+import { DecisionsPanel } from "@/components/DecisionsPanel";
 import { INITIAL_VERIFIER_STATE, VerifierState } from "@/components/VerifierPanel";
 import {
   getSession,
   saveSession,
+  getGlobalDocTypes,
+  saveGlobalDocTypes,
   debouncedSaveSession,
   flushPendingSave,
   Session,
   ChatMessage,
   DocVersion,
+  UsageEntry,
 } from "@/lib/storage";
 import { DOCUMENT_LABELS } from "@/lib/constants";
+import { formatTokens, type ContextSummary } from "@/lib/tokens";
+import { formatCost, sumUsage } from "@/lib/usage";
+import type { ModelRouting } from "@/lib/routing";
+import type { LiveDoc } from "@/lib/doc-stream";
+import type { PatchConflict } from "@/lib/patch";
+import { activePath, branchPoints, commitBranch, stateBefore, switchBranch } from "@/lib/branches";
+import type { CandidateSet } from "@/lib/candidates";
+import { renameInDocuments, type CommandActions } from "@/lib/commands";
+import { exportAllDocuments, exportDocument, exportKit } from "@/lib/export";
+import type { Attachment } from "@/lib/attachments";
+import {
+  createPipeline,
+  createRefreshPipeline,
+  currentStepIndex,
+  hasPendingAfter,
+  restorePipeline,
+  resumePipeline,
+  updateStep,
+  type PipelineState,
+} from "@/lib/pipeline";
+import { resolveDocDefinitions, type DocDefinition } from "@/lib/doc-definitions";
+import { PipelinePanel } from "@/components/PipelinePanel";
+import { dependencyOrder, downstreamOf, recordSources, staleDocuments } from "@/lib/dependencies";
+import { mergeGuidedAnswers, type ProjectFact } from "@/lib/facts";
+import type { DecisionRecord } from "@/lib/decisions";
+import type { TopicCoverage } from "@/lib/coverage";
 
 export default function SessionPage() {
   const params = useParams();
@@ -31,7 +62,27 @@ export default function SessionPage() {
   const [isDragging, setIsDragging] = useState(false);
   const [verifierState, setVerifierState] = useState<VerifierState>(INITIAL_VERIFIER_STATE);
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [factsOpen, setFactsOpen] = useState(false);
+  const [decisionsOpen, setDecisionsOpen] = useState(false);
+  // Documents still streaming (or cut off) — shown in the preview, not yet saved
+  const [liveDocs, setLiveDocs] = useState<Record<string, LiveDoc>>({});
+  // View the preview should open for a slash command, cleared once handled
+  const [previewCommand, setPreviewCommand] = useState<PreviewCommand | null>(null);
   const chatPanelRef = useRef<ChatPanelHandle>(null);
+  // Set while the pipeline waits for a document it asked the chat for
+  const [pipelineBusy, setPipelineBusy] = useState(false);
+  // Verifier pass of the current pipeline step: asked for, then seen running
+  const verifyPassRef = useRef<"idle" | "requested" | "running">("idle");
+  // Custom document types shared by every session
+  const [globalDocTypes, setGlobalDocTypes] = useState<DocDefinition[]>([]);
+  const docDefinitions = useMemo(
+    () => resolveDocDefinitions(globalDocTypes, session?.customDocTypes),
+    [globalDocTypes, session?.customDocTypes]
+  );
+
+  useEffect(() => {
+    getGlobalDocTypes().then(setGlobalDocTypes);
+  }, []);
 
   useEffect(() => {
     getSession(sessionId).then((s) => {
@@ -42,6 +93,7 @@ export default function SessionPage() {
       if (!s.documentHistory) {
         s.documentHistory = [];
       }
+      if (s.pipeline) s.pipeline = restorePipeline(s.pipeline);
       setSession(s);
       const docKeys = Object.keys(s.documents);
       if (docKeys.length > 0) setActiveDoc(docKeys[0]);
@@ -58,11 +110,35 @@ export default function SessionPage() {
     };
   }, []);
 
+  // ChatPanel works on the active branch; the session keeps the whole tree
   const handleMessagesUpdate = useCallback(
-    (messages: ChatMessage[]) => {
+    (path: ChatMessage[], options: { fork?: boolean } = {}) => {
+      setSession((prev) => {
+        if (!prev) return prev;
+        // A fork parks the old branch and starts from the documents at the fork point
+        const updated: Session = { ...prev, ...commitBranch(prev, path, options.fork), updatedAt: Date.now() };
+        debouncedSaveSession(updated);
+        return updated;
+      });
+    },
+    []
+  );
+
+  const handleSwitchBranch = useCallback((messageId: string) => {
+    setSession((prev) => {
+      if (!prev) return prev;
+      const updated = { ...prev, ...switchBranch(prev, messageId), updatedAt: Date.now() };
+      void saveSession(updated);
+      return updated;
+    });
+    setLiveDocs({});
+  }, []);
+
+  const handleContextSummaryUpdate = useCallback(
+    (contextSummary: ContextSummary) => {
       setSession((prev) => {
         if (!prev) return prev;
-        const updated = { ...prev, messages, updatedAt: Date.now() };
+        const updated = { ...prev, contextSummary, updatedAt: Date.now() };
         debouncedSaveSession(updated);
         return updated;
       });
@@ -70,24 +146,155 @@ export default function SessionPage() {
     []
   );
 
+  const handleUsage = useCallback(
+    (entry: UsageEntry) => {
+      setSession((prev) => {
+        if (!prev) return prev;
+        const updated = { ...prev, usageLog: [...(prev.usageLog ?? []), entry], updatedAt: Date.now() };
+        debouncedSaveSession(updated);
+        return updated;
+      });
+    },
+    []
+  );
+
+  const handleAttachmentsChange = useCallback((attachments: Attachment[]) => {
+    setSession((prev) => {
+      if (!prev) return prev;
+      const updated = { ...prev, attachments, updatedAt: Date.now() };
+      void saveSession(updated);
+      return updated;
+    });
+  }, []);
+
+  const handleGuidedAnswers = useCallback((coverage: TopicCoverage[], sourceMessageId: string) => {
+    setSession((prev) => {
+      if (!prev) return prev;
+      const updated = { ...prev, projectFacts: mergeGuidedAnswers(prev.projectFacts ?? [], coverage, sourceMessageId), updatedAt: Date.now() };
+      void saveSession(updated);
+      return updated;
+    });
+  }, []);
+
+  const handleFactsUpdate = useCallback((projectFacts: ProjectFact[]) => {
+    setSession((prev) => {
+      if (!prev) return prev;
+      const updated = { ...prev, projectFacts, updatedAt: Date.now() };
+      debouncedSaveSession(updated);
+      return updated;
+    });
+  }, []);
+
+  const handleDecisionsUpdate = useCallback((decisions: DecisionRecord[]) => {
+    setSession((prev) => {
+      if (!prev) return prev;
+      const updated = { ...prev, decisions, updatedAt: Date.now() };
+      debouncedSaveSession(updated);
+      return updated;
+    });
+  }, []);
+
   const handleDocumentsUpdate = useCallback(
-    (newDocs: Record<string, string>) => {
+    (newDocs: Record<string, string>, options: { rewritten?: string[] } = {}) => {
       setSession((prev) => {
         if (!prev) return prev;
         const mergedDocs = { ...prev.documents };
         for (const [type, content] of Object.entries(newDocs)) {
           mergedDocs[type] = content;
         }
-        const updated = { ...prev, documents: mergedDocs, updatedAt: Date.now() };
+        // A patched document keeps the sources it was last written in full from, so it stays stale
+        const docSources = { ...prev.docSources };
+        for (const type of options.rewritten ?? Object.keys(newDocs)) {
+          docSources[type] = recordSources(type, mergedDocs, resolveDocDefinitions(globalDocTypes, prev.customDocTypes));
+        }
+        const updated = { ...prev, documents: mergedDocs, docSources, updatedAt: Date.now() };
         void saveSession(updated);
         return updated;
       });
       const newDocType = Object.keys(newDocs)[0];
       if (newDocType) setActiveDoc(newDocType);
     },
+    [globalDocTypes]
+  );
+
+  const handleLiveDoc = useCallback((docType: string, doc: LiveDoc | null) => {
+    setLiveDocs((prev) => {
+      const next = { ...prev };
+      if (doc) next[docType] = doc;
+      else delete next[docType];
+      return next;
+    });
+    // Follow a document as soon as it starts streaming
+    if (doc?.status === "generating" && !doc.content) setActiveDoc(docType);
+  }, []);
+
+  const handleKeepLiveDoc = useCallback(
+    (docType: string) => {
+      const doc = liveDocs[docType];
+      if (doc?.content.trim()) handleDocumentsUpdate({ [docType]: doc.content.trim() });
+      handleLiveDoc(docType, null);
+    },
+    [liveDocs, handleDocumentsUpdate, handleLiveDoc]
+  );
+
+  const handlePatchConflicts = useCallback(
+    (conflicts: PatchConflict[]) => {
+      setSession((prev) => {
+        if (!prev) return prev;
+        const updated = { ...prev, patchConflicts: [...(prev.patchConflicts ?? []), ...conflicts], updatedAt: Date.now() };
+        void saveSession(updated);
+        return updated;
+      });
+    },
+    []
+  );
+
+  const handleDismissConflict = useCallback(
+    (conflictId: string) => {
+      setSession((prev) => {
+        if (!prev) return prev;
+        const patchConflicts = (prev.patchConflicts ?? []).filter((c) => c.id !== conflictId);
+        const updated = { ...prev, patchConflicts, updatedAt: Date.now() };
+        void saveSession(updated);
+        return updated;
+      });
+    },
     []
   );
 
+  // A new set replaces any unpicked candidates of the same document
+  const handleCandidates = useCallback((set: CandidateSet) => {
+    setSession((prev) => {
+      if (!prev) return prev;
+      const candidateSets = [...(prev.candidateSets ?? []).filter((s) => s.docType !== set.docType), set];
+      const updated = { ...prev, candidateSets, updatedAt: Date.now() };
+      void saveSession(updated);
+      return updated;
+    });
+    setActiveDoc(set.docType);
+  }, []);
+
+  // Writes the picked (or merged) candidate and drops the set; null just drops it
+  const handleResolveCandidates = useCallback((docType: string, content: string | null) => {
+    setSession((prev) => {
+      if (!prev) return prev;
+      const candidateSets = (prev.candidateSets ?? []).filter((s) => s.docType !== docType);
+      const now = Date.now();
+      const updated: Session = { ...prev, candidateSets, updatedAt: now };
+      if (content !== null) {
+        const previous = prev.documents[docType];
+        if (previous !== undefined) {
+          updated.documentHistory = [...(prev.documentHistory || []), { docType, content: previous, timestamp: now, source: "generated" }];
+        }
+        updated.documents = { ...prev.documents, [docType]: content };
+        const definitions = resolveDocDefinitions(globalDocTypes, prev.customDocTypes);
+        updated.docSources = { ...prev.docSources, [docType]: recordSources(docType, updated.documents, definitions) };
+      }
+      void saveSession(updated);
+      return updated;
+    });
+  }, [globalDocTypes]);
+
   const handleDocumentEdit = useCallback(
     (docType: string, newContent: string) => {
       setSession((prev) => {
@@ -150,6 +357,189 @@ export default function SessionPage() {
     []
   );
 
+  const handleSessionDocTypesUpdate = useCallback((customDocTypes: DocDefinition[]) => {
+    setSession((prev) => {
+      if (!prev) return prev;
+      const updated = { ...prev, customDocTypes, updatedAt: Date.now() };
+      void saveSession(updated);
+      return updated;
+    });
+  }, []);
+
+  const handleGlobalDocTypesUpdate = useCallback((types: DocDefinition[]) => {
+    setGlobalDocTypes(types);
+    void saveGlobalDocTypes(types);
+  }, []);
+
+  const handleRoutingUpdate = useCallback(
+    (modelRouting: ModelRouting) => {
+      setSession((prev) => {
+        if (!prev) return prev;
+        const updated = { ...prev, modelRouting, updatedAt: Date.now() };
+        debouncedSaveSession(updated);
+        return updated;
+      });
+    },
+    []
+  );
+
+  // ── Slash commands ──
+  // Actions the chat's commands run outside the chat panel
+  const commandActions: Omit<CommandActions, "generate" | "guided"> = {
+    verify: () => setPreviewCommand({ id: crypto.randomUUID(), action: "verify" }),
+    harmonize: () => {
+      const open = verifierState.issues.filter(
+        (i) => !verifierState.dismissed.includes(i.id) && !verifierState.applied.includes(i.id) && i.severity !== "info"
+      );
+      if (open.length === 0) return "No open verifier issues to fix — run /verify first";
+      setPreviewCommand({ id: crypto.randomUUID(), action: "harmonize" });
+    },
+    exportKit: () => {
+      if (session) void exportKit(session.documents, session.name, session.decisions, docDefinitions);
+    },
+    exportAll: () => {
+      if (session) void exportAllDocuments(session.documents, session.name);
+    },
+    exportDocument: (docType) => {
+      if (session) exportDocument(session.documents, docType, session.name, docDefinitions);
+    },
+    showDiff: (docType) => {
+      if (!session?.documentHistory?.some((v) => v.docType === docType)) return `${docType} has no earlier versions yet`;
+      setPreviewCommand({ id: crypto.randomUUID(), action: "diff", docType });
+    },
+    renameEntity: (from, to) => {
+      if (!session) return 0;
+      const { documents, count } = renameInDocuments(session.documents, from, to);
+      if (count > 0) {
+        handleSnapshotVersions(
+          Object.fromEntries(Object.keys(documents).map((docType) => [docType, session.documents[docType]])),
+          "edited"
+        );
+        handleDocumentsUpdate(documents);
+      }
+      return count;
+    },
+  };
+
+  // ── Full-suite pipeline ──
+  const updatePipeline = useCallback((update: (pipeline: PipelineState) => PipelineState | undefined) => {
+    setSession((prev) => {
+      if (!prev?.pipeline) return prev;
+      const updated = { ...prev, pipeline: update(prev.pipeline), updatedAt: Date.now() };
+      void saveSession(updated);
+      return updated;
+    });
+  }, []);
+
+  const handleStartPipeline = useCallback(() => {
+    verifyPassRef.current = "idle";
+    setSession((prev) => {
+      if (!prev) return prev;
+      const pipeline = createPipeline(
+        prev.documents,
+        prev.pipeline?.verifyBetween ?? false,
+        resolveDocDefinitions(globalDocTypes, prev.customDocTypes)
+      );
+      const updated = { ...prev, pipeline, updatedAt: Date.now() };
+      void saveSession(updated);
+      return updated;
+    });
+  }, [globalDocTypes]);
+
+  // Regenerates the documents written from `docType` (and optionally itself) in dependency order
+  const handleRefreshDownstream = useCallback((docType: string, includeSelf: boolean) => {
+    verifyPassRef.current = "idle";
+    setSession((prev) => {
+      if (!prev) return prev;
+      const definitions = resolveDocDefinitions(globalDocTypes, prev.customDocTypes);
+      const downstream = downstreamOf(docType, definitions);
+      const targets = definitions.map((d) => d.docKey).filter(
+        (key) => key in prev.documents && ((includeSelf && key === docType) || downstream.includes(key))
+      );
+      if (targets.length === 0) return prev;
+      const pipeline = createRefreshPipeline(
+        dependencyOrder(targets, definitions),
+        docType,
+        prev.pipeline?.verifyBetween ?? false
+      );
+      const updated = { ...prev, pipeline, updatedAt: Date.now() };
+      void saveSession(updated);
+      return updated;
+    });
+  }, [globalDocTypes]);
+
+  const handleTogglePipelineSkip = useCallback(
+    (index: number) => {
+      const step = session?.pipeline?.steps[index];
+      if (!step) return;
+      if (step.status === "running") chatPanelRef.current?.stop();
+      if (step.status === "verifying") verifyPassRef.current = "idle";
+      const status = step.status === "skipped" ? "pending" : step.status === "verifying" ? "done" : "skipped";
+      updatePipeline((p) => updateStep(p, index, { status, error: undefined }));
+    },
+    [session?.pipeline, updatePipeline]
+  );
+
+  // Drives the run: one step at a time, whenever the chat is idle
+  useEffect(() => {
+    const pipeline = session?.pipeline;
+    if (!pipeline || pipeline.status !== "running" || isStreaming || pipelineBusy) return;
+    const index = currentStepIndex(pipeline);
+    if (index === -1) {
+      updatePipeline((p) => ({ ...p, status: "done" }));
+      return;
+    }
+    const step = pipeline.steps[index];
+
+    if (step.status === "verifying") {
+      if (verifyPassRef.current === "idle") {
+        if (Object.keys(session.documents).length < 2) {
+          updatePipeline((p) => updateStep(p, index, { status: "done" }));
+          return;
+        }
+        verifyPassRef.current = "requested";
+        setPreviewCommand({ id: crypto.randomUUID(), action: "verify" });
+        return;
+      }
+      if (verifierState.phase === "verifying") {
+        verifyPassRef.current = "running";
+        return;
+      }
+      if (verifyPassRef.current === "requested") return;
+      verifyPassRef.current = "idle";
+      const critical = verifierState.issues.filter((i) => i.severity === "critical").length;
+      updatePipeline((p) => {
+        const next = updateStep(p, index, { status: "done" });
+        if (verifierState.error) return { ...next, status: "paused", note: "The verifier pass failed — check the verifier, then resume" };
+        if (critical > 0) {
+          return { ...next, status: "paused", note: `The verifier found ${critical} critical issue${critical === 1 ? "" : "s"} — fix or dismiss them, then resume` };
+        }
+        return next;
+      });
+      return;
+    }
+
+    const doc = docDefinitions.find((d) => d.docKey === step.docType);
+    if (!doc || !chatPanelRef.current || step.status === "failed") {
+      updatePipeline((p) => ({ ...p, status: "paused", note: `${step.docType} cannot be generated — skip it to go on` }));
+      return;
+    }
+    setPipelineBusy(true);
+    updatePipeline((p) => updateStep(p, index, { status: "running" }));
+    void chatPanelRef.current.generateDocument(doc, "regenerate").then((written) => {
+      setPipelineBusy(false);
+      updatePipeline((p) => {
+        // Skipped, or replaced by a new run, while it was generating
+        if (p.id !== pipeline.id || p.steps[index].status !== "running") return p;
+        if (!written.includes(step.docType)) {
+          const failed = updateStep(p, index, { status: "failed", error: "No document was written" });
+          return { ...failed, status: "paused", note: `${step.docType} was not written — retry or skip it` };
+        }
+        return updateStep(p, index, { status: p.verifyBetween && hasPendingAfter(p, index) ? "verifying" : "done" });
+      });
+    });
+  }, [session?.pipeline, session?.documents, docDefinitions, isStreaming, pipelineBusy, verifierState, updatePipeline]);
+
   // Drag-to-resize
   const handleMouseDown = (e: React.MouseEvent) => {
     e.preventDefault();
@@ -183,6 +573,11 @@ export default function SessionPage() {
   }
 
   const label = DOCUMENT_LABELS[session.instructionKey] ?? session.instructionKey;
+  const branchPath = activePath(session.messages, session.activeLeafId);
+  const branches = branchPoints(session.messages, branchPath);
+  const usageTotals = sumUsage(session.usageLog ?? []);
+  const staleDocs = staleDocuments(session.documents, session.docSources ?? {}, docDefinitions);
+  const pipelineRunning = session.pipeline?.status === "running";
 
   return (
     <div className="h-screen flex flex-col overflow-hidden">
@@ -203,6 +598,16 @@ export default function SessionPage() {
           </div>
 
           <div className="ml-auto flex items-center gap-2">
+            {usageTotals.requests > 0 && (
+              <span
+                className="flex items-center gap-1.5 text-xs font-mono px-2 py-1 rounded-full bg-secondary/50 text-muted-foreground border border-border"
+                title={`${usageTotals.requests} requests · ${formatTokens(usageTotals.inputTokens)} input (${formatTokens(usageTotals.cachedTokens)} prompt-cached) · ${formatTokens(usageTotals.outputTokens)} output${usageTotals.unpriced > 0 ? ` · ${usageTotals.unpriced} request(s) on unpriced models not included in cost` : ""}`}
+              >
+                <Coins className="w-3 h-3" />
+                {formatTokens(usageTotals.inputTokens + usageTotals.outputTokens)} · {formatCost(usageTotals.cost)}
+                {usageTotals.unpriced > 0 && "+"}
+              </span>
+            )}
             <span className="text-xs font-mono px-2 py-1 rounded-full bg-cyan-500/10 text-cyan-400 border border-cyan-500/20">
               {label}
             </span>
@@ -216,6 +621,26 @@ export default function SessionPage() {
                 Generating...
               </motion.div>
             )}
+            <button
+              onClick={() => setFactsOpen(true)}
+              className="flex items-center gap-1.5 p-1.5 rounded-lg hover:bg-secondary text-muted-foreground hover:text-foreground transition-colors"
+              title="Project Facts"
+            >
+              <BookMarked className="w-4 h-4" />
+              {(session.projectFacts?.length ?? 0) > 0 && (
+                <span className="text-[10px] font-mono tabular-nums">{session.projectFacts?.length}</span>
+              )}
+            </button>
+            <button
+              onClick={() => setDecisionsOpen(true)}
+              className="flex items-center gap-1.5 p-1.5 rounded-lg hover:bg-secondary text-muted-foreground hover:text-foreground transition-colors"
+              title="Decision Log"
+            >
+              <Landmark className="w-4 h-4" />
+              {(session.decisions?.length ?? 0) > 0 && (
+                <span className="text-[10px] font-mono tabular-nums">{session.decisions?.length}</span>
+              )}
+            </button>
             <button
               onClick={() => setSettingsOpen(true)}
               className="p-1.5 rounded-lg hover:bg-secondary text-muted-foreground hover:text-foreground transition-colors"
@@ -234,21 +659,51 @@ export default function SessionPage() {
       >
         {/* Chat panel */}
         <div
-          className="flex-shrink-0 border-r border-border overflow-hidden"
+          className="flex-shrink-0 border-r border-border overflow-hidden flex flex-col"
           style={{ width: `${panelWidth}%` }}
         >
-          <ChatPanel
-            ref={chatPanelRef}
-            messages={session.messages}
-            instructionKey={session.instructionKey}
-            isStreaming={isStreaming}
-            existingDocs={session.documents}
-            customInstructions={session.customInstructions}
-            verifyReport={verifierState.rawReport || null}
-            onMessagesUpdate={handleMessagesUpdate}
-            onDocumentsUpdate={handleDocumentsUpdate}
-            onStreamingChange={setIsStreaming}
-          />
+          {session.pipeline && (
+            <PipelinePanel
+              pipeline={session.pipeline}
+              onPause={() => updatePipeline((p) => ({ ...p, status: "paused", note: undefined }))}
+              onResume={() => updatePipeline(resumePipeline)}
+              onToggleSkip={handleTogglePipelineSkip}
+              onVerifyBetweenChange={(verifyBetween) => updatePipeline((p) => ({ ...p, verifyBetween }))}
+              onSelectDoc={setActiveDoc}
+              onClose={() => updatePipeline(() => undefined)}
+            />
+          )}
+          <div className="flex-1 min-h-0">
+            <ChatPanel
+              ref={chatPanelRef}
+              messages={branchPath}
+              branches={branches}
+              instructionKey={session.instructionKey}
+              isStreaming={isStreaming}
+              existingDocs={session.documents}
+              documentsBefore={(messageId) => stateBefore(session, messageId)?.documents}
+              customInstructions={session.customInstructions}
+              docDefinitions={docDefinitions}
+              verifyReport={verifierState.rawReport || null}
+              contextSummary={session.contextSummary}
+              modelRouting={session.modelRouting}
+              attachments={session.attachments ?? []}
+              onAttachmentsChange={handleAttachmentsChange}
+              onMessagesUpdate={handleMessagesUpdate}
+              onSwitchBranch={handleSwitchBranch}
+              onContextSummaryUpdate={handleContextSummaryUpdate}
+              onDocumentsUpdate={handleDocumentsUpdate}
+              onLiveDoc={handleLiveDoc}
+              onPatchConflicts={handlePatchConflicts}
+              onCandidates={handleCandidates}
+              onStartPipeline={pipelineRunning ? undefined : handleStartPipeline}
+              commandActions={commandActions}
+              onStreamingChange={setIsStreaming}
+              onUsage={handleUsage}
+              projectFacts={session.projectFacts}
+              onGuidedAnswers={handleGuidedAnswers}
+            />
+          </div>
         </div>
 
         {/* Drag handle */}
@@ -264,6 +719,13 @@ export default function SessionPage() {
         <div className="flex-1 overflow-hidden">
           <DocPreview
             documents={session.documents}
+            liveDocs={liveDocs}
+            onKeepLiveDoc={handleKeepLiveDoc}
+            onDiscardLiveDoc={(docType) => handleLiveDoc(docType, null)}
+            patchConflicts={session.patchConflicts ?? []}
+            onDismissConflict={handleDismissConflict}
+            candidateSets={session.candidateSets ?? []}
+            onResolveCandidates={handleResolveCandidates}
             activeDoc={activeDoc}
             onSelectDoc={setActiveDoc}
             sessionName={session.name}
@@ -272,9 +734,18 @@ export default function SessionPage() {
             onDocumentsUpdate={handleDocumentsUpdate}
             onSnapshotVersions={handleSnapshotVersions}
             onReportReady={handleReportReady}
+            onUsage={handleUsage}
+            modelRouting={session.modelRouting}
             verifierState={verifierState}
             onVerifierStateChange={setVerifierState}
             documentHistory={session.documentHistory || []}
+            staleDocs={staleDocs}
+            onRefreshDownstream={pipelineRunning || isStreaming ? undefined : handleRefreshDownstream}
+            decisions={session.decisions}
+            docDefinitions={docDefinitions}
+            projectFacts={session.projectFacts}
+            command={previewCommand}
+            onCommandHandled={() => setPreviewCommand(null)}
           />
         </div>
       </div>
@@ -283,8 +754,35 @@ export default function SessionPage() {
       <SessionSettings
         open={settingsOpen}
         customInstructions={session.customInstructions ?? {}}
+        modelRouting={session.modelRouting ?? {}}
+        definitions={docDefinitions}
+        sessionDocTypes={session.customDocTypes ?? []}
+        globalDocTypes={globalDocTypes}
         onClose={() => setSettingsOpen(false)}
         onUpdate={handleCustomInstructionsUpdate}
+        onRoutingUpdate={handleRoutingUpdate}
+        onSessionDocTypesUpdate={handleSessionDocTypesUpdate}
+        onGlobalDocTypesUpdate={handleGlobalDocTypesUpdate}
+      />
+
+      {/* Project Facts */}
+      <ProjectFactsPanel
+        open={factsOpen}
+        facts={session.projectFacts ?? []}
+        messages={session.messages}
+        onClose={() => setFactsOpen(false)}
+        onUpdate={handleFactsUpdate}
+      />
+
+      {/* Decision Log */}
+      <DecisionsPanel
+        open={decisionsOpen}
+        decisions={session.decisions ?? []}
+        documents={session.documents}
+        modelRouting={session.modelRouting}
+        onClose={() => setDecisionsOpen(false)}
+        onUpdate={handleDecisionsUpdate}
+        onUsage={handleUsage}
       />
     </div>
   );
@@ -0,0 +1,68 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { FileText, ImageIcon, Trash2, Eye, EyeOff, Paperclip } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatBytes, type Attachment } from "@/lib/attachments";
+
+interface AttachmentsDrawerProps {
+  attachments: Attachment[];
+  onToggle: (id: string) => void;
+  onRemove: (id: string) => void;
+  onAdd: () => void;
+}
+
+export function AttachmentsDrawer({ attachments, onToggle, onRemove, onAdd }: AttachmentsDrawerProps) {
+  return (
+    <motion.div
+      initial={{ height: 0, opacity: 0 }}
+      animate={{ height: "auto", opacity: 1 }}
+      exit={{ height: 0, opacity: 0 }}
+      transition={{ duration: 0.15 }}
+      className="overflow-hidden"
+    >
+      <div className="mb-2 rounded-xl border border-border bg-secondary/30 text-xs font-mono">
+        <div className="flex items-center justify-between px-3 py-2 border-b border-border text-[10px] uppercase tracking-wider text-muted-foreground">
+          <span>Attachments — sent with every message while in context</span>
+          <button onClick={onAdd} className="flex items-center gap-1 normal-case tracking-normal text-cyan-400 hover:text-cyan-300">
+            <Paperclip className="w-3 h-3" />
+            Add files
+          </button>
+        </div>
+        {attachments.length === 0 && (
+          <div className="px-3 py-3 text-muted-foreground">
+            Drop markdown, text, JSON, YAML, CSV or image files on the chat to attach them.
+          </div>
+        )}
+        <div className="max-h-48 overflow-y-auto">
+          {attachments.map((a) => {
+            const Icon = a.kind === "image" ? ImageIcon : FileText;
+            return (
+              <div key={a.id} className="flex items-center gap-2 px-3 py-1.5 border-b border-border/50 last:border-b-0">
+                <Icon className={cn("w-3 h-3 flex-shrink-0", a.inContext ? "text-cyan-400" : "text-muted-foreground")} />
+                <span className={cn("flex-1 min-w-0 truncate", a.inContext ? "text-foreground" : "text-muted-foreground line-through")}>
+                  {a.name}
+                </span>
+                <span className="text-[10px] text-muted-foreground tabular-nums">{formatBytes(a.size)}</span>
+                <button
+                  onClick={() => onToggle(a.id)}
+                  className="p-1 rounded text-muted-foreground hover:text-foreground transition-colors"
+                  title={a.inContext ? "In context — click to stop sending it" : "Not in context — click to send it again"}
+                >
+                  {a.inContext ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
+                </button>
+                <button
+                  onClick={() => onRemove(a.id)}
+                  className="p-1 rounded text-muted-foreground hover:text-red-400 transition-colors"
+                  title="Remove from the session"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
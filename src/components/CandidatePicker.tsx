@@ -0,0 +1,215 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Check, Columns2, Combine, Trash2, AlertTriangle, ArrowRight } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { mergeCandidates, mergeRows, type CandidateSet } from "@/lib/candidates";
+import { SideBySideDiff } from "./DiffViewer";
+
+interface CandidatePickerProps {
+  set: CandidateSet;
+  // Saved version of the document, if there is one — offered as a comparison side
+  currentContent?: string;
+  onPick: (content: string) => void;
+  onDiscard: () => void;
+}
+
+// Comparison sides: candidate index, or -1 for the saved document
+const CURRENT = -1;
+
+export function CandidatePicker({ set, currentContent, onPick, onDiscard }: CandidatePickerProps) {
+  const usable = set.candidates.map((c, i) => (c.content ? i : null)).filter((i): i is number => i !== null);
+  const [mode, setMode] = useState<"compare" | "merge">("compare");
+  const [left, setLeft] = useState(usable[0] ?? CURRENT);
+  const [right, setRight] = useState(usable[1] ?? CURRENT);
+  // Merge choice per row key: candidate index, or null to leave the section out
+  const [picks, setPicks] = useState<Record<string, number | null>>({});
+
+  const contents = set.candidates.map((c) => c.content);
+  const rows = useMemo(() => mergeRows(set.candidates.map((c) => c.content)), [set.candidates]);
+  const merged = useMemo(() => mergeCandidates(rows, picks), [rows, picks]);
+  const sideContent = (side: number) => (side === CURRENT ? (currentContent ?? "") : contents[side]);
+
+  const sideOptions = [
+    ...usable.map((i) => ({ value: i, label: `Candidate #${i + 1}` })),
+    ...(currentContent !== undefined ? [{ value: CURRENT, label: "Current" }] : []),
+  ];
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Header */}
+      <div className="flex-shrink-0 px-4 py-3 border-b border-border space-y-3">
+        <div className="flex items-center gap-2 flex-wrap text-xs font-mono">
+          <span className="text-[10px] text-muted-foreground uppercase tracking-widest">
+            {usable.length} of {set.candidates.length} candidates · {set.docType}
+          </span>
+          <div className="ml-auto flex items-center gap-1.5">
+            <ModeButton active={mode === "compare"} onClick={() => setMode("compare")} icon={Columns2} label="Compare" />
+            <ModeButton active={mode === "merge"} onClick={() => setMode("merge")} icon={Combine} label="Merge sections" />
+            <button
+              onClick={onDiscard}
+              className="flex items-center gap-1 px-2.5 py-1 rounded-md bg-secondary border border-border text-muted-foreground hover:text-red-400 hover:border-red-500/30 transition-colors"
+              title="Drop every candidate — the saved document stays as it is"
+            >
+              <Trash2 className="w-3 h-3" />
+              Discard all
+            </button>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 flex-wrap">
+          {set.candidates.map((candidate, i) => (
+            <div
+              key={candidate.id}
+              className="flex items-center gap-2 px-2.5 py-1.5 rounded-lg bg-secondary/50 border border-border text-[11px] font-mono"
+            >
+              <span className="text-foreground font-semibold">#{i + 1}</span>
+              {candidate.content && (
+                <span className="text-muted-foreground tabular-nums">
+                  {candidate.content.split("\n").length} lines
+                </span>
+              )}
+              {candidate.error && (
+                <span className="flex items-center gap-1 text-amber-400" title={candidate.error}>
+                  <AlertTriangle className="w-3 h-3" />
+                  {candidate.content ? "incomplete" : "failed"}
+                </span>
+              )}
+              {candidate.content && (
+                <button
+                  onClick={() => onPick(candidate.content)}
+                  className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-cyan-500/10 border border-cyan-500/30 text-cyan-400 hover:bg-cyan-500/20 transition-colors"
+                >
+                  <Check className="w-3 h-3" />
+                  Use
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {mode === "compare" && sideOptions.length > 0 && (
+          <div className="flex items-center gap-3">
+            <SideSelect value={left} options={sideOptions} onChange={setLeft} />
+            <ArrowRight className="w-3 h-3 text-muted-foreground" />
+            <SideSelect value={right} options={sideOptions} onChange={setRight} />
+          </div>
+        )}
+      </div>
+
+      {/* Body */}
+      <div className="flex-1 overflow-y-auto">
+        {usable.length === 0 ? (
+          <div className="flex items-center justify-center h-full text-muted-foreground text-sm font-mono">
+            Every candidate failed — discard them and generate again
+          </div>
+        ) : mode === "compare" ? (
+          <SideBySideDiff left={sideContent(left)} right={sideContent(right)} />
+        ) : (
+          <div className="p-4 space-y-1 text-xs font-mono">
+            {rows.map((row) => {
+              const defaultPick = Number(Object.keys(row.parts)[0]);
+              const pick = row.key in picks ? picks[row.key] : defaultPick;
+              return (
+                <div key={row.key} className="flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-secondary/30">
+                  <span className={cn("flex-1 min-w-0 truncate", pick === null ? "text-muted-foreground line-through" : "text-foreground")}>
+                    {row.title}
+                  </span>
+                  {set.candidates.map((candidate, i) => (
+                    <button
+                      key={candidate.id}
+                      onClick={() => setPicks((prev) => ({ ...prev, [row.key]: i }))}
+                      disabled={row.parts[i] === undefined}
+                      className={cn(
+                        "w-8 py-0.5 rounded-md border text-[10px] transition-colors disabled:opacity-20 disabled:pointer-events-none",
+                        pick === i
+                          ? "bg-cyan-500/10 border-cyan-500/30 text-cyan-400"
+                          : "bg-secondary border-border text-muted-foreground hover:text-foreground"
+                      )}
+                      title={row.parts[i] === undefined ? `Candidate #${i + 1} has no such section` : `Take this section from candidate #${i + 1}`}
+                    >
+                      #{i + 1}
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => setPicks((prev) => ({ ...prev, [row.key]: null }))}
+                    className={cn(
+                      "px-2 py-0.5 rounded-md border text-[10px] transition-colors",
+                      pick === null
+                        ? "bg-red-500/10 border-red-500/30 text-red-400"
+                        : "bg-secondary border-border text-muted-foreground hover:text-foreground"
+                    )}
+                  >
+                    omit
+                  </button>
+                </div>
+              );
+            })}
+            <div className="flex items-center justify-end gap-2 pt-3">
+              <span className="text-[10px] text-muted-foreground tabular-nums">{merged.split("\n").length} lines</span>
+              <button
+                onClick={() => onPick(merged)}
+                disabled={!merged.trim()}
+                className="flex items-center gap-1 px-2.5 py-1 rounded-md bg-cyan-500/10 border border-cyan-500/30 text-cyan-400 hover:bg-cyan-500/20 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+              >
+                <Combine className="w-3 h-3" />
+                Use merged
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ModeButton({
+  active,
+  onClick,
+  icon: Icon,
+  label,
+}: {
+  active: boolean;
+  onClick: () => void;
+  icon: typeof Columns2;
+  label: string;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={cn(
+        "flex items-center gap-1 px-2.5 py-1 rounded-md border transition-colors",
+        active
+          ? "bg-violet-500/10 border-violet-500/30 text-violet-400"
+          : "bg-secondary border-border text-muted-foreground hover:text-foreground"
+      )}
+    >
+      <Icon className="w-3 h-3" />
+      {label}
+    </button>
+  );
+}
+
+function SideSelect({
+  value,
+  options,
+  onChange,
+}: {
+  value: number;
+  options: { value: number; label: string }[];
+  onChange: (value: number) => void;
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="px-2 py-1 rounded-lg bg-secondary/50 border border-border text-xs font-mono text-foreground outline-none focus:border-violet-500/30"
+    >
+      {options.map((o) => (
+        <option key={o.value} value={o.value}>
+          {o.label}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -9,8 +9,9 @@ import {
   useImperativeHandle,
 } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Send, Square, ChevronDown, ChevronUp, Plus, Zap, MessageSquare } from "lucide-react";
+import { Send, Square, ChevronDown, ChevronUp, Plus, Zap, MessageSquare, Layers, Paperclip, Workflow, PenLine } from "lucide-react";
 import { GuidedProgress, GuidedSession } from "./GuidedProgress";
+import { AttachmentsDrawer } from "./AttachmentsDrawer";
 import {
   MessageBubble,
   TypingIndicator,
@@ -18,53 +19,83 @@ import {
   ImageErrorBubble,
   InlineImage,
 } from "./MessageBubble";
-import { ChatMessage } from "@/lib/storage";
+import { ChatMessage, type UsageEntry } from "@/lib/storage";
 import { parseDocumentBlocks, parseImageMarkers } from "@/lib/utils";
 import { cn } from "@/lib/utils";
+import { describeStreamError, type StreamError } from "@/lib/llm/errors";
+import { formatTokens, type ContextSummary, type ContextUsage } from "@/lib/tokens";
+import { mergeUsage, type UsageRecord } from "@/lib/usage";
+import type { ModelRouting, TaskType } from "@/lib/routing";
+import type { ToolCall } from "@/lib/llm/types";
+import { applyToolCalls } from "@/lib/chat-tools";
+import { readEvents } from "@/lib/stream-events";
+import type { LiveDoc } from "@/lib/doc-stream";
+import { applyDocPatches, describePatchOp, parsePatchBlocks, type PatchConflict } from "@/lib/patch";
+import type { BranchPoint } from "@/lib/branches";
+import { CANDIDATE_COUNTS, type CandidateSet, type DocCandidate } from "@/lib/candidates";
+import { ACCEPTED_ATTACHMENTS, readAttachment, toPayload, type Attachment } from "@/lib/attachments";
+import { completeCommand, getCommand, parseCommand, type CommandActions, type CommandContext } from "@/lib/commands";
+import { coverageInstruction, mergeCoverage, parseCoverageBlock, type TopicCoverage } from "@/lib/coverage";
+import { parseChoicesBlock } from "@/lib/choices";
+import { toFactPayload, type ProjectFact } from "@/lib/facts";
 import {
   DEFAULT_DOC_DEFINITIONS,
   COLOR_MAP,
   buildDocPrompt,
   getEffectiveInstruction,
+  toDocTypePayload,
   type DocDefinition,
 } from "@/lib/doc-definitions";
 
+// How an existing document is brought up to date: edited in place, or written again in full
+export type DocPromptMode = "patch" | "regenerate";
+
 // Local buildDocPromptLocal wraps the shared buildDocPrompt with update/context logic
 function buildDocPromptLocal(
   docLabel: string,
   docKey: string,
   instruction: string,
-  existingDocs: Record<string, string>
+  existingDocs: Record<string, string>,
+  mode: DocPromptMode
 ): string {
   const alreadyExists = docKey in existingDocs;
-  const otherDocs = Object.keys(existingDocs).filter((k) => k !== docKey);
+
+  if (alreadyExists && mode === "regenerate") {
+    return `The ${docLabel} has already been generated and may contain my manual edits. Please review it carefully along with all other existing documents, then **rewrite it in full** so that it:
+- Preserves all decisions, names, and features already defined, unless the documents it is written from now say otherwise
+- Follows the current structure and content of the documents it is written from — sections they renamed, removed or added must be reflected
+- Incorporates any new information from our conversation since it was last generated
+- Remains fully consistent with all other documents in this session
+
+Write the complete document from top to bottom — not a patch.
+
+${instruction}`;
+  }
 
   if (alreadyExists) {
-    return `The ${docLabel} has already been generated. Please review it carefully along with all other existing documents, then produce an **updated and improved version** that:
+    return `The ${docLabel} has already been generated and may contain my manual edits. Please review it carefully along with all other existing documents, then **patch** it so that it:
 - Preserves all decisions, names, and features already defined
 - Incorporates any new information from our conversation since it was last generated
 - Fills in any gaps or missing detail
 - Remains fully consistent with all other documents in this session
 
+Change only the sections that need it, as a patch — do not re-emit the whole document.
+
 ${instruction}`;
   }
 
   return buildDocPrompt(docLabel, docKey, instruction, existingDocs);
 }
 
-// Derive GUIDED_TOPICS lookup from shared definitions
-const GUIDED_TOPICS: Record<string, string[]> = Object.fromEntries(
-  DEFAULT_DOC_DEFINITIONS
-    .filter((d) => d.guidedTopics && d.guidedTopics.length > 0)
-    .map((d) => [d.docKey, d.guidedTopics!])
-);
+// A guided reply asking for the document ("generate", "yes, generate now", ...)
+const GENERATE_REQUEST = /^\W*(?:(?:yes|ok|okay|sure|please|go ahead|let's)\W+)*generate\b/i;
 
 function buildGuidedPrompt(
   docLabel: string,
   docKey: string,
+  topics: string[],
   existingDocs: Record<string, string>
 ): string {
-  const topics = GUIDED_TOPICS[docKey] ?? [];
   const topicChecklist = topics.map((t) => `- [ ] ${t}`).join("\n");
   const otherDocs = Object.keys(existingDocs).filter((k) => k !== docKey);
   const contextNote =
@@ -81,35 +112,123 @@ ${topicChecklist}
 
 RULES:
 1. Ask ONE question at a time. Wait for my answer.
-2. After each answer, check off which topics are now covered.
-3. If I give a vague answer, simplify: offer 2-3 concrete options to choose from.
+2. After each answer, update the status of every topic it touched.
+3. If I give a vague answer, simplify: offer 2-3 concrete options to choose from, and end the question with a block like ~~~choices\n{"mode": "single", "options": ["Option A", "Option B"], "other": true}\n~~~ (mode "multi" when several can apply) so I can click an answer.
 4. If I say "I don't know", suggest the most common industry approach and ask for confirmation.
 5. NEVER assume or fabricate answers I haven't given.
-6. After each answer, report progress exactly like this: "✅ X/${topics.length} topics covered"
+6. After each answer, report progress with the coverage block described below.
 7. When ≥${Math.ceil(topics.length * 0.6)} topics (60%) are covered, ask: "I have enough info to generate. Want to continue answering or should I generate now?"
-8. When I say "generate" or after ≥${Math.ceil(topics.length * 0.8)} topics (80%) are covered and I seem ready, generate the full ${docLabel}.
-9. For any topic NOT covered, explicitly write "[To be determined — not discussed]" in the document.
+8. NEVER write the ${docLabel} yourself in this interview — it is written in a separate step once I say "generate". After ≥${Math.ceil(topics.length * 0.8)} topics (80%) are covered, suggest generating instead of asking more.
+9. When the ${docLabel} is written, any topic NOT covered gets "[To be determined — not discussed]".
+10. When I ask to move to a specific topic, ask about that topic next.
+11. Topics the PROJECT FACTS already answer are covered from the start — report them as covered and do not ask about them again.
+
+${coverageInstruction(topics)}
 
 Start by asking the first question now.`;
 }
 
+// Documents a finished response produced, given what its stream delivered.
+// They arrive as doc events (from write_document or ~~~doc: markers);
+// markers left in the text only come from recordings made before that.
+// Patches (~~~patch: blocks, then patch_document calls) apply on top of what was written;
+// `rewritten` lists the documents written in full.
+function resolveResponse(
+  fullText: string,
+  streamedDocs: Record<string, string>,
+  endedDocs: Set<string>,
+  toolCalls: ToolCall[],
+  existingDocs: Record<string, string>
+) {
+  const { cleanText, documents: markerDocs } = parseDocumentBlocks(fullText);
+  const written = { ...markerDocs };
+  for (const docType of endedDocs) if (streamedDocs[docType]) written[docType] = streamedDocs[docType];
+  const { cleanText: patchedText, patches } = parsePatchBlocks(cleanText);
+  const { cleanText: coveredText, coverage } = parseCoverageBlock(patchedText);
+  const { cleanText: replyText, choices } = parseChoicesBlock(coveredText);
+  const patched = applyDocPatches(patches, { ...existingDocs, ...written });
+  const tools = applyToolCalls(toolCalls, { ...existingDocs, ...written, ...patched.documents });
+  return {
+    replyText,
+    coverage,
+    choices,
+    documents: { ...written, ...patched.documents, ...tools.documents },
+    rewritten: [...new Set([...Object.keys(written), ...tools.rewritten])],
+    conflicts: [...patched.conflicts, ...tools.conflicts],
+    failures: [...patched.failures, ...tools.failures],
+    imagePrompts: [...parseImageMarkers(fullText), ...tools.imagePrompts],
+  };
+}
+
+// Reply text without the coverage and choices blocks, for partial responses
+function stripReplyBlocks(text: string): string {
+  return parseChoicesBlock(parseCoverageBlock(text).cleanText).cleanText;
+}
+
 // DOC_ACTIONS is just the shared definitions — prompt building uses customInstructions at call site
 
 
 export interface ChatPanelHandle {
   prefillInput: (text: string) => void;
+  // Generates one document (in full unless mode is "patch"); resolves with the documents the response wrote
+  generateDocument: (doc: DocDefinition, mode?: DocPromptMode) => Promise<string[]>;
+  stop: () => void;
 }
 
 interface ChatPanelProps {
+  // The active branch, root first
   messages: ChatMessage[];
+  // Messages on the branch that have edited alternatives
+  branches?: Record<string, BranchPoint>;
   instructionKey: string;
   isStreaming: boolean;
   existingDocs: Record<string, string>;
+  // Documents as they were before a message was sent, when known
+  documentsBefore?: (messageId: string) => Record<string, string> | undefined;
   customInstructions?: Record<string, string>;
+  // Built-in and custom document types, in toolbar order
+  docDefinitions?: DocDefinition[];
   verifyReport?: string | null;
-  onMessagesUpdate: (messages: ChatMessage[]) => void;
-  onDocumentsUpdate: (docs: Record<string, string>) => void;
+  contextSummary?: ContextSummary;
+  modelRouting?: ModelRouting;
+  // `fork` keeps the messages the new path drops as a separate branch
+  onMessagesUpdate: (messages: ChatMessage[], options?: { fork?: boolean }) => void;
+  onSwitchBranch?: (messageId: string) => void;
+  onContextSummaryUpdate: (summary: ContextSummary) => void;
+  // Only documents in `rewritten` (all when unset) count as written from the current upstream
+  onDocumentsUpdate: (docs: Record<string, string>, options?: { rewritten?: string[] }) => void;
+  // Streaming progress of a document; null once it is saved or dropped
+  onLiveDoc?: (docType: string, doc: LiveDoc | null) => void;
+  onPatchConflicts?: (conflicts: PatchConflict[]) => void;
+  // Alternative generations of one document, to be picked from in the preview
+  onCandidates?: (set: CandidateSet) => void;
+  // Starts the full-suite pipeline
+  onStartPipeline?: () => void;
+  // Slash-command actions that live outside the chat; generate and guided are the toolbar's
+  commandActions: Omit<CommandActions, "generate" | "guided">;
+  attachments: Attachment[];
+  onAttachmentsChange: (attachments: Attachment[]) => void;
   onStreamingChange: (streaming: boolean) => void;
+  onUsage?: (entry: UsageEntry) => void;
+  projectFacts?: ProjectFact[];
+  // Topics a guided reply reported, with the user message that answered them
+  onGuidedAnswers?: (coverage: TopicCoverage[], sourceMessageId: string) => void;
+}
+
+interface SendOptions {
+  // History to send instead of the current messages (used when retrying an earlier turn)
+  baseMessages?: ChatMessage[];
+  // Documents the route must include in full rather than as retrieved excerpts
+  focusDocs?: string[];
+  // Opt into the server response cache (document generation only)
+  cache?: boolean;
+  bypassCache?: boolean;
+  // Selects the model route; free-form chat leaves it unset
+  task?: TaskType;
+  // Start a new branch at baseMessages instead of replacing what follows them
+  fork?: boolean;
+  // Documents the reply builds on instead of the current ones (a fork starts from the fork point)
+  documents?: Record<string, string>;
 }
 
 // Pending image requests during/after streaming
@@ -124,14 +243,31 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(
   function ChatPanel(
     {
       messages,
+      branches = {},
       instructionKey,
       isStreaming,
       existingDocs,
+      documentsBefore,
       customInstructions,
+      docDefinitions = DEFAULT_DOC_DEFINITIONS,
       verifyReport,
+      contextSummary,
+      modelRouting,
       onMessagesUpdate,
+      onSwitchBranch,
+      onContextSummaryUpdate,
       onDocumentsUpdate,
+      onLiveDoc,
+      onPatchConflicts,
+      onCandidates,
+      onStartPipeline,
+      commandActions,
+      attachments,
+      onAttachmentsChange,
       onStreamingChange,
+      onUsage,
+      projectFacts = [],
+      onGuidedAnswers,
     },
     ref
   ) {
@@ -141,33 +277,45 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(
     const [pendingImages, setPendingImages] = useState<PendingImage[]>([]);
     const [guidedSession, setGuidedSession] = useState<GuidedSession | null>(null);
     const [openDropdown, setOpenDropdown] = useState<string | null>(null);
+    const [contextUsage, setContextUsage] = useState<ContextUsage | null>(null);
+    const [contextListOpen, setContextListOpen] = useState(false);
+    const [cacheDocs, setCacheDocs] = useState(false);
+    const [candidateCount, setCandidateCount] = useState<number>(1);
+    const [candidateProgress, setCandidateProgress] = useState<{ done: number; total: number } | null>(null);
+    const [inputNotice, setInputNotice] = useState<{ text: string; error: boolean } | null>(null);
+    const [completionIndex, setCompletionIndex] = useState(0);
+    const [completionClosed, setCompletionClosed] = useState(false);
+    const [attachmentsOpen, setAttachmentsOpen] = useState(false);
+    const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
     const bottomRef = useRef<HTMLDivElement>(null);
+    const contextAttachments = attachments.filter((a) => a.inContext);
     const textareaRef = useRef<HTMLTextAreaElement>(null);
     const abortRef = useRef<AbortController | null>(null);
 
     void instructionKey;
 
-    // Parse coverage from AI messages: "✅ X/Y topics covered"
+    // Topic coverage from the last reply's coverage block — or, for replies
+    // without one, from a "✅ X/Y topics covered" line
     useEffect(() => {
       if (!guidedSession) return;
       const lastAssistant = [...messages].reverse().find((m) => m.role === "assistant");
       if (!lastAssistant) return;
+      if (lastAssistant.coverage) {
+        const reported = lastAssistant.coverage;
+        setGuidedSession((prev) =>
+          prev ? { ...prev, topics: mergeCoverage(prev.topics.map((t) => t.topic), reported), reportedCount: undefined } : null
+        );
+        return;
+      }
       const match = lastAssistant.content.match(/✅\s*(\d+)\/(\d+)\s*topics? covered/i);
       if (match) {
         const answered = parseInt(match[1], 10);
-        setGuidedSession((prev) => prev ? { ...prev, answeredCount: answered } : null);
+        setGuidedSession((prev) => prev ? { ...prev, reportedCount: answered } : null);
       }
     // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [messages]);
 
-    useImperativeHandle(ref, () => ({
-      prefillInput: (text: string) => {
-        setInput(text);
-        textareaRef.current?.focus();
-        adjustTextareaHeight();
-      },
-    }));
-
     useEffect(() => {
       bottomRef.current?.scrollIntoView({ behavior: "smooth" });
     }, [messages, streamingContent, pendingImages]);
@@ -187,7 +335,7 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(
         const assistantMsg: ChatMessage = {
           id: crypto.randomUUID(),
           role: "assistant",
-          content: cleanText || streamingContent,
+          content: stripReplyBlocks(cleanText) || streamingContent,
           timestamp: Date.now(),
         };
         onMessagesUpdate([...messages, assistantMsg]);
@@ -201,7 +349,7 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(
         const res = await fetch("/api/generate-image", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ prompt }),
+          body: JSON.stringify({ prompt, routing: modelRouting }),
         });
         const data = await res.json();
         if (data.imageData) {
@@ -211,22 +359,25 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(
       } catch {
         return { prompt, status: "error" };
       }
-    }, []);
+    }, [modelRouting]);
 
     const sendMessage = useCallback(
-      async (messageText: string) => {
+      async (messageText: string, options: SendOptions = {}) => {
+        const { baseMessages = messages, focusDocs, cache, bypassCache, task, fork, documents: startDocs = existingDocs } = options;
         const trimmed = messageText.trim();
-        if (!trimmed || isStreaming) return;
+        if (!trimmed || isStreaming) return [];
 
         const userMsg: ChatMessage = {
           id: crypto.randomUUID(),
           role: "user",
           content: trimmed,
           timestamp: Date.now(),
+          ...(task && { task }),
+          ...(contextAttachments.length > 0 && { attachmentNames: contextAttachments.map((a) => a.name) }),
         };
 
-        const newMessages = [...messages, userMsg];
-        onMessagesUpdate(newMessages);
+        const newMessages = [...baseMessages, userMsg];
+        onMessagesUpdate(newMessages, { fork });
         setInput("");
         setStreamingContent("");
         setPendingImages([]);
@@ -237,58 +388,125 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(
         const controller = new AbortController();
         abortRef.current = controller;
 
+        // Documents streamed by this response; a block that never ended was cut off
+        const streamedDocs: Record<string, string> = {};
+        const endedDocs = new Set<string>();
+        // Finished documents leave the live preview; cut-off ones wait for keep or discard
+        const settleLiveDocs = () => {
+          for (const docType of Object.keys(streamedDocs)) {
+            onLiveDoc?.(docType, endedDocs.has(docType) ? null : { content: streamedDocs[docType], status: "stopped" });
+          }
+        };
+
         try {
           const response = await fetch("/api/chat", {
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({
               message: trimmed,
-              history: messages.map((m) => ({ role: m.role, content: m.content })),
-              existingDocs,
+              history: baseMessages.map((m) => ({ id: m.id, role: m.role, content: m.content })),
+              existingDocs: startDocs,
               verifyReport: verifyReport || undefined,
+              contextSummary: contextSummary ?? null,
+              focusDocs,
+              cache,
+              bypassCache,
+              task,
+              routing: modelRouting,
+              attachments: contextAttachments.map(toPayload),
+              projectFacts: projectFacts.map(toFactPayload),
+              customDocTypes: toDocTypePayload(docDefinitions, customInstructions),
             }),
             signal: controller.signal,
           });
 
-          if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+          if (!response.ok) {
+            const body = await response.json().catch(() => null);
+            throw new Error(body?.error ?? `HTTP error! status: ${response.status}`);
+          }
 
-          const reader = response.body?.getReader();
-          const decoder = new TextDecoder();
+          const cached = response.headers.get("X-Cache") === "HIT";
           let fullText = "";
+          let streamError: StreamError | undefined;
+          // One record per model call — compaction is billed separately from the reply
+          const usages: UsageRecord[] = [];
+          const toolCalls: ToolCall[] = [];
 
-          if (reader) {
-            while (true) {
-              const { done, value } = await reader.read();
-              if (done) break;
-              const chunk = decoder.decode(value, { stream: true });
-              for (const line of chunk.split("\n")) {
-                if (line.startsWith("data: ")) {
-                  const data = line.slice(6);
-                  if (data === "[DONE]") break;
-                  try {
-                    const parsed = JSON.parse(data);
-                    if (parsed.text) {
-                      fullText += parsed.text;
-                      setStreamingContent(fullText);
-                    }
-                  } catch { /* ignore */ }
-                }
+          if (response.body) {
+            for await (const event of readEvents(response.body)) {
+              switch (event.type) {
+                case "text":
+                  fullText += event.text;
+                  setStreamingContent(fullText);
+                  break;
+                case "doc_start":
+                  streamedDocs[event.docType] = "";
+                  endedDocs.delete(event.docType);
+                  onLiveDoc?.(event.docType, { content: "", status: "generating" });
+                  break;
+                case "doc_delta":
+                  streamedDocs[event.docType] = (streamedDocs[event.docType] ?? "") + event.text;
+                  onLiveDoc?.(event.docType, { content: streamedDocs[event.docType], status: "generating" });
+                  break;
+                case "doc_end":
+                  streamedDocs[event.docType] = streamedDocs[event.docType]?.trim() ?? "";
+                  endedDocs.add(event.docType);
+                  break;
+                case "tool":
+                  toolCalls.push(event.call);
+                  break;
+                case "error":
+                  streamError = event.error;
+                  break;
+                case "context":
+                  setContextUsage(event.context);
+                  break;
+                case "compaction":
+                  onContextSummaryUpdate(event.summary);
+                  break;
+                case "usage":
+                  usages.push(event.usage);
+                  break;
               }
             }
           }
 
-          // Parse documents and image markers from full response
-          const { cleanText, documents } = parseDocumentBlocks(fullText);
-          const imagePrompts = parseImageMarkers(fullText);
+          const usage = mergeUsage(usages);
+          const { replyText, coverage, choices, documents, rewritten, conflicts, failures, imagePrompts } = resolveResponse(
+            fullText,
+            streamedDocs,
+            endedDocs,
+            toolCalls,
+            startDocs
+          );
+          const toolNotes = [
+            ...Object.keys(documents).map((docType) => `📄 _${docType} ${docType in startDocs ? "updated" : "written"}._`),
+            ...failures.map((f) => `⚠️ _Could not apply ${f}._`),
+            ...conflicts.map((c) => `⚠️ _${c.docType}: could not ${describePatchOp(c.op)} (${c.reason}) — resolve it in the document preview._`),
+          ].join("\n");
 
           const assistantMsg: ChatMessage = {
             id: crypto.randomUUID(),
             role: "assistant",
-            content: cleanText || fullText,
+            content: [replyText, toolNotes].filter(Boolean).join("\n\n") || fullText,
             timestamp: Date.now(),
+            ...(streamError && { error: streamError }),
+            ...(cached && { cached }),
+            ...(usage && { usage }),
+            ...(coverage && { coverage }),
+            ...(choices && { choices }),
           };
           onMessagesUpdate([...newMessages, assistantMsg]);
-          if (Object.keys(documents).length > 0) onDocumentsUpdate(documents);
+          if (coverage) onGuidedAnswers?.(coverage, userMsg.id);
+          // Cache hits replay the original usage but cost nothing
+          if (!cached) {
+            for (const record of usages) {
+              onUsage?.({ ...record, id: crypto.randomUUID(), timestamp: Date.now(), source: "chat", messageId: assistantMsg.id });
+            }
+          }
+          if (Object.keys(documents).length > 0) onDocumentsUpdate(documents, { rewritten });
+          if (conflicts.length > 0) onPatchConflicts?.(conflicts);
+          settleLiveDocs();
 
           // Kick off image generation for each marker
           if (imagePrompts.length > 0) {
@@ -299,66 +517,404 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(
             const results = await Promise.all(imagePrompts.map(generateImage));
             setPendingImages(results);
           }
+          return Object.keys(documents);
         } catch (err: unknown) {
+          // Documents that finished before a stop or failure are still saved
+          const finished = Object.fromEntries(
+            [...endedDocs].filter((docType) => streamedDocs[docType]).map((docType) => [docType, streamedDocs[docType]])
+          );
+          if (Object.keys(finished).length > 0) onDocumentsUpdate(finished);
+          settleLiveDocs();
           if (err instanceof Error && err.name !== "AbortError") {
             const errorMsg: ChatMessage = {
               id: crypto.randomUUID(),
               role: "assistant",
-              content: "⚠️ Connection error. Please check your API key and try again.",
+              content: "",
               timestamp: Date.now(),
+              error: {
+                kind: err instanceof TypeError ? "network" : "unknown",
+                message: err.message,
+                retryable: true,
+              },
             };
             onMessagesUpdate([...newMessages, errorMsg]);
           }
+          return Object.keys(finished);
         } finally {
           setStreamingContent("");
           onStreamingChange(false);
           abortRef.current = null;
         }
       },
-      [isStreaming, messages, existingDocs, onMessagesUpdate, onDocumentsUpdate, onStreamingChange, generateImage]
+      [isStreaming, messages, existingDocs, contextSummary, modelRouting, contextAttachments, projectFacts, docDefinitions, customInstructions, onMessagesUpdate, onContextSummaryUpdate, onDocumentsUpdate, onLiveDoc, onPatchConflicts, onStreamingChange, onUsage, onGuidedAnswers, generateImage]
     );
 
-    const handleSend = useCallback(() => sendMessage(input), [input, sendMessage]);
-    const handleDocAuto = useCallback(
-      (action: DocDefinition) => {
+    // Re-run a failed turn: drop it (and everything after) and resend the user message before it.
+    // A truncated last response is kept and the model is asked to continue instead.
+    const handleRetry = useCallback(
+      (failedId: string, options: Pick<SendOptions, "cache" | "bypassCache"> = {}) => {
+        const idx = messages.findIndex((m) => m.id === failedId);
+        const failed = messages[idx];
+        if (!failed) return;
+        const userIdx = messages.slice(0, idx).map((m) => m.role).lastIndexOf("user");
+        const task = messages[userIdx]?.task;
+        if (failed.error?.kind === "truncated" && idx === messages.length - 1) {
+          sendMessage("Your last response was cut off. Continue exactly where you left off, without repeating anything.", { task });
+          return;
+        }
+        if (userIdx === -1) return;
+        sendMessage(messages[userIdx].content, { ...options, task, baseMessages: messages.slice(0, userIdx) });
+      },
+      [messages, sendMessage]
+    );
+
+    // Editing an earlier message forks the conversation there; the original
+    // turn and everything after it stay reachable through the branch switcher
+    const handleEdit = useCallback(
+      (messageId: string, text: string) => {
+        const idx = messages.findIndex((m) => m.id === messageId);
+        if (idx === -1 || !text.trim() || text.trim() === messages[idx].content) return;
+        sendMessage(text, {
+          baseMessages: messages.slice(0, idx),
+          task: messages[idx].task,
+          fork: true,
+          documents: documentsBefore?.(messageId),
+        });
+      },
+      [messages, sendMessage, documentsBefore]
+    );
+
+    // Runs the same document prompt `count` times in parallel; the results go
+    // to the candidate picker instead of the session documents
+    const generateCandidates = useCallback(
+      async (action: DocDefinition, count: number) => {
+        if (isStreaming) return;
+        const instruction = getEffectiveInstruction(action, customInstructions);
+        // Every candidate is a complete document
+        const prompt = buildDocPromptLocal(action.label, action.docKey, instruction, existingDocs, "regenerate");
+        const userMsg: ChatMessage = {
+          id: crypto.randomUUID(),
+          role: "user",
+          content: prompt,
+          timestamp: Date.now(),
+          task: "document",
+          ...(contextAttachments.length > 0 && { attachmentNames: contextAttachments.map((a) => a.name) }),
+        };
+        const newMessages = [...messages, userMsg];
+        onMessagesUpdate(newMessages);
+        setPendingImages([]);
+        setCandidateProgress({ done: 0, total: count });
+        onStreamingChange(true);
+
+        const controller = new AbortController();
+        abortRef.current = controller;
+
+        const generateOne = async (): Promise<DocCandidate> => {
+          const candidate: DocCandidate = { id: crypto.randomUUID(), content: "" };
+          try {
+            const response = await fetch("/api/chat", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({
+                message: prompt,
+                history: messages.map((m) => ({ id: m.id, role: m.role, content: m.content })),
+                existingDocs,
+                verifyReport: verifyReport || undefined,
+                contextSummary: contextSummary ?? null,
+                focusDocs: action.docKey in existingDocs ? [action.docKey] : undefined,
+                task: "document",
+                routing: modelRouting,
+                attachments: contextAttachments.map(toPayload),
+                projectFacts: projectFacts.map(toFactPayload),
+                customDocTypes: toDocTypePayload(docDefinitions, customInstructions),
+              }),
+              signal: controller.signal,
+            });
+            if (!response.ok) {
+              const body = await response.json().catch(() => null);
+              throw new Error(body?.error ?? `HTTP error! status: ${response.status}`);
+            }
+
+            let fullText = "";
+            let streamError: StreamError | undefined;
+            const streamedDocs: Record<string, string> = {};
+            const endedDocs = new Set<string>();
+            const toolCalls: ToolCall[] = [];
+            if (response.body) {
+              for await (const event of readEvents(response.body)) {
+                switch (event.type) {
+                  case "text":
+                    fullText += event.text;
+                    break;
+                  case "doc_start":
+                    streamedDocs[event.docType] = "";
+                    break;
+                  case "doc_delta":
+                    streamedDocs[event.docType] = (streamedDocs[event.docType] ?? "") + event.text;
+                    break;
+                  case "doc_end":
+                    streamedDocs[event.docType] = streamedDocs[event.docType]?.trim() ?? "";
+                    endedDocs.add(event.docType);
+                    break;
+                  case "tool":
+                    toolCalls.push(event.call);
+                    break;
+                  case "error":
+                    streamError = event.error;
+                    break;
+                  case "context":
+                    setContextUsage(event.context);
+                    break;
+                  case "compaction":
+                    onContextSummaryUpdate(event.summary);
+                    break;
+                  case "usage":
+                    candidate.usage = mergeUsage([...(candidate.usage ? [candidate.usage] : []), event.usage]);
+                    break;
+                }
+              }
+            }
+
+            const { documents, conflicts, failures } = resolveResponse(fullText, streamedDocs, endedDocs, toolCalls, existingDocs);
+            candidate.content = documents[action.docKey] ?? "";
+            const problems = [
+              ...(streamError ? [describeStreamError(streamError)] : []),
+              ...failures,
+              ...conflicts.map((c) => `could not ${describePatchOp(c.op)} (${c.reason})`),
+              ...(candidate.content ? [] : [`the response contained no ${action.label}`]),
+            ];
+            if (problems.length > 0) candidate.error = problems.join("; ");
+          } catch (err) {
+            candidate.error = err instanceof Error ? err.message : String(err);
+          }
+          setCandidateProgress((prev) => prev && { ...prev, done: prev.done + 1 });
+          return candidate;
+        };
+
+        try {
+          const candidates = await Promise.all(Array.from({ length: count }, generateOne));
+          if (controller.signal.aborted) return;
+
+          const generated = candidates.filter((c) => c.content).length;
+          const notes = candidates
+            .map((c, i) => (c.error ? `⚠️ _Candidate #${i + 1}: ${c.error}._` : ""))
+            .filter(Boolean);
+          const assistantMsg: ChatMessage = {
+            id: crypto.randomUUID(),
+            role: "assistant",
+            content: [
+              `🗂️ _${generated} of ${count} ${action.label} candidates generated${generated > 0 ? " — pick one or merge sections in the document preview" : ""}._`,
+              ...notes,
+            ].join("\n"),
+            timestamp: Date.now(),
+          };
+          onMessagesUpdate([...newMessages, assistantMsg]);
+          for (const { usage } of candidates) {
+            if (usage) onUsage?.({ ...usage, id: crypto.randomUUID(), timestamp: Date.now(), source: "chat", messageId: assistantMsg.id });
+          }
+          if (generated > 0) {
+            onCandidates?.({ id: crypto.randomUUID(), docType: action.docKey, candidates, createdAt: Date.now() });
+          }
+        } finally {
+          setCandidateProgress(null);
+          onStreamingChange(false);
+          abortRef.current = null;
+        }
+      },
+      [isStreaming, messages, existingDocs, customInstructions, verifyReport, contextSummary, modelRouting, contextAttachments, projectFacts, docDefinitions, onMessagesUpdate, onContextSummaryUpdate, onCandidates, onStreamingChange, onUsage]
+    );
+
+    // Explicit generation rewrites an existing document in full; "patch" only edits what changed
+    const generateDocument = useCallback(
+      (action: DocDefinition, mode: DocPromptMode = "regenerate") => {
         setGuidedSession(null);
         setOpenDropdown(null);
         const instruction = getEffectiveInstruction(action, customInstructions);
-        sendMessage(buildDocPromptLocal(action.label, action.docKey, instruction, existingDocs));
+        // When updating an existing doc the model needs all of it, not just excerpts
+        return sendMessage(buildDocPromptLocal(action.label, action.docKey, instruction, existingDocs, mode), {
+          focusDocs: action.docKey in existingDocs ? [action.docKey] : undefined,
+          cache: cacheDocs,
+          task: "document",
+        });
       },
-      [sendMessage, existingDocs, customInstructions]
+      [sendMessage, existingDocs, customInstructions, cacheDocs]
+    );
+
+    const handleDocAuto = useCallback(
+      (action: DocDefinition) => {
+        if (candidateCount > 1) {
+          setGuidedSession(null);
+          setOpenDropdown(null);
+          generateCandidates(action, candidateCount);
+          return;
+        }
+        generateDocument(action);
+      },
+      [generateDocument, generateCandidates, candidateCount]
     );
 
     const handleDocGuided = useCallback(
       (action: DocDefinition) => {
-        const topics = GUIDED_TOPICS[action.docKey] ?? [];
-        setGuidedSession({ docType: action.docKey, totalTopics: topics.length, answeredCount: 0 });
+        const topics = action.guidedTopics ?? [];
+        setGuidedSession({ docType: action.docKey, topics: topics.map((topic) => ({ topic, status: "pending" })) });
         setOpenDropdown(null);
-        sendMessage(buildGuidedPrompt(action.label, action.docKey, existingDocs));
+        sendMessage(buildGuidedPrompt(action.label, action.docKey, topics, existingDocs), { task: "guided" });
       },
       [sendMessage, existingDocs]
     );
 
     const handleGuidedGenerate = useCallback(() => {
       if (!guidedSession) return;
-      sendMessage(`I'm ready. Please generate the ${guidedSession.docType} document now based on all the information I've provided.`);
+      sendMessage(
+        `I'm ready. Please generate the ${guidedSession.docType} document now based on all the information I've provided.`,
+        { task: "document" }
+      );
       setGuidedSession(null);
     }, [sendMessage, guidedSession]);
 
+    const handleJumpToTopic = useCallback(
+      (topic: string) => {
+        sendMessage(`Let's talk about "${topic}" next.`, { task: "guided" });
+      },
+      [sendMessage]
+    );
+
+    // Interview turns go to the guided model; asking for the document hands over to the document model
+    const sendReply = useCallback(
+      (text: string) => {
+        if (guidedSession && GENERATE_REQUEST.test(text)) handleGuidedGenerate();
+        else sendMessage(text, { task: guidedSession ? "guided" : undefined });
+      },
+      [sendMessage, guidedSession, handleGuidedGenerate]
+    );
+
+    useImperativeHandle(ref, () => ({
+      prefillInput: (text: string) => {
+        setInput(text);
+        textareaRef.current?.focus();
+        adjustTextareaHeight();
+      },
+      generateDocument: (doc, mode) => generateDocument(doc, mode),
+      stop: () => handleStop(),
+    }));
+
+    // ── Attachments ──
+    const handleFiles = async (files: FileList | File[]) => {
+      const added: Attachment[] = [];
+      const errors: string[] = [];
+      for (const file of Array.from(files)) {
+        const result = await readAttachment(file).catch((err) => `${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+        if (typeof result === "string") errors.push(result);
+        else added.push(result);
+      }
+      if (added.length > 0) onAttachmentsChange([...attachments, ...added]);
+      setInputNotice(errors.length > 0 ? { text: errors.join(" · "), error: true } : null);
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+      e.preventDefault();
+      setIsDraggingFiles(false);
+      if (e.dataTransfer.files.length > 0) void handleFiles(e.dataTransfer.files);
+    };
+
+    // ── Slash commands ──
+    const commandContext: CommandContext = {
+      documents: existingDocs,
+      definitions: docDefinitions,
+      actions: { ...commandActions, generate: handleDocAuto, guided: handleDocGuided },
+      notify: (text) => setInputNotice({ text, error: false }),
+    };
+    const completion = completeCommand(input, commandContext);
+    const showCompletion = !completionClosed && !isStreaming && (completion.items.length > 0 || !!completion.hint);
+    const selectedCompletion = completion.items[Math.min(completionIndex, completion.items.length - 1)];
+
+    const runCommand = async (name: string, args: string[]) => {
+      const command = getCommand(name);
+      if (!command) {
+        setInputNotice({ text: `Unknown command /${name} — type / to list the commands`, error: true });
+        return;
+      }
+      try {
+        const error = await command.run(args, commandContext);
+        if (error) {
+          setInputNotice({ text: error, error: true });
+          return;
+        }
+        setInput("");
+        if (textareaRef.current) textareaRef.current.style.height = "auto";
+      } catch (err) {
+        setInputNotice({ text: err instanceof Error ? err.message : String(err), error: true });
+      }
+    };
+
+    const handleSend = () => {
+      const command = parseCommand(input);
+      if (command) {
+        void runCommand(command.name, command.args);
+        return;
+      }
+      sendReply(input);
+    };
+
+    const acceptCompletion = (insert: string) => {
+      setInput(insert);
+      setCompletionIndex(0);
+      textareaRef.current?.focus();
+    };
+
     const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      if (showCompletion && completion.items.length > 0) {
+        if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+          e.preventDefault();
+          const step = e.key === "ArrowDown" ? 1 : -1;
+          setCompletionIndex((i) => (i + step + completion.items.length) % completion.items.length);
+          return;
+        }
+        // Enter completes a partial entry and runs a complete one
+        if (e.key === "Tab" || (e.key === "Enter" && !e.shiftKey && selectedCompletion.insert.trim() !== input.trim())) {
+          e.preventDefault();
+          acceptCompletion(selectedCompletion.insert);
+          return;
+        }
+      }
+      if (e.key === "Escape" && showCompletion) {
+        setCompletionClosed(true);
+        return;
+      }
       if (e.key === "Enter" && !e.shiftKey) { e.preventDefault(); handleSend(); }
     };
 
     const docCount = Object.keys(existingDocs).length;
 
     return (
-      <div className="flex flex-col h-full">
+      <div
+        className="flex flex-col h-full relative"
+        onDragOver={(e) => {
+          if (!e.dataTransfer.types.includes("Files")) return;
+          e.preventDefault();
+          setIsDraggingFiles(true);
+        }}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFiles(false);
+        }}
+        onDrop={handleDrop}
+      >
+        {/* Drop overlay */}
+        {isDraggingFiles && (
+          <div className="absolute inset-2 z-50 flex flex-col items-center justify-center gap-2 rounded-xl border-2 border-dashed border-cyan-500/40 bg-background/80 backdrop-blur-sm pointer-events-none">
+            <Paperclip className="w-6 h-6 text-cyan-400" />
+            <span className="text-sm font-mono text-cyan-400">Drop files to attach them</span>
+            <span className="text-[10px] font-mono text-muted-foreground">Markdown, text, JSON, YAML, CSV or images</span>
+          </div>
+        )}
+
         {/* Guided Progress Bar */}
         {guidedSession && (
           <GuidedProgress
             session={guidedSession}
             onGenerateNow={handleGuidedGenerate}
             onCancel={() => setGuidedSession(null)}
+            onJumpToTopic={isStreaming ? undefined : handleJumpToTopic}
           />
         )}
 
@@ -385,18 +941,41 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(
             )}
           </AnimatePresence>
 
-          {messages.map((msg) => (
-            <MessageBubble key={msg.id} role={msg.role} content={msg.content} />
+          {messages.map((msg, i) => (
+            <MessageBubble
+              key={msg.id}
+              role={msg.role}
+              content={msg.content}
+              error={msg.error}
+              canContinue={i === messages.length - 1}
+              onRetry={isStreaming ? undefined : () => handleRetry(msg.id)}
+              cached={msg.cached}
+              usage={msg.usage}
+              onRegenerateFresh={isStreaming ? undefined : () => handleRetry(msg.id, { cache: true, bypassCache: true })}
+              onEdit={msg.role === "user" && !isStreaming ? (text) => handleEdit(msg.id, text) : undefined}
+              branch={branches[msg.id]}
+              onSwitchBranch={isStreaming || !onSwitchBranch ? undefined : onSwitchBranch}
+              attachmentNames={msg.attachmentNames}
+              choices={msg.choices}
+              onQuickReply={i === messages.length - 1 && !isStreaming ? sendReply : undefined}
+            />
           ))}
 
           {isStreaming && streamingContent && (
             <MessageBubble
               role="assistant"
-              content={parseDocumentBlocks(streamingContent).cleanText || streamingContent}
+              content={stripReplyBlocks(parseDocumentBlocks(streamingContent).cleanText) || streamingContent}
+              isStreaming
+            />
+          )}
+          {isStreaming && candidateProgress && (
+            <MessageBubble
+              role="assistant"
+              content={`Generating ${candidateProgress.total} candidates… ${candidateProgress.done}/${candidateProgress.total} done`}
               isStreaming
             />
           )}
-          {isStreaming && !streamingContent && <TypingIndicator />}
+          {isStreaming && !streamingContent && !candidateProgress && <TypingIndicator />}
 
           {/* Pending image generation results */}
           {pendingImages.map((pi, i) =>
@@ -444,15 +1023,17 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(
                 transition={{ duration: 0.15 }}
               >
                 <div className="px-4 pb-3 flex flex-wrap gap-2">
-                  {DEFAULT_DOC_DEFINITIONS.map((action) => {
+                  {docDefinitions.map((action) => {
                     const isCreated = action.docKey in existingDocs;
-                    const hasGuided = action.docKey in GUIDED_TOPICS;
+                    const hasGuided = (action.guidedTopics?.length ?? 0) > 0;
+                    // Existing documents can also be patched instead of rewritten
+                    const hasMenu = hasGuided || isCreated;
                     const isDropdownOpen = openDropdown === action.label;
                     return (
                       <div key={action.label} className="relative">
                         <motion.button
                           onClick={() => {
-                            if (hasGuided) {
+                            if (hasMenu) {
                               setOpenDropdown(isDropdownOpen ? null : action.label);
                             } else {
                               handleDocAuto(action);
@@ -471,10 +1052,10 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(
                           <Plus className="w-3 h-3" />
                           {action.label}
                           {isCreated && <span className="text-[8px] opacity-70">✓</span>}
-                          {hasGuided && <ChevronDown className={cn("w-3 h-3 opacity-50 transition-transform duration-200", isDropdownOpen && "rotate-180 opacity-100")} />}
+                          {hasMenu && <ChevronDown className={cn("w-3 h-3 opacity-50 transition-transform duration-200", isDropdownOpen && "rotate-180 opacity-100")} />}
                         </motion.button>
 
-                        {/* Auto / Guided dropdown — opens UPWARD */}
+                        {/* Auto / Update / Guided dropdown — opens UPWARD */}
                         {isDropdownOpen && (
                           <>
                             <div className="fixed inset-0 z-30" onClick={() => setOpenDropdown(null)} />
@@ -493,29 +1074,95 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(
                                   <Zap className="w-3 h-3 text-amber-400" />
                                 </div>
                                 <div className="text-left">
-                                  <div className="font-semibold">Auto</div>
-                                  <div className="text-[9px] text-muted-foreground">AI decides everything</div>
-                                </div>
-                              </button>
-                              <div className="border-t border-white/[0.06] mx-2" />
-                              <button
-                                onClick={() => handleDocGuided(action)}
-                                className="w-full flex items-center gap-2.5 px-3.5 py-2.5 text-xs font-mono text-foreground hover:bg-white/[0.06] transition-colors group"
-                              >
-                                <div className="w-6 h-6 rounded-md bg-cyan-400/10 border border-cyan-400/20 flex items-center justify-center flex-shrink-0 group-hover:bg-cyan-400/20 transition-colors">
-                                  <MessageSquare className="w-3 h-3 text-cyan-400" />
-                                </div>
-                                <div className="text-left">
-                                  <div className="font-semibold">Guided</div>
-                                  <div className="text-[9px] text-muted-foreground">You answer, AI writes</div>
+                                  <div className="font-semibold">{isCreated ? "Regenerate" : "Auto"}</div>
+                                  <div className="text-[9px] text-muted-foreground">{isCreated ? "Rewrite it in full" : "AI decides everything"}</div>
                                 </div>
                               </button>
+                              {isCreated && (
+                                <>
+                                  <div className="border-t border-white/[0.06] mx-2" />
+                                  <button
+                                    onClick={() => generateDocument(action, "patch")}
+                                    className="w-full flex items-center gap-2.5 px-3.5 py-2.5 text-xs font-mono text-foreground hover:bg-white/[0.06] transition-colors group"
+                                  >
+                                    <div className="w-6 h-6 rounded-md bg-violet-400/10 border border-violet-400/20 flex items-center justify-center flex-shrink-0 group-hover:bg-violet-400/20 transition-colors">
+                                      <PenLine className="w-3 h-3 text-violet-400" />
+                                    </div>
+                                    <div className="text-left">
+                                      <div className="font-semibold">Update</div>
+                                      <div className="text-[9px] text-muted-foreground">Patch only what changed</div>
+                                    </div>
+                                  </button>
+                                </>
+                              )}
+                              {hasGuided && (
+                                <>
+                                  <div className="border-t border-white/[0.06] mx-2" />
+                                  <button
+                                    onClick={() => handleDocGuided(action)}
+                                    className="w-full flex items-center gap-2.5 px-3.5 py-2.5 text-xs font-mono text-foreground hover:bg-white/[0.06] transition-colors group"
+                                  >
+                                    <div className="w-6 h-6 rounded-md bg-cyan-400/10 border border-cyan-400/20 flex items-center justify-center flex-shrink-0 group-hover:bg-cyan-400/20 transition-colors">
+                                      <MessageSquare className="w-3 h-3 text-cyan-400" />
+                                    </div>
+                                    <div className="text-left">
+                                      <div className="font-semibold">Guided</div>
+                                      <div className="text-[9px] text-muted-foreground">You answer, AI writes</div>
+                                    </div>
+                                  </button>
+                                </>
+                              )}
                             </motion.div>
                           </>
                         )}
                       </div>
                     );
                   })}
+                  {onStartPipeline && (
+                    <motion.button
+                      onClick={onStartPipeline}
+                      disabled={isStreaming}
+                      whileHover={{ scale: 1.04 }}
+                      whileTap={{ scale: 0.96 }}
+                      className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-dashed border-cyan-500/30 text-cyan-400 text-[11px] font-mono font-medium hover:bg-cyan-500/10 transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed"
+                      title="Generate every missing document in dependency order"
+                    >
+                      <Workflow className="w-3 h-3" />
+                      Full suite
+                    </motion.button>
+                  )}
+                  <label
+                    className="flex items-center gap-1 ml-auto text-[10px] font-mono text-muted-foreground select-none"
+                    title="Generate several versions of the document and pick one, or merge their sections, before anything is saved"
+                  >
+                    <Layers className="w-3 h-3" />
+                    <select
+                      value={candidateCount}
+                      onChange={(e) => setCandidateCount(Number(e.target.value))}
+                      className="bg-transparent outline-none cursor-pointer hover:text-foreground"
+                    >
+                      {CANDIDATE_COUNTS.map((n) => (
+                        <option key={n} value={n}>
+                          {n === 1 ? "1 version" : `${n} candidates`}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label
+                    className={cn(
+                      "flex items-center gap-1.5 text-[10px] font-mono text-muted-foreground cursor-pointer select-none",
+                      candidateCount > 1 && "opacity-40 pointer-events-none"
+                    )}
+                    title="Replay an identical earlier generation from the server cache instead of calling the model"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={cacheDocs}
+                      onChange={(e) => setCacheDocs(e.target.checked)}
+                      className="accent-cyan-500"
+                    />
+                    Reuse cached
+                  </label>
                 </div>
               </motion.div>
             )}
@@ -523,7 +1170,59 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(
         </div>
 
         {/* Input */}
-        <div className="flex-shrink-0 p-4 border-t border-border">
+        <div className="flex-shrink-0 p-4 border-t border-border relative">
+          {/* Slash-command autocomplete — opens UPWARD */}
+          {showCompletion && (
+            <div
+              className="absolute left-4 right-4 bottom-full mb-2 z-40 rounded-xl border border-border shadow-2xl shadow-black/40 overflow-hidden text-xs font-mono"
+              style={{ background: "rgba(17, 17, 20, 0.95)", backdropFilter: "blur(16px)" }}
+            >
+              {completion.hint && (
+                <div className="px-3.5 py-2 text-[10px] text-muted-foreground border-b border-white/[0.06]">
+                  {completion.hint}
+                </div>
+              )}
+              <div className="max-h-56 overflow-y-auto">
+                {completion.items.map((item, i) => (
+                  <button
+                    key={item.insert}
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => acceptCompletion(item.insert)}
+                    className={cn(
+                      "w-full flex items-center gap-3 px-3.5 py-2 text-left transition-colors",
+                      item === selectedCompletion ? "bg-white/[0.06] text-foreground" : "text-muted-foreground hover:bg-white/[0.04]"
+                    )}
+                  >
+                    <span className="text-cyan-400">{item.label}</span>
+                    {item.detail && <span className="ml-auto truncate text-[10px] text-muted-foreground">{item.detail}</span>}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          <AnimatePresence>
+            {attachmentsOpen && (
+              <AttachmentsDrawer
+                attachments={attachments}
+                onToggle={(id) =>
+                  onAttachmentsChange(attachments.map((a) => (a.id === id ? { ...a, inContext: !a.inContext } : a)))
+                }
+                onRemove={(id) => onAttachmentsChange(attachments.filter((a) => a.id !== id))}
+                onAdd={() => fileInputRef.current?.click()}
+              />
+            )}
+          </AnimatePresence>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={ACCEPTED_ATTACHMENTS}
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files) void handleFiles(e.target.files);
+              e.target.value = "";
+            }}
+          />
           <div
             className={cn(
               "flex items-end gap-2 glass rounded-xl p-2 transition-all duration-200",
@@ -533,13 +1232,27 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(
             <textarea
               ref={textareaRef}
               value={input}
-              onChange={(e) => { setInput(e.target.value); adjustTextareaHeight(); }}
+              onChange={(e) => {
+                setInput(e.target.value);
+                setCompletionIndex(0);
+                setCompletionClosed(false);
+                setInputNotice(null);
+                adjustTextareaHeight();
+              }}
               onKeyDown={handleKeyDown}
-              placeholder="Describe your project or ask for a document..."
+              placeholder="Describe your project or ask for a document... (/ for commands)"
               disabled={isStreaming}
               rows={1}
               className="flex-1 bg-transparent text-sm text-foreground placeholder:text-muted-foreground resize-none outline-none min-h-[36px] max-h-40 py-2 px-2 font-sans leading-relaxed disabled:opacity-50"
             />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isStreaming}
+              className="flex-shrink-0 w-9 h-9 rounded-lg flex items-center justify-center text-muted-foreground hover:text-foreground hover:bg-secondary transition-colors disabled:opacity-40"
+              title="Attach files — or drop them on the chat"
+            >
+              <Paperclip className="w-4 h-4" />
+            </button>
             {isStreaming ? (
               <motion.button
                 onClick={handleStop}
@@ -566,9 +1279,65 @@ export const ChatPanel = forwardRef<ChatPanelHandle, ChatPanelProps>(
               </motion.button>
             )}
           </div>
-          <p className="text-xs text-muted-foreground mt-2 text-center">
-            Press Enter to send · Shift+Enter for new line
-          </p>
+          {inputNotice && (
+            <div className={cn("mt-2 text-xs font-mono", inputNotice.error ? "text-amber-400" : "text-cyan-400")}>
+              {inputNotice.text}
+            </div>
+          )}
+          <div className="flex items-center justify-between gap-2 mt-2 text-xs text-muted-foreground">
+            <span>Press Enter to send · Shift+Enter for new line</span>
+            {attachments.length > 0 && (
+              <button
+                onClick={() => setAttachmentsOpen((v) => !v)}
+                className={cn(
+                  "flex items-center gap-1 font-mono text-[10px] tabular-nums hover:text-foreground transition-colors",
+                  attachmentsOpen && "text-foreground"
+                )}
+                title="Show the files attached to this session"
+              >
+                <Paperclip className="w-3 h-3" />
+                {attachments.length} ({contextAttachments.length} in context)
+              </button>
+            )}
+            {(contextUsage || contextSummary) && (
+              <button
+                onClick={() => setContextListOpen((v) => !v)}
+                className="font-mono text-[10px] tabular-nums hover:text-foreground transition-colors"
+                title={
+                  contextSummary
+                    ? `${contextSummary.compactedCount} older messages were compacted into a rolling summary`
+                    : "Estimated size of the last request"
+                }
+              >
+                {contextUsage && (
+                  <span className={cn(contextUsage.tokens > contextUsage.budget * 0.8 && "text-amber-400")}>
+                    ctx ~{formatTokens(contextUsage.tokens)}/{formatTokens(contextUsage.budget)}
+                  </span>
+                )}
+                {contextSummary && (
+                  <span className="text-violet-400/80">
+                    {contextUsage && " · "}compacted {contextSummary.compactedCount} msgs{" "}
+                    {new Date(contextSummary.compactedAt).toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit", hour12: false })}
+                  </span>
+                )}
+              </button>
+            )}
+          </div>
+          {contextListOpen && contextUsage?.included && (
+            <div className="mt-2 max-h-32 overflow-y-auto rounded-lg border border-border bg-secondary/30 px-3 py-2 text-[10px] font-mono text-muted-foreground space-y-0.5">
+              <div className="uppercase tracking-wider mb-1">Sections sent with the last request</div>
+              {contextUsage.included.length === 0 && <div>Outlines only — no section matched</div>}
+              {contextUsage.included.map((sec, i) => (
+                <div key={i} className="flex justify-between gap-2">
+                  <span className="truncate">
+                    <span className="text-cyan-400/80">{sec.docType}</span>
+                    {sec.heading ? ` › ${sec.heading}` : " (full)"}
+                  </span>
+                  <span className="tabular-nums">{formatTokens(sec.tokens)}</span>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       </div>
     );
@@ -0,0 +1,290 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, Plus, Trash2, Sparkles, Loader2, Replace, ChevronDown, ChevronRight, AlertCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { readEvents } from "@/lib/stream-events";
+import { describeStreamError, type StreamError } from "@/lib/llm/errors";
+import type { ModelRouting } from "@/lib/routing";
+import type { UsageRecord } from "@/lib/usage";
+import type { UsageEntry } from "@/lib/storage";
+import {
+  addDecisions,
+  createDecision,
+  formatAdrNumber,
+  supersedeDecision,
+  DECISION_STATUSES,
+  type DecisionFields,
+  type DecisionRecord,
+  type DecisionStatus,
+} from "@/lib/decisions";
+
+interface DecisionsPanelProps {
+  open: boolean;
+  decisions: DecisionRecord[];
+  documents: Record<string, string>;
+  modelRouting?: ModelRouting;
+  onClose: () => void;
+  onUpdate: (decisions: DecisionRecord[]) => void;
+  onUsage?: (entry: UsageEntry) => void;
+}
+
+const STATUS_STYLE: Record<DecisionStatus, string> = {
+  proposed: "bg-amber-500/10 border-amber-500/30 text-amber-400",
+  accepted: "bg-emerald-500/10 border-emerald-500/30 text-emerald-400",
+  superseded: "bg-secondary border-border text-muted-foreground line-through",
+  rejected: "bg-red-500/10 border-red-500/30 text-red-400",
+};
+
+const FIELD = "w-full bg-[#161b22] border border-border rounded-lg px-2.5 py-1.5 text-xs text-foreground outline-none focus:border-cyan-500/50";
+
+export function DecisionsPanel({ open, decisions, documents, modelRouting, onClose, onUpdate, onUsage }: DecisionsPanelProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [extracting, setExtracting] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<StreamError | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const docCount = Object.keys(documents).length;
+  const acceptedCount = decisions.filter((d) => d.status === "accepted").length;
+
+  const updateDecision = (id: string, patch: Partial<DecisionRecord>) => {
+    onUpdate(decisions.map((d) => (d.id === id ? { ...d, ...patch, updatedAt: Date.now() } : d)));
+  };
+
+  const addManual = () => {
+    const record = createDecision(decisions, { title: "New decision", context: "", decision: "", alternatives: [], status: "proposed" });
+    onUpdate([...decisions, record]);
+    setExpandedId(record.id);
+  };
+
+  const supersede = (id: string) => {
+    const { records, replacement } = supersedeDecision(decisions, id);
+    onUpdate(records);
+    if (replacement) setExpandedId(replacement.id);
+  };
+
+  // ── EXTRACT ──
+  const extract = async () => {
+    if (docCount === 0 || extracting) return;
+    setExtracting(true);
+    setNotice(null);
+    setError(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      const res = await fetch("/api/decisions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ documents, knownTitles: decisions.map((d) => d.title), routing: modelRouting }),
+        signal: controller.signal,
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+
+      let extracted: DecisionFields[] | undefined;
+      let streamError: StreamError | undefined;
+      let usage: UsageRecord | undefined;
+      if (res.body) {
+        for await (const event of readEvents(res.body)) {
+          if (event.type === "decisions") extracted = event.decisions;
+          if (event.type === "error") streamError = event.error;
+          if (event.type === "usage") usage = event.usage;
+        }
+      }
+      if (usage) onUsage?.({ ...usage, id: crypto.randomUUID(), timestamp: Date.now(), source: "decisions" });
+
+      if (streamError || !extracted) {
+        setError(streamError ?? { kind: "invalid_output", message: "The response contained no decisions.", retryable: true });
+        return;
+      }
+      const next = addDecisions(decisions, extracted);
+      const added = next.length - decisions.length;
+      onUpdate(next);
+      setNotice(added > 0 ? `${added} decision${added === 1 ? "" : "s"} added` : "No new decisions found");
+    } catch (err: unknown) {
+      if (!(err instanceof Error && err.name === "AbortError")) {
+        setError({ kind: "network", message: err instanceof Error ? err.message : String(err), retryable: true });
+      }
+    } finally {
+      abortRef.current = null;
+      setExtracting(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-40"
+            onClick={onClose}
+          />
+          {/* Panel */}
+          <motion.div
+            initial={{ x: "100%" }}
+            animate={{ x: 0 }}
+            exit={{ x: "100%" }}
+            transition={{ type: "spring", damping: 25, stiffness: 300 }}
+            className="fixed right-0 top-0 bottom-0 w-full max-w-lg bg-[#0d1117] border-l border-border z-50 flex flex-col"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between px-6 py-4 border-b border-border">
+              <div>
+                <h2 className="font-mono font-bold text-foreground">Decision Log</h2>
+                <p className="text-xs text-muted-foreground mt-0.5">
+                  {acceptedCount} accepted · checked by the verifier, exported to docs/adr/
+                </p>
+              </div>
+              <button
+                onClick={onClose}
+                className="p-1.5 rounded-lg hover:bg-secondary text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+
+            {/* Actions */}
+            <div className="flex items-center gap-2 px-6 py-3 border-b border-border">
+              <button
+                onClick={extracting ? () => abortRef.current?.abort() : extract}
+                disabled={docCount === 0}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-cyan-500/10 border border-cyan-500/30 text-cyan-400 text-xs font-mono hover:bg-cyan-500/20 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                title={docCount === 0 ? "Generate a document first" : "Find the decisions the documents make"}
+              >
+                {extracting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Sparkles className="w-3.5 h-3.5" />}
+                {extracting ? "Extracting… (stop)" : "Extract from documents"}
+              </button>
+              <button
+                onClick={addManual}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-secondary border border-border text-muted-foreground text-xs font-mono hover:text-foreground transition-colors"
+              >
+                <Plus className="w-3.5 h-3.5" />
+                Add
+              </button>
+              {notice && <span className="ml-auto text-[10px] font-mono text-muted-foreground">{notice}</span>}
+            </div>
+            {error && (
+              <div className="flex items-start gap-2 px-6 py-2 border-b border-border text-xs font-mono text-amber-400">
+                <AlertCircle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+                <span>⚠️ {describeStreamError(error)}</span>
+              </div>
+            )}
+
+            {/* Records */}
+            <div className="flex-1 overflow-y-auto px-6 py-4 space-y-2">
+              {decisions.length === 0 && (
+                <p className="text-xs text-muted-foreground text-center py-8">
+                  No decisions recorded — extract them from the documents or add one.
+                </p>
+              )}
+              {[...decisions].reverse().map((record) => {
+                const expanded = expandedId === record.id;
+                return (
+                  <div key={record.id} className="rounded-xl border border-border bg-secondary/30">
+                    <button
+                      onClick={() => setExpandedId(expanded ? null : record.id)}
+                      className="w-full flex items-center gap-2 px-3 py-2 text-left"
+                    >
+                      {expanded ? (
+                        <ChevronDown className="w-3.5 h-3.5 text-muted-foreground flex-shrink-0" />
+                      ) : (
+                        <ChevronRight className="w-3.5 h-3.5 text-muted-foreground flex-shrink-0" />
+                      )}
+                      <span className="text-[10px] font-mono text-muted-foreground flex-shrink-0">{formatAdrNumber(record.number)}</span>
+                      <span className="flex-1 min-w-0 truncate text-xs font-mono text-foreground">{record.title}</span>
+                      <span className={cn("px-1.5 py-0.5 rounded border text-[10px] font-mono flex-shrink-0", STATUS_STYLE[record.status])}>
+                        {record.status}
+                      </span>
+                    </button>
+                    {expanded && (
+                      <div className="px-3 pb-3 space-y-2">
+                        <input
+                          value={record.title}
+                          onChange={(e) => updateDecision(record.id, { title: e.target.value })}
+                          className={cn(FIELD, "font-mono")}
+                        />
+                        <label className="block text-[10px] font-mono text-muted-foreground">
+                          Context
+                          <textarea
+                            value={record.context}
+                            onChange={(e) => updateDecision(record.id, { context: e.target.value })}
+                            rows={2}
+                            className={cn(FIELD, "mt-1 resize-y")}
+                          />
+                        </label>
+                        <label className="block text-[10px] font-mono text-muted-foreground">
+                          Decision
+                          <textarea
+                            value={record.decision}
+                            onChange={(e) => updateDecision(record.id, { decision: e.target.value })}
+                            rows={2}
+                            className={cn(FIELD, "mt-1 resize-y")}
+                          />
+                        </label>
+                        <label className="block text-[10px] font-mono text-muted-foreground">
+                          Alternatives (one per line)
+                          <textarea
+                            value={record.alternatives.join("\n")}
+                            onChange={(e) => updateDecision(record.id, { alternatives: e.target.value.split("\n") })}
+                            rows={2}
+                            className={cn(FIELD, "mt-1 resize-y")}
+                          />
+                        </label>
+                        <div className="flex items-center gap-2">
+                          <select
+                            value={record.status}
+                            onChange={(e) => updateDecision(record.id, { status: e.target.value as DecisionStatus })}
+                            className="bg-[#161b22] border border-border rounded-md px-2 py-1 text-xs font-mono text-foreground outline-none focus:border-cyan-500/50"
+                          >
+                            {DECISION_STATUSES.map((s) => (
+                              <option key={s} value={s}>
+                                {s}
+                              </option>
+                            ))}
+                          </select>
+                          <span className="text-[10px] font-mono text-muted-foreground truncate">
+                            {record.supersededBy
+                              ? `replaced by ${formatAdrNumber(record.supersededBy)}`
+                              : record.supersedes
+                                ? `replaces ${formatAdrNumber(record.supersedes)}`
+                                : record.sourceDoc
+                                  ? `from ${record.sourceDoc}`
+                                  : "added by hand"}
+                          </span>
+                          <div className="ml-auto flex items-center gap-1">
+                            {record.status === "accepted" && (
+                              <button
+                                onClick={() => supersede(record.id)}
+                                className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-secondary border border-border text-[10px] font-mono text-muted-foreground hover:text-foreground transition-colors"
+                                title="Record a new decision that replaces this one"
+                              >
+                                <Replace className="w-3 h-3" />
+                                Supersede
+                              </button>
+                            )}
+                            <button
+                              onClick={() => onUpdate(decisions.filter((d) => d.id !== record.id))}
+                              className="p-1 rounded-md text-muted-foreground hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                              title="Delete decision"
+                            >
+                              <Trash2 className="w-3.5 h-3.5" />
+                            </button>
+                          </div>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
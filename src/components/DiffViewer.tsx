@@ -2,21 +2,21 @@
 
 import { useState, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Clock, ChevronDown, Bot, Pencil, Wrench, ArrowRight } from "lucide-react";
+import { Clock, ChevronDown, Bot, Pencil, Wrench, ArrowRight, Wand2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import type { DocVersion } from "@/lib/storage";
 
 // ── Diff Algorithm ──
 // Simple LCS-based line diff — sufficient for markdown documents
 
-interface DiffLine {
+export interface DiffLine {
   type: "add" | "remove" | "same";
   content: string;
   oldLineNo?: number;
   newLineNo?: number;
 }
 
-function computeDiff(oldText: string, newText: string): DiffLine[] {
+export function computeDiff(oldText: string, newText: string): DiffLine[] {
   const oldLines = oldText.split("\n");
   const newLines = newText.split("\n");
 
@@ -68,12 +68,37 @@ function computeDiff(oldText: string, newText: string): DiffLine[] {
   return result.reverse();
 }
 
+// Pairs removed and added runs into rows, for rendering two texts next to each other
+function toSideBySide(diff: DiffLine[]): { left?: DiffLine; right?: DiffLine }[] {
+  const rows: { left?: DiffLine; right?: DiffLine }[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k], right: added[k] });
+    }
+    removed = [];
+    added = [];
+  };
+  for (const line of diff) {
+    if (line.type === "remove") removed.push(line);
+    else if (line.type === "add") added.push(line);
+    else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+  return rows;
+}
+
 // ── Source Badge ──
 function SourceBadge({ source }: { source: DocVersion["source"] }) {
   const config = {
     generated: { icon: Bot, label: "Generated", color: "text-cyan-400 bg-cyan-400/10 border-cyan-400/20" },
     edited: { icon: Pencil, label: "Edited", color: "text-violet-400 bg-violet-400/10 border-violet-400/20" },
     harmonized: { icon: Wrench, label: "Harmonized", color: "text-amber-400 bg-amber-400/10 border-amber-400/20" },
+    rewritten: { icon: Wand2, label: "Section rewrite", color: "text-emerald-400 bg-emerald-400/10 border-emerald-400/20" },
   }[source];
   const Icon = config.icon;
   return (
@@ -278,3 +303,54 @@ export function DiffViewer({ currentContent, versions, docType }: DiffViewerProp
     </div>
   );
 }
+
+// ── Side-by-side comparison ──
+// Same diff, two columns: lines only in the left text on the left, lines
+// only in the right text on the right, shared lines on both
+function SideCell({ line, side }: { line?: DiffLine; side: "left" | "right" }) {
+  const changed = line && line.type !== "same";
+  return (
+    <div
+      className={cn(
+        "flex min-w-0",
+        changed && side === "left" && "bg-red-500/8",
+        changed && side === "right" && "bg-emerald-500/8"
+      )}
+    >
+      <div className="flex-shrink-0 w-10 text-right pr-2 select-none border-r border-border/20 text-muted-foreground/40 leading-relaxed">
+        {(side === "left" ? line?.oldLineNo : line?.newLineNo) ?? ""}
+      </div>
+      <div
+        className={cn(
+          "flex-1 min-w-0 px-2 whitespace-pre-wrap break-all leading-relaxed",
+          !line && "bg-secondary/20",
+          changed && side === "left" && "text-red-300",
+          changed && side === "right" && "text-emerald-300",
+          line?.type === "same" && "text-foreground/60"
+        )}
+      >
+        {line?.content || "\u00A0"}
+      </div>
+    </div>
+  );
+}
+
+interface SideBySideDiffProps {
+  left: string;
+  right: string;
+}
+
+export function SideBySideDiff({ left, right }: SideBySideDiffProps) {
+  const rows = useMemo(() => toSideBySide(computeDiff(left, right)), [left, right]);
+
+  return (
+    <div className="font-mono text-xs leading-relaxed">
+      {rows.map((row, idx) => (
+        <div key={idx} className="grid grid-cols-2 border-b border-border/30 min-h-[1.5rem] divide-x divide-border/40">
+          <SideCell line={row.left} side="left" />
+          <SideCell line={row.right} side="right" />
+        </div>
+      ))}
+    </div>
+  );
+}
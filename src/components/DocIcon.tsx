@@ -0,0 +1,57 @@
+"use client";
+
+import {
+  ClipboardList,
+  Layers,
+  Package,
+  Network,
+  Code2,
+  Map,
+  Plug,
+  Palette,
+  CheckSquare,
+  Zap,
+  ShieldCheck,
+  Database,
+  FileText,
+  FlaskConical,
+  BookOpen,
+  DollarSign,
+  Megaphone,
+  Users,
+  Rocket,
+  Scale,
+  LifeBuoy,
+  Globe,
+} from "lucide-react";
+
+// Icons a document type can use, by the name stored in DocDefinition.icon
+export const DOC_ICONS: Record<string, React.ComponentType<{ className?: string }>> = {
+  ClipboardList,
+  Layers,
+  Package,
+  Network,
+  Code2,
+  Map,
+  Plug,
+  Palette,
+  CheckSquare,
+  Zap,
+  ShieldCheck,
+  Database,
+  FileText,
+  FlaskConical,
+  BookOpen,
+  DollarSign,
+  Megaphone,
+  Users,
+  Rocket,
+  Scale,
+  LifeBuoy,
+  Globe,
+};
+
+export function DocIcon({ name, className }: { name?: string; className?: string }) {
+  const Icon = (name && DOC_ICONS[name]) || FileText;
+  return <Icon className={className} />;
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useCallback, useRef, useMemo } from "react";
+import { useState, useCallback, useRef, useMemo, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
@@ -8,28 +8,83 @@ import rehypeHighlight from "rehype-highlight";
 import { Components } from "react-markdown";
 import { DocTabs, EmptyDocState } from "./DocTabs";
 import { ExportBar } from "./ExportBar";
-import { VerifierPanel, VerifierState } from "./VerifierPanel";
+import { VerifierPanel, VerifierState, type VerifierCommand } from "./VerifierPanel";
 import { DiffViewer } from "./DiffViewer";
-import { Edit3, Eye, MessageSquare, Save, X, ShieldCheck, Clock, Download, Maximize2 } from "lucide-react";
+import { PatchConflicts } from "./PatchConflicts";
+import { CandidatePicker } from "./CandidatePicker";
+import {
+  Edit3,
+  Eye,
+  MessageSquare,
+  Save,
+  X,
+  ShieldCheck,
+  Clock,
+  Download,
+  Maximize2,
+  Loader2,
+  Check,
+  Trash2,
+  RefreshCw,
+  ListPlus,
+  Minimize2,
+  AlertTriangle,
+  GitFork,
+} from "lucide-react";
 import { cn } from "@/lib/utils";
-import type { DocVersion } from "@/lib/storage";
+import type { DocVersion, UsageEntry } from "@/lib/storage";
+import type { ModelRouting } from "@/lib/routing";
+import { toDecisionPayload, type DecisionRecord } from "@/lib/decisions";
+import { toFactPayload, type ProjectFact } from "@/lib/facts";
+import type { LiveDoc } from "@/lib/doc-stream";
+import { findSection, parseHeadings, parseSections, spliceSection } from "@/lib/sections";
+import { SECTION_ACTIONS, cleanSectionResponse, sectionOutline, type SectionAction } from "@/lib/section-actions";
+import { readEvents } from "@/lib/stream-events";
+import { describeStreamError, type StreamError } from "@/lib/llm/errors";
+import type { UsageRecord } from "@/lib/usage";
+import type { PatchConflict } from "@/lib/patch";
+import type { CandidateSet } from "@/lib/candidates";
+import { DEFAULT_DOC_DEFINITIONS, toDocTypePayload, type DocDefinition } from "@/lib/doc-definitions";
+import { downstreamOf } from "@/lib/dependencies";
+
+// Views opened from outside the preview (the chat's slash commands)
+export type PreviewCommand = VerifierCommand | { id: string; action: "diff"; docType: string };
 
 interface DocPreviewProps {
   documents: Record<string, string>;
+  liveDocs: Record<string, LiveDoc>;
+  onKeepLiveDoc: (docType: string) => void;
+  onDiscardLiveDoc: (docType: string) => void;
+  patchConflicts: PatchConflict[];
+  onDismissConflict: (conflictId: string) => void;
+  candidateSets: CandidateSet[];
+  // Saves the picked content (null discards the candidates)
+  onResolveCandidates: (docType: string, content: string | null) => void;
   activeDoc: string | null;
   onSelectDoc: (docType: string) => void;
   sessionName: string;
   onDocumentEdit: (docType: string, newContent: string) => void;
   onAskAboutSection: (sectionTitle: string) => void;
   onDocumentsUpdate: (docs: Record<string, string>) => void;
-  onSnapshotVersions: (
-    docs: Record<string, string>,
-    source: "generated" | "edited" | "harmonized"
-  ) => void;
+  onSnapshotVersions: (docs: Record<string, string>, source: DocVersion["source"]) => void;
   onReportReady?: (report: string) => void;
+  onUsage?: (entry: UsageEntry) => void;
+  modelRouting?: ModelRouting;
   verifierState: VerifierState;
   onVerifierStateChange: (state: VerifierState) => void;
   documentHistory: DocVersion[];
+  // Out-of-date documents with the upstream docs that changed since they were written
+  staleDocs?: Record<string, string[]>;
+  // Regenerates a document's dependents, and the document itself with includeSelf
+  onRefreshDownstream?: (docType: string, includeSelf: boolean) => void;
+  // Decision log — accepted records are checked by the verifier, all are exported
+  decisions?: DecisionRecord[];
+  // Built-in and custom document types — tabs, dependencies, export and the verifier
+  docDefinitions?: DocDefinition[];
+  // Settled interview answers, kept by section rewrites
+  projectFacts?: ProjectFact[];
+  command?: PreviewCommand | null;
+  onCommandHandled?: () => void;
 }
 
 // Interactive checkbox state per doc (persisted in memory, reset on reload)
@@ -61,6 +116,13 @@ function useCheckboxState(docKey: string) {
 
 export function DocPreview({
   documents,
+  liveDocs,
+  onKeepLiveDoc,
+  onDiscardLiveDoc,
+  patchConflicts,
+  onDismissConflict,
+  candidateSets,
+  onResolveCandidates,
   activeDoc,
   onSelectDoc,
   sessionName,
@@ -69,20 +131,80 @@ export function DocPreview({
   onDocumentsUpdate,
   onSnapshotVersions,
   onReportReady,
+  onUsage,
+  modelRouting,
   verifierState,
   onVerifierStateChange,
   documentHistory,
+  staleDocs = {},
+  onRefreshDownstream,
+  decisions = [],
+  docDefinitions = DEFAULT_DOC_DEFINITIONS,
+  projectFacts = [],
+  command,
+  onCommandHandled,
 }: DocPreviewProps) {
   const [verifierActive, setVerifierActive] = useState(false);
   const [diffMode, setDiffMode] = useState(false);
   const [lightboxSrc, setLightboxSrc] = useState<string | null>(null);
   const docCount = Object.keys(documents).length;
   const hasDocuments = Object.keys(documents).length > 0;
-  const currentContent = activeDoc ? documents[activeDoc] : null;
+  const liveDoc = activeDoc ? liveDocs[activeDoc] : undefined;
+  const currentContent = liveDoc ? liveDoc.content : activeDoc ? documents[activeDoc] : null;
   const [isEditing, setIsEditing] = useState(false);
   const [editContent, setEditContent] = useState("");
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
   const { checked, toggle } = useCheckboxState(activeDoc ?? "");
+  // Section being rewritten, identified by its heading's offset in the document
+  const [rewriting, setRewriting] = useState<{ docType: string; start: number; action: SectionAction } | null>(null);
+  const [sectionError, setSectionError] = useState<string | null>(null);
+  const documentsRef = useRef(documents);
+  documentsRef.current = documents;
+
+  const candidateSet = activeDoc ? candidateSets.find((s) => s.docType === activeDoc) : undefined;
+
+  // Streaming documents and unpicked candidates get a tab before they are saved
+  const tabDocs = useMemo(
+    () => ({
+      ...Object.fromEntries(candidateSets.map((set) => [set.docType, ""])),
+      ...documents,
+      ...Object.fromEntries(Object.entries(liveDocs).map(([type, doc]) => [type, doc.content])),
+    }),
+    [documents, liveDocs, candidateSets]
+  );
+  const candidateCounts = useMemo(
+    () => Object.fromEntries(candidateSets.map((set) => [set.docType, set.candidates.filter((c) => c.content).length])),
+    [candidateSets]
+  );
+  const liveStatus = useMemo(
+    () => Object.fromEntries(Object.entries(liveDocs).map(([type, doc]) => [type, doc.status])),
+    [liveDocs]
+  );
+  const hasTabs = Object.keys(tabDocs).length > 0;
+  const liveSection = liveDoc ? parseHeadings(liveDoc.content).at(-1)?.title : undefined;
+
+  // Keep the section being written in view while the document streams
+  useEffect(() => {
+    if (liveDoc?.status !== "generating" || verifierActive) return;
+    const el = contentRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [liveDoc?.content, liveDoc?.status, verifierActive]);
+
+  // Verifier commands are run (and cleared) by the panel once it is open
+  useEffect(() => {
+    if (!command) return;
+    setIsEditing(false);
+    if (command.action === "diff") {
+      setVerifierActive(false);
+      setDiffMode(true);
+      onSelectDoc(command.docType);
+      onCommandHandled?.();
+    } else {
+      setVerifierActive(true);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [command?.id]);
 
   // When switching docs, exit edit mode
   const handleSelectDoc = (docType: string) => {
@@ -107,6 +229,13 @@ export function DocPreview({
   );
   const hasHistory = currentDocVersions.length > 0;
 
+  // Existing documents written from the active one
+  const activeDownstream = useMemo(
+    () => (activeDoc ? downstreamOf(activeDoc, docDefinitions).filter((d) => d in documents) : []),
+    [activeDoc, documents, docDefinitions]
+  );
+  const activeStale = activeDoc ? staleDocs[activeDoc] : undefined;
+
   const handleStartEdit = () => {
     setEditContent(currentContent ?? "");
     setIsEditing(true);
@@ -125,24 +254,119 @@ export function DocPreview({
     setEditContent("");
   };
 
+  const activeConflicts = useMemo(
+    () => patchConflicts.filter((c) => c.docType === activeDoc),
+    [patchConflicts, activeDoc]
+  );
+
+  const handleResolveConflict = useCallback(
+    (conflict: PatchConflict, newContent: string) => {
+      const content = documents[conflict.docType];
+      if (content !== undefined) onSnapshotVersions({ [conflict.docType]: content }, "edited");
+      onDocumentEdit(conflict.docType, newContent);
+      onDismissConflict(conflict.id);
+    },
+    [documents, onSnapshotVersions, onDocumentEdit, onDismissConflict]
+  );
+
+  // ── Section rewrite ──
+  // Only the section and the outline go to the model; the reply is spliced
+  // back so everything outside the section stays byte-identical
+  const handleSectionAction = useCallback(
+    async (action: SectionAction, title: string, offset: number | undefined) => {
+      if (!activeDoc || rewriting) return;
+      const docType = activeDoc;
+      const content = documents[docType];
+      if (!content) return;
+      const section = parseSections(content).find((s) => s.start === offset) ?? findSection(content, title);
+      if (!section) return;
+
+      setRewriting({ docType, start: section.start, action });
+      setSectionError(null);
+      try {
+        const res = await fetch("/api/section", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            docType,
+            action,
+            section: content.slice(section.start, section.end),
+            outline: sectionOutline(content, section),
+            routing: modelRouting,
+            projectFacts: projectFacts.map(toFactPayload),
+            decisions: toDecisionPayload(decisions),
+            customDocTypes: toDocTypePayload(docDefinitions),
+          }),
+        });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+
+        let text = "";
+        let streamError: StreamError | undefined;
+        let usage: UsageRecord | undefined;
+        if (res.body) {
+          for await (const event of readEvents(res.body)) {
+            if (event.type === "text") text += event.text;
+            if (event.type === "error") streamError = event.error;
+            if (event.type === "usage") usage = event.usage;
+          }
+        }
+        if (usage) onUsage?.({ ...usage, id: crypto.randomUUID(), timestamp: Date.now(), source: "section" });
+
+        if (streamError) throw new Error(describeStreamError(streamError));
+        const replacement = cleanSectionResponse(text);
+        if (!replacement) throw new Error("The model returned an empty section.");
+        // Splicing into a newer version would silently drop the edits made meanwhile
+        if (documentsRef.current[docType] !== content) {
+          throw new Error(`${docType} changed while the section was being rewritten — nothing was applied.`);
+        }
+
+        onSnapshotVersions({ [docType]: content }, "rewritten");
+        onDocumentEdit(docType, spliceSection(content, section, replacement));
+      } catch (err) {
+        setSectionError(err instanceof Error ? err.message : String(err));
+      } finally {
+        setRewriting(null);
+      }
+    },
+    [activeDoc, rewriting, documents, modelRouting, projectFacts, decisions, docDefinitions, onUsage, onSnapshotVersions, onDocumentEdit]
+  );
+
   // Custom markdown components for interactive rendering
   const isTaskList = activeDoc === "Task List";
   let checkboxCounter = 0;
 
+  const sectionActionProps = (title: string, offset: number | undefined) => ({
+    onAction: (action: SectionAction) => handleSectionAction(action, title, offset),
+    busyAction: rewriting && rewriting.docType === activeDoc && rewriting.start === offset ? rewriting.action : null,
+    actionsDisabled: !!rewriting || !!liveDoc,
+  });
+
   const markdownComponents: Components = {
     // Section headings with "Ask AI" hover button
-    h1: ({ children }) => (
-      <SectionHeading level={1} onAsk={() => onAskAboutSection(String(children))}>
+    h1: ({ children, node }) => (
+      <SectionHeading
+        level={1}
+        onAsk={() => onAskAboutSection(String(children))}
+        {...sectionActionProps(String(children), node?.position?.start.offset)}
+      >
         {children}
       </SectionHeading>
     ),
-    h2: ({ children }) => (
-      <SectionHeading level={2} onAsk={() => onAskAboutSection(String(children))}>
+    h2: ({ children, node }) => (
+      <SectionHeading
+        level={2}
+        onAsk={() => onAskAboutSection(String(children))}
+        {...sectionActionProps(String(children), node?.position?.start.offset)}
+      >
         {children}
       </SectionHeading>
     ),
-    h3: ({ children }) => (
-      <SectionHeading level={3} onAsk={() => onAskAboutSection(String(children))}>
+    h3: ({ children, node }) => (
+      <SectionHeading
+        level={3}
+        onAsk={() => onAskAboutSection(String(children))}
+        {...sectionActionProps(String(children), node?.position?.start.offset)}
+      >
         {children}
       </SectionHeading>
     ),
@@ -231,7 +455,7 @@ export function DocPreview({
             Document Preview
           </h2>
           <div className="flex items-center gap-2">
-            {hasDocuments && currentContent && (
+            {hasDocuments && currentContent && !liveDoc && (
               <>
                 {isEditing ? (
                   <>
@@ -277,9 +501,26 @@ export function DocPreview({
                     History
                   </motion.button>
                 )}
+                {activeDownstream.length > 0 && !isEditing && (
+                  <motion.button
+                    onClick={() => activeDoc && onRefreshDownstream?.(activeDoc, false)}
+                    disabled={!onRefreshDownstream}
+                    whileHover={{ scale: 1.05 }}
+                    className={cn(
+                      "flex items-center gap-1 px-2.5 py-1 rounded-md border text-xs font-mono transition-colors disabled:opacity-40 disabled:pointer-events-none",
+                      activeDownstream.some((d) => staleDocs[d])
+                        ? "bg-amber-500/10 border-amber-500/30 text-amber-400 hover:bg-amber-500/20"
+                        : "bg-secondary border-border text-muted-foreground hover:text-foreground hover:border-cyan-500/30"
+                    )}
+                    title={`Regenerate in order: ${activeDownstream.join(", ")}`}
+                  >
+                    <GitFork className="w-3 h-3" />
+                    Refresh downstream ({activeDownstream.length})
+                  </motion.button>
+                )}
               </>
             )}
-            {hasDocuments && <ExportBar documents={documents} sessionName={sessionName} />}
+            {hasDocuments && <ExportBar documents={documents} sessionName={sessionName} decisions={decisions} definitions={docDefinitions} />}
             {docCount >= 2 && (
               <motion.button
                 onClick={() => setVerifierActive(!verifierActive)}
@@ -304,15 +545,23 @@ export function DocPreview({
             )}
           </div>
         </div>
-        {hasDocuments && (
+        {hasTabs && (
           <div className="overflow-x-auto scrollbar-none">
-            <DocTabs documents={documents} activeDoc={verifierActive ? null : activeDoc} onSelect={handleSelectDoc} />
+            <DocTabs
+              documents={tabDocs}
+              activeDoc={verifierActive ? null : activeDoc}
+              onSelect={handleSelectDoc}
+              definitions={docDefinitions}
+              liveStatus={liveStatus}
+              candidateCounts={candidateCounts}
+              staleDocs={staleDocs}
+            />
           </div>
         )}
       </div>
 
       {/* Content */}
-      <div className="flex-1 overflow-y-auto">
+      <div ref={contentRef} className="flex-1 overflow-y-auto">
         {verifierActive ? (
           <VerifierPanel
             documents={documents}
@@ -322,6 +571,55 @@ export function DocPreview({
             onNavigateToDoc={handleVerifierNavigate}
             onSnapshotVersions={onSnapshotVersions}
             onReportReady={onReportReady}
+            onUsage={onUsage}
+            modelRouting={modelRouting}
+            decisions={decisions}
+            docDefinitions={docDefinitions}
+            command={command?.action === "diff" ? null : command}
+            onCommandHandled={onCommandHandled}
+          />
+        ) : liveDoc && activeDoc ? (
+          <div className="p-6">
+            {liveDoc.status === "generating" ? (
+              <div className="flex items-center gap-2 mb-4 px-3 py-2 rounded-lg bg-cyan-500/5 border border-cyan-500/20 text-xs font-mono text-cyan-400">
+                <Loader2 className="w-3 h-3 animate-spin flex-shrink-0" />
+                <span className="truncate">Generating {activeDoc}{liveSection && ` — ${liveSection}`}</span>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 mb-4 px-3 py-2 rounded-lg bg-amber-500/5 border border-amber-500/20 text-xs font-mono text-amber-400">
+                <span className="flex-1">
+                  Generation stopped — this {activeDoc} is incomplete.
+                  {activeDoc in documents && " Keeping it replaces the saved version."}
+                </span>
+                <button
+                  onClick={() => onKeepLiveDoc(activeDoc)}
+                  className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-cyan-500/10 border border-cyan-500/30 text-cyan-400 hover:bg-cyan-500/20 transition-colors"
+                >
+                  <Check className="w-3 h-3" />
+                  Keep partial
+                </button>
+                <button
+                  onClick={() => onDiscardLiveDoc(activeDoc)}
+                  className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-secondary border border-border text-muted-foreground hover:text-foreground transition-colors"
+                >
+                  <Trash2 className="w-3 h-3" />
+                  Discard
+                </button>
+              </div>
+            )}
+            <div className="markdown-content">
+              <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeHighlight]} components={markdownComponents}>
+                {liveDoc.content}
+              </ReactMarkdown>
+            </div>
+          </div>
+        ) : candidateSet && !isEditing ? (
+          <CandidatePicker
+            key={candidateSet.id}
+            set={candidateSet}
+            currentContent={documents[candidateSet.docType]}
+            onPick={(content) => onResolveCandidates(candidateSet.docType, content)}
+            onDiscard={() => onResolveCandidates(candidateSet.docType, null)}
           />
         ) : diffMode && activeDoc && hasHistory ? (
           <DiffViewer
@@ -357,6 +655,39 @@ export function DocPreview({
               transition={{ duration: 0.2 }}
               className="p-6"
             >
+              {sectionError && (
+                <div className="flex items-center gap-2 mb-4 px-3 py-2 rounded-lg bg-red-500/5 border border-red-500/20 text-xs font-mono text-red-400">
+                  <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+                  <span className="flex-1">Section rewrite failed: {sectionError}</span>
+                  <button onClick={() => setSectionError(null)} className="hover:text-foreground transition-colors">
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              )}
+              {activeStale && activeDoc && (
+                <div className="flex items-center gap-2 mb-4 px-3 py-2 rounded-lg bg-amber-500/5 border border-amber-500/20 text-xs font-mono text-amber-400">
+                  <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+                  <span className="flex-1">
+                    Out of date — {activeStale.join(", ")} changed since this {activeDoc} was written.
+                  </span>
+                  {onRefreshDownstream && (
+                    <button
+                      onClick={() => onRefreshDownstream(activeDoc, true)}
+                      className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-amber-500/10 border border-amber-500/30 hover:bg-amber-500/20 transition-colors"
+                      title={activeDownstream.length > 0 ? `Also regenerates ${activeDownstream.join(", ")}` : undefined}
+                    >
+                      <RefreshCw className="w-3 h-3" />
+                      Regenerate{activeDownstream.length > 0 && ` + ${activeDownstream.length} downstream`}
+                    </button>
+                  )}
+                </div>
+              )}
+              <PatchConflicts
+                conflicts={activeConflicts}
+                content={currentContent}
+                onResolve={handleResolveConflict}
+                onDismiss={onDismissConflict}
+              />
               <div className="markdown-content">
                 <ReactMarkdown
                   remarkPlugins={[remarkGfm]}
@@ -421,15 +752,28 @@ export function DocPreview({
   );
 }
 
-// Section heading with hover "Ask AI" button
+const SECTION_ACTION_ICONS: Record<SectionAction, typeof RefreshCw> = {
+  regenerate: RefreshCw,
+  expand: ListPlus,
+  simplify: Minimize2,
+};
+
+// Section heading with hover "Ask AI" and rewrite buttons
 function SectionHeading({
   level,
   children,
   onAsk,
+  onAction,
+  busyAction,
+  actionsDisabled,
 }: {
   level: 1 | 2 | 3;
   children: React.ReactNode;
   onAsk: () => void;
+  onAction: (action: SectionAction) => void;
+  // Set while this section is being rewritten
+  busyAction: SectionAction | null;
+  actionsDisabled: boolean;
 }) {
   const [hovered, setHovered] = useState(false);
   const Tag = `h${level}` as "h1" | "h2" | "h3";
@@ -442,20 +786,44 @@ function SectionHeading({
       onMouseLeave={() => setHovered(false)}
     >
       <Tag className={cn("font-bold font-mono", sizeClass)}>{children}</Tag>
+      {busyAction && (
+        <span className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 text-[10px] font-mono whitespace-nowrap">
+          <Loader2 className="w-2.5 h-2.5 animate-spin" />
+          {SECTION_ACTIONS.find((a) => a.action === busyAction)?.label}…
+        </span>
+      )}
       <AnimatePresence>
-        {hovered && (
-          <motion.button
+        {hovered && !busyAction && (
+          <motion.div
             initial={{ opacity: 0, scale: 0.8 }}
             animate={{ opacity: 1, scale: 1 }}
             exit={{ opacity: 0, scale: 0.8 }}
             transition={{ duration: 0.1 }}
-            onClick={onAsk}
-            className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-cyan-500/10 border border-cyan-500/20 text-cyan-400 text-[10px] font-mono hover:bg-cyan-500/20 transition-colors whitespace-nowrap"
-            title="Ask AI about this section"
+            className="flex items-center gap-1"
           >
-            <MessageSquare className="w-2.5 h-2.5" />
-            Ask AI
-          </motion.button>
+            <button
+              onClick={onAsk}
+              className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-cyan-500/10 border border-cyan-500/20 text-cyan-400 text-[10px] font-mono hover:bg-cyan-500/20 transition-colors whitespace-nowrap"
+              title="Ask AI about this section"
+            >
+              <MessageSquare className="w-2.5 h-2.5" />
+              Ask AI
+            </button>
+            {SECTION_ACTIONS.map(({ action, label }) => {
+              const Icon = SECTION_ACTION_ICONS[action];
+              return (
+                <button
+                  key={action}
+                  onClick={() => onAction(action)}
+                  disabled={actionsDisabled}
+                  className="p-1 rounded-md bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 hover:bg-emerald-500/20 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                  title={label}
+                >
+                  <Icon className="w-2.5 h-2.5" />
+                </button>
+              );
+            })}
+          </motion.div>
         )}
       </AnimatePresence>
     </div>
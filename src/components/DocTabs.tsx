@@ -1,110 +1,26 @@
 "use client";
 
 import { motion, AnimatePresence } from "framer-motion";
-import {
-  ClipboardList,
-  Layers,
-  Package,
-  Network,
-  Code2,
-  Map,
-  Plug,
-  Palette,
-  CheckSquare,
-  Zap,
-  FileText,
-} from "lucide-react";
+import { ClipboardList, FileText } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { DEFAULT_DOC_DEFINITIONS, TAB_COLOR_MAP, type DocDefinition } from "@/lib/doc-definitions";
+import type { LiveDoc } from "@/lib/doc-stream";
+import { DOC_ICONS } from "./DocIcon";
 
 interface DocTabsProps {
   documents: Record<string, string>;
   activeDoc: string | null;
   onSelect: (docType: string) => void;
+  // Built-in and custom document types — label, color and icon per tab
+  definitions?: DocDefinition[];
+  // Status badges for documents that are streaming or were cut off
+  liveStatus?: Record<string, LiveDoc["status"]>;
+  // Number of generated candidates waiting to be picked, per document
+  candidateCounts?: Record<string, number>;
+  // Upstream docs that changed since each stale document was written
+  staleDocs?: Record<string, string[]>;
 }
 
-const DOC_CONFIG: Record<
-  string,
-  {
-    text: string;
-    bg: string;
-    border: string;
-    label: string;
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    Icon: React.ComponentType<any>;
-  }
-> = {
-  PRD: {
-    text: "text-cyan-400",
-    bg: "bg-cyan-400/10",
-    border: "border-cyan-400/30",
-    label: "PRD",
-    Icon: ClipboardList,
-  },
-  "Design Document": {
-    text: "text-violet-400",
-    bg: "bg-violet-400/10",
-    border: "border-violet-400/30",
-    label: "Design",
-    Icon: Layers,
-  },
-  "Tech Stack": {
-    text: "text-emerald-400",
-    bg: "bg-emerald-400/10",
-    border: "border-emerald-400/30",
-    label: "Tech Stack",
-    Icon: Package,
-  },
-  Architecture: {
-    text: "text-amber-400",
-    bg: "bg-amber-400/10",
-    border: "border-amber-400/30",
-    label: "Architecture",
-    Icon: Network,
-  },
-  "Tech Spec": {
-    text: "text-sky-400",
-    bg: "bg-sky-400/10",
-    border: "border-sky-400/30",
-    label: "Tech Spec",
-    Icon: Code2,
-  },
-  Roadmap: {
-    text: "text-yellow-400",
-    bg: "bg-yellow-400/10",
-    border: "border-yellow-400/30",
-    label: "Roadmap",
-    Icon: Map,
-  },
-  "API Spec": {
-    text: "text-rose-400",
-    bg: "bg-rose-400/10",
-    border: "border-rose-400/30",
-    label: "API Spec",
-    Icon: Plug,
-  },
-  "UI Design": {
-    text: "text-pink-400",
-    bg: "bg-pink-400/10",
-    border: "border-pink-400/30",
-    label: "UI Design",
-    Icon: Palette,
-  },
-  "Task List": {
-    text: "text-green-400",
-    bg: "bg-green-400/10",
-    border: "border-green-400/30",
-    label: "Tasks",
-    Icon: CheckSquare,
-  },
-  "Vibe Prompt": {
-    text: "text-lime-400",
-    bg: "bg-lime-400/10",
-    border: "border-lime-400/30",
-    label: "Vibe",
-    Icon: Zap,
-  },
-};
-
 const DEFAULT_CONFIG = {
   text: "text-cyan-400",
   bg: "bg-cyan-400/10",
@@ -113,7 +29,26 @@ const DEFAULT_CONFIG = {
   Icon: FileText,
 };
 
-export function DocTabs({ documents, activeDoc, onSelect }: DocTabsProps) {
+function tabConfig(docType: string, definitions: DocDefinition[]) {
+  const def = definitions.find((d) => d.docKey === docType);
+  if (!def) return { ...DEFAULT_CONFIG, label: docType };
+  return {
+    ...DEFAULT_CONFIG,
+    ...TAB_COLOR_MAP[def.color],
+    label: def.tabLabel ?? def.label,
+    Icon: (def.icon && DOC_ICONS[def.icon]) || FileText,
+  };
+}
+
+export function DocTabs({
+  documents,
+  activeDoc,
+  onSelect,
+  definitions = DEFAULT_DOC_DEFINITIONS,
+  liveStatus = {},
+  candidateCounts = {},
+  staleDocs = {},
+}: DocTabsProps) {
   const docTypes = Object.keys(documents);
 
   if (docTypes.length === 0) return null;
@@ -121,10 +56,7 @@ export function DocTabs({ documents, activeDoc, onSelect }: DocTabsProps) {
   return (
     <div className="flex items-center gap-1.5 overflow-x-auto pb-1 scrollbar-none">
       {docTypes.map((docType) => {
-        const config = DOC_CONFIG[docType] ?? {
-          ...DEFAULT_CONFIG,
-          label: docType,
-        };
+        const config = tabConfig(docType, definitions);
         const isActive = activeDoc === docType;
         const { Icon } = config;
 
@@ -143,6 +75,33 @@ export function DocTabs({ documents, activeDoc, onSelect }: DocTabsProps) {
           >
             <Icon className="w-3 h-3" />
             {config.label}
+            {liveStatus[docType] === "generating" && (
+              <motion.span
+                animate={{ opacity: [1, 0.4, 1] }}
+                transition={{ repeat: Infinity, duration: 1.2 }}
+                className="px-1.5 py-px rounded-full bg-cyan-500/10 border border-cyan-500/20 text-[9px] text-cyan-400"
+              >
+                generating
+              </motion.span>
+            )}
+            {liveStatus[docType] === "stopped" && (
+              <span className="px-1.5 py-px rounded-full bg-amber-500/10 border border-amber-500/20 text-[9px] text-amber-400">
+                stopped
+              </span>
+            )}
+            {candidateCounts[docType] > 0 && (
+              <span className="px-1.5 py-px rounded-full bg-violet-500/10 border border-violet-500/20 text-[9px] text-violet-400">
+                {candidateCounts[docType]} candidates
+              </span>
+            )}
+            {staleDocs[docType] && !liveStatus[docType] && (
+              <span
+                className="px-1.5 py-px rounded-full bg-amber-500/10 border border-amber-500/20 text-[9px] text-amber-400"
+                title={`${staleDocs[docType].join(", ")} changed since this was written`}
+              >
+                stale
+              </span>
+            )}
             {isActive && (
               <motion.span
                 layoutId="active-tab-indicator"
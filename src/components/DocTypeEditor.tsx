@@ -0,0 +1,291 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, Pencil, Trash2, Check, X, Globe } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { DOC_COLORS, TAB_COLOR_MAP, docFilenameError, docTypeNameError, type DocDefinition } from "@/lib/doc-definitions";
+import { dependencyCycle } from "@/lib/dependencies";
+import { DocIcon, DOC_ICONS } from "./DocIcon";
+
+interface DocTypeEditorProps {
+  // Every type the session offers, built-in and custom
+  definitions: DocDefinition[];
+  sessionTypes: DocDefinition[];
+  globalTypes: DocDefinition[];
+  onSessionUpdate: (types: DocDefinition[]) => void;
+  onGlobalUpdate: (types: DocDefinition[]) => void;
+}
+
+interface Draft {
+  docKey: string;
+  defaultInstruction: string;
+  color: string;
+  icon: string;
+  // One topic per line
+  guidedTopics: string;
+  filename: string;
+  dependsOn: string[];
+  purpose: string;
+  scope: "session" | "global";
+}
+
+const EMPTY_DRAFT: Draft = {
+  docKey: "",
+  defaultInstruction: "",
+  color: "sky",
+  icon: "FileText",
+  guidedTopics: "",
+  filename: "",
+  dependsOn: ["PRD"],
+  purpose: "",
+  scope: "session",
+};
+
+const FIELD = "w-full bg-[#161b22] border border-border rounded-lg px-2.5 py-1.5 text-xs text-foreground outline-none focus:border-cyan-500/50";
+
+function toDraft(def: DocDefinition): Draft {
+  return {
+    docKey: def.docKey,
+    defaultInstruction: def.defaultInstruction,
+    color: def.color,
+    icon: def.icon ?? "FileText",
+    guidedTopics: (def.guidedTopics ?? []).join("\n"),
+    filename: def.filename ?? "",
+    dependsOn: def.dependsOn ?? [],
+    purpose: def.purpose ?? "",
+    scope: def.scope ?? "session",
+  };
+}
+
+function fromDraft(draft: Draft): DocDefinition {
+  const name = draft.docKey.trim();
+  const topics = draft.guidedTopics.split("\n").map((t) => t.trim()).filter(Boolean);
+  return {
+    label: name,
+    docKey: name,
+    defaultInstruction: draft.defaultInstruction.trim() || `generate a complete ${name} for this project.`,
+    color: draft.color,
+    icon: draft.icon,
+    ...(topics.length > 0 && { guidedTopics: topics }),
+    ...(draft.dependsOn.length > 0 && { dependsOn: draft.dependsOn }),
+    ...(draft.filename.trim() && { filename: draft.filename.trim() }),
+    ...(draft.purpose.trim() && { purpose: draft.purpose.trim() }),
+  };
+}
+
+// Name, export file name, then dependency loops — the first problem found
+function draftError(draft: Draft, definitions: DocDefinition[], editingKey: string): string | null {
+  const others = definitions.filter((d) => d.docKey !== editingKey);
+  const cycle = dependencyCycle(draft.docKey, draft.dependsOn, others);
+  return (
+    docTypeNameError(draft.docKey, definitions, editingKey) ??
+    docFilenameError(draft.filename, draft.docKey, others) ??
+    (cycle ? `Circular dependency: ${[draft.docKey.trim(), ...cycle].join(" → ")}` : null)
+  );
+}
+
+export function DocTypeEditor({ definitions, sessionTypes, globalTypes, onSessionUpdate, onGlobalUpdate }: DocTypeEditorProps) {
+  // Key of the type being edited; "" while adding a new one
+  const [editing, setEditing] = useState<{ key: string; scope?: "session" | "global" } | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const customTypes = definitions.filter((d) => d.scope);
+  const error = editing ? draftError(draft, definitions, editing.key) : null;
+  // Vibe Prompt is written last from the others, so nothing can depend on it
+  const upstreamOptions = definitions.filter((d) => d.docKey !== editing?.key && d.docKey !== "Vibe Prompt");
+
+  const update = (patch: Partial<Draft>) => setDraft((prev) => ({ ...prev, ...patch }));
+
+  const startAdd = () => {
+    setEditing({ key: "" });
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const startEdit = (def: DocDefinition) => {
+    setEditing({ key: def.docKey, scope: def.scope });
+    setDraft(toDraft(def));
+  };
+
+  // Replaces the edited type in its list, or moves it when its scope changed
+  const save = () => {
+    if (!editing || error) return;
+    const def = fromDraft(draft);
+    const lists = { session: sessionTypes, global: globalTypes };
+    const without = (scope: "session" | "global") => lists[scope].filter((d) => d.docKey !== editing.key);
+    const next = { session: without("session"), global: without("global") };
+    const index = editing.scope === draft.scope ? lists[draft.scope].findIndex((d) => d.docKey === editing.key) : -1;
+    if (index === -1) next[draft.scope].push(def);
+    else next[draft.scope].splice(index, 0, def);
+    if (editing.scope === "session" || draft.scope === "session") onSessionUpdate(next.session);
+    if (editing.scope === "global" || draft.scope === "global") onGlobalUpdate(next.global);
+    setEditing(null);
+  };
+
+  const remove = (def: DocDefinition) => {
+    if (def.scope === "global") onGlobalUpdate(globalTypes.filter((d) => d.docKey !== def.docKey));
+    else onSessionUpdate(sessionTypes.filter((d) => d.docKey !== def.docKey));
+    if (editing?.key === def.docKey) setEditing(null);
+  };
+
+  const toggleUpstream = (docKey: string) =>
+    update({ dependsOn: draft.dependsOn.includes(docKey) ? draft.dependsOn.filter((k) => k !== docKey) : [...draft.dependsOn, docKey] });
+
+  return (
+    <div className="rounded-xl border border-border bg-secondary/30 p-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="font-mono text-sm font-semibold text-foreground">Document Types</span>
+        {!editing && (
+          <button
+            onClick={startAdd}
+            className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-secondary border border-border text-[10px] font-mono text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <Plus className="w-3 h-3" />
+            Add type
+          </button>
+        )}
+      </div>
+
+      {customTypes.length === 0 && !editing && (
+        <p className="text-[10px] font-mono text-muted-foreground">
+          Add your own document types — a Test Plan, a Runbook, a Pricing Model — next to the built-in suite.
+        </p>
+      )}
+
+      {customTypes.map((def) => (
+        <div key={def.docKey} className="flex items-center gap-2">
+          <DocIcon name={def.icon} className={cn("w-3.5 h-3.5 flex-shrink-0", TAB_COLOR_MAP[def.color]?.text)} />
+          <span className="flex-1 min-w-0 truncate text-xs font-mono text-foreground">{def.label}</span>
+          {def.scope === "global" && (
+            <span className="flex items-center gap-1 text-[9px] font-mono text-muted-foreground" title="Available in every session">
+              <Globe className="w-3 h-3" />
+              all sessions
+            </span>
+          )}
+          <button
+            onClick={() => startEdit(def)}
+            className="p-1 rounded hover:bg-secondary text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <Pencil className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => remove(def)}
+            className="p-1 rounded text-muted-foreground hover:text-red-400 hover:bg-red-500/10 transition-colors"
+            title="Delete document type — documents already written are kept"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+
+      {editing && (
+        <div className="space-y-2 pt-2 border-t border-border">
+          <input
+            value={draft.docKey}
+            onChange={(e) => update({ docKey: e.target.value })}
+            placeholder="Name, e.g. Test Plan"
+            autoFocus
+            className={cn(FIELD, "font-mono")}
+          />
+          <label className="block text-[10px] font-mono text-muted-foreground">
+            Instruction
+            <textarea
+              value={draft.defaultInstruction}
+              onChange={(e) => update({ defaultInstruction: e.target.value })}
+              placeholder={`generate a complete ${draft.docKey.trim() || "document"} for this project.`}
+              rows={3}
+              className={cn(FIELD, "mt-1 resize-y font-mono")}
+            />
+          </label>
+          <label className="block text-[10px] font-mono text-muted-foreground">
+            Purpose (shown in the kit README)
+            <input value={draft.purpose} onChange={(e) => update({ purpose: e.target.value })} className={cn(FIELD, "mt-1")} />
+          </label>
+          <div className="flex items-center gap-2">
+            <select
+              value={draft.color}
+              onChange={(e) => update({ color: e.target.value })}
+              className="bg-[#161b22] border border-border rounded-md px-2 py-1 text-xs font-mono text-foreground outline-none focus:border-cyan-500/50"
+            >
+              {DOC_COLORS.map((c) => (
+                <option key={c} value={c}>
+                  {c}
+                </option>
+              ))}
+            </select>
+            <select
+              value={draft.icon}
+              onChange={(e) => update({ icon: e.target.value })}
+              className="bg-[#161b22] border border-border rounded-md px-2 py-1 text-xs font-mono text-foreground outline-none focus:border-cyan-500/50"
+            >
+              {Object.keys(DOC_ICONS).map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+            <DocIcon name={draft.icon} className={cn("w-4 h-4", TAB_COLOR_MAP[draft.color]?.text)} />
+            <input
+              value={draft.filename}
+              onChange={(e) => update({ filename: e.target.value })}
+              placeholder={`${draft.docKey.trim().toLowerCase().replace(/\s+/g, "-") || "file-name"}.md`}
+              className="flex-1 min-w-0 bg-[#161b22] border border-border rounded-md px-2 py-1 text-xs font-mono text-foreground outline-none focus:border-cyan-500/50"
+            />
+          </div>
+          <label className="block text-[10px] font-mono text-muted-foreground">
+            Guided topics (one per line — leave empty for auto only)
+            <textarea
+              value={draft.guidedTopics}
+              onChange={(e) => update({ guidedTopics: e.target.value })}
+              rows={3}
+              className={cn(FIELD, "mt-1 resize-y")}
+            />
+          </label>
+          <div className="text-[10px] font-mono text-muted-foreground">
+            Written from
+            <div className="mt-1 flex flex-wrap gap-1">
+              {upstreamOptions.map((d) => (
+                <button
+                  key={d.docKey}
+                  onClick={() => toggleUpstream(d.docKey)}
+                  className={cn(
+                    "px-2 py-0.5 rounded-md border text-[10px] font-mono transition-colors",
+                    draft.dependsOn.includes(d.docKey)
+                      ? "bg-cyan-500/10 border-cyan-500/30 text-cyan-400"
+                      : "bg-secondary border-border text-muted-foreground hover:text-foreground"
+                  )}
+                >
+                  {d.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={draft.scope}
+              onChange={(e) => update({ scope: e.target.value as Draft["scope"] })}
+              className="bg-[#161b22] border border-border rounded-md px-2 py-1 text-xs font-mono text-foreground outline-none focus:border-cyan-500/50"
+            >
+              <option value="session">This session</option>
+              <option value="global">All sessions</option>
+            </select>
+            {error && draft.docKey.trim() && <span className="text-[10px] font-mono text-amber-400 truncate" title={error}>{error}</span>}
+            <div className="ml-auto flex items-center gap-1">
+              <button
+                onClick={() => setEditing(null)}
+                className="p-1 rounded hover:bg-secondary text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={save}
+                disabled={!!error}
+                className="p-1 rounded hover:bg-emerald-500/20 text-emerald-400 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+              >
+                <Check className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,61 +3,33 @@
 import { useState } from "react";
 import { motion } from "framer-motion";
 import { Download, Archive, Package, ChevronDown } from "lucide-react";
-import JSZip from "jszip";
-import { generateReadme, getDocFilename } from "@/lib/readme-generator";
+import { exportAllDocuments, exportDocument, exportKit } from "@/lib/export";
+import type { DecisionRecord } from "@/lib/decisions";
+import { DEFAULT_DOC_DEFINITIONS, type DocDefinition } from "@/lib/doc-definitions";
 
 interface ExportBarProps {
   documents: Record<string, string>;
   sessionName: string;
+  decisions?: DecisionRecord[];
+  // File names and README purposes per document type
+  definitions?: DocDefinition[];
 }
 
-function slugify(str: string): string {
-  return str
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, "-")
-    .replace(/^-|-$/g, "");
-}
-
-function downloadFile(content: string, filename: string) {
-  const blob = new Blob([content], { type: "text/markdown;charset=utf-8" });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = filename;
-  a.click();
-  URL.revokeObjectURL(url);
-}
-
-export function ExportBar({ documents, sessionName }: ExportBarProps) {
+export function ExportBar({ documents, sessionName, decisions = [], definitions = DEFAULT_DOC_DEFINITIONS }: ExportBarProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
 
   const docTypes = Object.keys(documents);
 
   const handleExportSingle = (docType: string) => {
-    const content = documents[docType];
-    const filename = `${slugify(sessionName)}-${getDocFilename(docType)}`;
-    downloadFile(content, filename);
+    exportDocument(documents, docType, sessionName, definitions);
     setIsOpen(false);
   };
 
   const handleExportAll = async () => {
     setIsExporting(true);
     try {
-      const zip = new JSZip();
-      const folder = zip.folder(slugify(sessionName));
-      if (folder) {
-        for (const [docType, content] of Object.entries(documents)) {
-          folder.file(`${slugify(docType)}.md`, content);
-        }
-      }
-      const blob = await zip.generateAsync({ type: "blob" });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `${slugify(sessionName)}-docs.zip`;
-      a.click();
-      URL.revokeObjectURL(url);
+      await exportAllDocuments(documents, sessionName);
     } finally {
       setIsExporting(false);
       setIsOpen(false);
@@ -67,31 +39,7 @@ export function ExportBar({ documents, sessionName }: ExportBarProps) {
   const handleExportKit = async () => {
     setIsExporting(true);
     try {
-      const zip = new JSZip();
-      const root = zip.folder(slugify(sessionName))!;
-
-      // Vibe Prompt at root level
-      if (documents["Vibe Prompt"]) {
-        root.file("VIBE_PROMPT.md", documents["Vibe Prompt"]);
-      }
-
-      // README at root
-      const readme = generateReadme(documents, sessionName);
-      root.file("README.md", readme);
-
-      // All docs in docs/ folder with normalized names
-      const docsFolder = root.folder("docs")!;
-      for (const [docType, content] of Object.entries(documents)) {
-        docsFolder.file(getDocFilename(docType), content);
-      }
-
-      const blob = await zip.generateAsync({ type: "blob" });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `${slugify(sessionName)}-ai-kit.zip`;
-      a.click();
-      URL.revokeObjectURL(url);
+      await exportKit(documents, sessionName, decisions, definitions);
     } finally {
       setIsExporting(false);
       setIsOpen(false);
@@ -1,23 +1,46 @@
 "use client";
 
+import { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { MessageSquare, Sparkles, X } from "lucide-react";
+import { MessageSquare, Sparkles, X, Check, CircleDashed, Circle, SkipForward, ChevronDown, ChevronUp } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { coveredCount, type TopicCoverage } from "@/lib/coverage";
 
 export interface GuidedSession {
   docType: string;
-  totalTopics: number;
-  answeredCount: number;
+  // The doc's guidedTopics checklist, updated from the model's coverage blocks
+  topics: TopicCoverage[];
+  // From a "✅ X/Y topics covered" line, for replies without a coverage block
+  reportedCount?: number;
 }
 
 interface GuidedProgressProps {
   session: GuidedSession;
   onGenerateNow: () => void;
   onCancel: () => void;
+  // Steers the interview to a topic; unset while a reply is streaming
+  onJumpToTopic?: (topic: string) => void;
 }
 
-export function GuidedProgress({ session, onGenerateNow, onCancel }: GuidedProgressProps) {
-  const { docType, totalTopics, answeredCount } = session;
+function TopicIcon({ status }: { status: TopicCoverage["status"] }) {
+  switch (status) {
+    case "covered":
+      return <Check className="w-3 h-3 text-green-400" />;
+    case "partial":
+      return <CircleDashed className="w-3 h-3 text-amber-400" />;
+    case "skipped":
+      return <SkipForward className="w-3 h-3 text-muted-foreground" />;
+    default:
+      return <Circle className="w-3 h-3 text-muted-foreground/50" />;
+  }
+}
+
+export function GuidedProgress({ session, onGenerateNow, onCancel, onJumpToTopic }: GuidedProgressProps) {
+  const [expanded, setExpanded] = useState(true);
+  const { docType, topics } = session;
+  const totalTopics = topics.length;
+  const answeredCount = Math.max(coveredCount(topics), session.reportedCount ?? 0);
+  const partialCount = topics.filter((t) => t.status === "partial").length;
   const pct = totalTopics > 0 ? Math.round((answeredCount / totalTopics) * 100) : 0;
   const canGenerate = pct >= 60;
 
@@ -59,8 +82,9 @@ export function GuidedProgress({ session, onGenerateNow, onCancel }: GuidedProgr
             <span className="text-xs font-mono font-semibold text-foreground">
               Guided: {docType}
             </span>
-            <span className={cn("text-xs font-mono", textColor)}>
-              {answeredCount}/{totalTopics} answered
+            <span className={cn("text-xs font-mono tabular-nums", textColor)}>
+              {Math.floor(answeredCount)}/{totalTopics} answered
+              {partialCount > 0 && ` · ${partialCount} partial`}
             </span>
           </div>
           <div className="flex items-center gap-1.5">
@@ -75,6 +99,13 @@ export function GuidedProgress({ session, onGenerateNow, onCancel }: GuidedProgr
                 Generate Now
               </motion.button>
             )}
+            <button
+              onClick={() => setExpanded((v) => !v)}
+              className="p-1 rounded-md text-muted-foreground hover:text-foreground hover:bg-secondary transition-colors"
+              title={expanded ? "Hide topics" : "Show topics"}
+            >
+              {expanded ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+            </button>
             <button
               onClick={onCancel}
               className="p-1 rounded-md text-muted-foreground hover:text-foreground hover:bg-secondary transition-colors"
@@ -99,6 +130,35 @@ export function GuidedProgress({ session, onGenerateNow, onCancel }: GuidedProgr
         <p className="text-[10px] font-mono text-muted-foreground mt-1">
           {statusText}
         </p>
+
+        {/* Topic checklist — open topics jump the interview there */}
+        {expanded && totalTopics > 0 && (
+          <div className="mt-2 space-y-0.5 text-[11px] font-mono">
+            {topics.map((t) => {
+              const canJump = !!onJumpToTopic && t.status !== "covered";
+              return (
+                <button
+                  key={t.topic}
+                  onClick={() => onJumpToTopic?.(t.topic)}
+                  disabled={!canJump}
+                  className={cn(
+                    "w-full flex items-start gap-1.5 px-1.5 py-0.5 rounded text-left transition-colors disabled:cursor-default",
+                    canJump && "hover:bg-white/[0.04]"
+                  )}
+                  title={canJump ? `Ask about "${t.topic}" next` : t.answer}
+                >
+                  <span className="mt-0.5 flex-shrink-0">
+                    <TopicIcon status={t.status} />
+                  </span>
+                  <span className={cn("flex-shrink-0", t.status === "pending" ? "text-muted-foreground" : "text-foreground")}>
+                    {t.topic}
+                  </span>
+                  {t.answer && <span className="min-w-0 truncate text-muted-foreground">— {t.answer}</span>}
+                </button>
+              );
+            })}
+          </div>
+        )}
       </motion.div>
     </AnimatePresence>
   );
@@ -1,11 +1,17 @@
 "use client";
 
 import { motion } from "framer-motion";
-import { User, Bot, Copy, Check, ImageIcon, AlertCircle } from "lucide-react";
+import { User, Bot, Copy, Check, ImageIcon, AlertCircle, RotateCcw, Pencil, ChevronLeft, ChevronRight, GitBranch, Paperclip } from "lucide-react";
 import { useState, useEffect } from "react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import { cn } from "@/lib/utils";
+import { describeStreamError, type StreamError } from "@/lib/llm/errors";
+import { formatTokens } from "@/lib/tokens";
+import { estimateCost, formatCost, type UsageRecord } from "@/lib/usage";
+import type { BranchPoint } from "@/lib/branches";
+import type { QuickReplies as QuickRepliesOptions } from "@/lib/choices";
+import { QuickReplies } from "./QuickReplies";
 
 export interface InlineImage {
   imageData: string;
@@ -18,11 +24,46 @@ interface MessageBubbleProps {
   content: string;
   isStreaming?: boolean;
   inlineImages?: InlineImage[];
+  error?: StreamError;
+  canContinue?: boolean;
+  onRetry?: () => void;
+  cached?: boolean;
+  onRegenerateFresh?: () => void;
+  usage?: UsageRecord;
+  // Resend an edited version of this message as a new branch
+  onEdit?: (text: string) => void;
+  // Set when the message has edited alternatives
+  branch?: BranchPoint;
+  onSwitchBranch?: (messageId: string) => void;
+  attachmentNames?: string[];
+  choices?: QuickRepliesOptions;
+  // Sends a picked answer; unset once the question has been answered
+  onQuickReply?: (text: string) => void;
 }
 
-export function MessageBubble({ role, content, isStreaming, inlineImages }: MessageBubbleProps) {
+export function MessageBubble({
+  role,
+  content,
+  isStreaming,
+  inlineImages,
+  error,
+  canContinue,
+  onRetry,
+  cached,
+  onRegenerateFresh,
+  usage,
+  onEdit,
+  branch,
+  onSwitchBranch,
+  attachmentNames,
+  choices,
+  onQuickReply,
+}: MessageBubbleProps) {
   const [copied, setCopied] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(content);
   const isUser = role === "user";
+  const cost = usage ? estimateCost(usage) : null;
 
   const handleCopy = async () => {
     await navigator.clipboard.writeText(content);
@@ -30,6 +71,16 @@ export function MessageBubble({ role, content, isStreaming, inlineImages }: Mess
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const handleStartEdit = () => {
+    setDraft(content);
+    setEditing(true);
+  };
+
+  const handleSaveEdit = () => {
+    setEditing(false);
+    onEdit?.(draft);
+  };
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 10 }}
@@ -58,7 +109,41 @@ export function MessageBubble({ role, content, isStreaming, inlineImages }: Mess
             : "bg-secondary border border-border text-foreground rounded-tl-sm"
         )}
       >
-        {isUser ? (
+        {isUser && editing ? (
+          <div className="flex flex-col gap-2 min-w-[260px]">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && !e.shiftKey) {
+                  e.preventDefault();
+                  handleSaveEdit();
+                }
+                if (e.key === "Escape") setEditing(false);
+              }}
+              rows={Math.min(8, draft.split("\n").length + 1)}
+              autoFocus
+              className="w-full bg-transparent text-sm leading-relaxed resize-none outline-none border border-border rounded-lg p-2 focus:border-cyan-500/30"
+            />
+            <div className="flex items-center justify-end gap-1.5 text-[10px] font-mono">
+              <button
+                onClick={() => setEditing(false)}
+                className="px-2 py-0.5 rounded-md bg-secondary border border-border text-muted-foreground hover:text-foreground transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveEdit}
+                disabled={!draft.trim() || draft.trim() === content}
+                className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-cyan-500/10 border border-cyan-500/30 text-cyan-400 hover:bg-cyan-500/20 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                title="Send the edited message as a new branch — the original stays available"
+              >
+                <GitBranch className="w-3 h-3" />
+                Save &amp; branch
+              </button>
+            </div>
+          </div>
+        ) : isUser ? (
           <p className="text-sm leading-relaxed whitespace-pre-wrap">{content}</p>
         ) : (
           <div className="markdown-content text-sm">
@@ -69,6 +154,24 @@ export function MessageBubble({ role, content, isStreaming, inlineImages }: Mess
           </div>
         )}
 
+        {/* Files sent with the message */}
+        {attachmentNames && attachmentNames.length > 0 && !editing && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {attachmentNames.map((name) => (
+              <span
+                key={name}
+                className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-secondary/50 border border-border text-[10px] font-mono text-muted-foreground"
+              >
+                <Paperclip className="w-2.5 h-2.5" />
+                {name}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {/* Clickable answers to the closing question */}
+        {choices && onQuickReply && !isStreaming && <QuickReplies choices={choices} onReply={onQuickReply} />}
+
         {/* Inline generated images */}
         {inlineImages && inlineImages.length > 0 && (
           <div className="mt-3 space-y-3">
@@ -89,14 +192,90 @@ export function MessageBubble({ role, content, isStreaming, inlineImages }: Mess
           </div>
         )}
 
-        {/* Copy button */}
-        {!isStreaming && content && (
-          <button
-            onClick={handleCopy}
-            className="absolute -top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity bg-secondary border border-border rounded-md p-1 text-muted-foreground hover:text-foreground"
+        {/* Stream error */}
+        {error && (
+          <div className={cn("flex items-start gap-2 text-xs font-mono text-amber-400", content && "mt-3 pt-3 border-t border-border")}>
+            <AlertCircle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+            <span className="flex-1">⚠️ {describeStreamError(error)}</span>
+            {onRetry && (
+              <button
+                onClick={onRetry}
+                className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-amber-500/10 border border-amber-500/30 hover:bg-amber-500/20 transition-colors whitespace-nowrap"
+              >
+                <RotateCcw className="w-3 h-3" />
+                {error.kind === "truncated" && canContinue ? "Continue" : "Retry from here"}
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Replayed from cache */}
+        {cached && (
+          <div className="flex items-center gap-2 mt-2 text-[10px] font-mono text-muted-foreground">
+            <span className="px-1.5 py-0.5 rounded bg-secondary/50 border border-border">cached</span>
+            {onRegenerateFresh && (
+              <button onClick={onRegenerateFresh} className="text-cyan-400 hover:text-cyan-300">
+                Regenerate fresh
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Token usage */}
+        {usage && !cached && (
+          <div
+            className="mt-2 text-[10px] font-mono text-muted-foreground/70"
+            title={`${usage.provider} · ${usage.model}${usage.cachedTokens > 0 ? ` · ${formatTokens(usage.cachedTokens)} prompt-cached` : ""}`}
           >
-            {copied ? <Check className="w-3 h-3 text-green-400" /> : <Copy className="w-3 h-3" />}
-          </button>
+            {formatTokens(usage.inputTokens)} in · {formatTokens(usage.outputTokens)} out
+            {cost !== null && ` · ${formatCost(cost)}`}
+          </div>
+        )}
+
+        {/* Branch switcher */}
+        {branch && (
+          <div className="flex items-center gap-1 mt-2 text-[10px] font-mono text-muted-foreground">
+            <button
+              onClick={() => onSwitchBranch?.(branch.siblingIds[branch.index - 1])}
+              disabled={!onSwitchBranch || branch.index === 0}
+              className="p-0.5 rounded hover:text-foreground disabled:opacity-30 disabled:pointer-events-none"
+              title="Previous branch"
+            >
+              <ChevronLeft className="w-3 h-3" />
+            </button>
+            <span>
+              {branch.index + 1}/{branch.siblingIds.length}
+            </span>
+            <button
+              onClick={() => onSwitchBranch?.(branch.siblingIds[branch.index + 1])}
+              disabled={!onSwitchBranch || branch.index === branch.siblingIds.length - 1}
+              className="p-0.5 rounded hover:text-foreground disabled:opacity-30 disabled:pointer-events-none"
+              title="Next branch"
+            >
+              <ChevronRight className="w-3 h-3" />
+            </button>
+          </div>
+        )}
+
+        {/* Copy / edit buttons */}
+        {!isStreaming && content && !editing && (
+          <div className="absolute -top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            {onEdit && (
+              <button
+                onClick={handleStartEdit}
+                className="bg-secondary border border-border rounded-md p-1 text-muted-foreground hover:text-foreground"
+                title="Edit and branch from here"
+              >
+                <Pencil className="w-3 h-3" />
+              </button>
+            )}
+            <button
+              onClick={handleCopy}
+              className="bg-secondary border border-border rounded-md p-1 text-muted-foreground hover:text-foreground"
+            >
+              {copied ? <Check className="w-3 h-3 text-green-400" /> : <Copy className="w-3 h-3" />}
+            </button>
+          </div>
         )}
       </div>
     </motion.div>
@@ -0,0 +1,139 @@
+"use client";
+
+import { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { AlertTriangle, ChevronDown, ChevronRight, Check, X, ArrowDownToLine } from "lucide-react";
+import { parseSections } from "@/lib/sections";
+import { appendToDocument, applyPatchOpAt, describePatchOp, type PatchConflict } from "@/lib/patch";
+
+interface PatchConflictsProps {
+  conflicts: PatchConflict[];
+  content: string;
+  // Called with the document after the user applied the conflict somewhere
+  onResolve: (conflict: PatchConflict, newContent: string) => void;
+  onDismiss: (conflictId: string) => void;
+}
+
+export function PatchConflicts({ conflicts, content, onResolve, onDismiss }: PatchConflictsProps) {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="mb-4 rounded-xl border border-amber-500/20 bg-amber-500/5 overflow-hidden">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-amber-500/20 text-xs font-mono text-amber-400">
+        <AlertTriangle className="w-3 h-3" />
+        {conflicts.length} patch {conflicts.length === 1 ? "change" : "changes"} could not be applied
+      </div>
+      <AnimatePresence initial={false}>
+        {conflicts.map((conflict) => (
+          <ConflictRow
+            key={conflict.id}
+            conflict={conflict}
+            content={content}
+            onResolve={onResolve}
+            onDismiss={onDismiss}
+          />
+        ))}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+function ConflictRow({
+  conflict,
+  content,
+  onResolve,
+  onDismiss,
+}: {
+  conflict: PatchConflict;
+  content: string;
+  onResolve: PatchConflictsProps["onResolve"];
+  onDismiss: PatchConflictsProps["onDismiss"];
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const [target, setTarget] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const { op } = conflict;
+  const sections = parseSections(content);
+  const body = op.op === "delete" ? "" : op.content;
+
+  // Re-anchor the op on the section the user picked
+  const handleApply = () => {
+    const section = sections.find((s) => String(s.start) === target);
+    if (!section) return;
+    const result = applyPatchOpAt(content, op, section);
+    if ("reason" in result) setError(result.reason);
+    else onResolve(conflict, result.content);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: "auto" }}
+      exit={{ opacity: 0, height: 0 }}
+      className="px-3 py-2 border-b border-amber-500/10 last:border-b-0 text-xs font-mono"
+    >
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          disabled={!body}
+          className="flex items-center gap-1 text-foreground disabled:cursor-default"
+        >
+          {body && (expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />)}
+          {describePatchOp(op)}
+        </button>
+        <span className="text-muted-foreground truncate">— {conflict.reason}</span>
+        <button
+          onClick={() => onDismiss(conflict.id)}
+          className="ml-auto p-1 rounded text-muted-foreground hover:text-foreground transition-colors"
+          title="Dismiss — leave the document as it is"
+        >
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+
+      {expanded && body && (
+        <pre className="mt-2 max-h-48 overflow-auto rounded-lg bg-secondary/50 border border-border p-2 whitespace-pre-wrap text-[11px] text-muted-foreground">
+          {body}
+        </pre>
+      )}
+
+      <div className="flex items-center gap-1.5 mt-2">
+        <select
+          value={target}
+          onChange={(e) => {
+            setTarget(e.target.value);
+            setError(null);
+          }}
+          className="flex-1 min-w-0 bg-secondary border border-border rounded-md px-2 py-1 text-[11px] text-foreground outline-none focus:border-amber-500/30"
+        >
+          <option value="">{op.op === "delete" ? "Section to delete…" : "Apply to section…"}</option>
+          {sections.map((s) => (
+            <option key={s.start} value={String(s.start)}>
+              {"\u00a0\u00a0".repeat(s.level - 1)}
+              {s.title}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleApply}
+          disabled={!target}
+          className="flex items-center gap-1 px-2 py-1 rounded-md border bg-amber-500/10 border-amber-500/30 text-amber-400 hover:bg-amber-500/20 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+        >
+          <Check className="w-3 h-3" />
+          Apply
+        </button>
+        {body && (
+          <button
+            onClick={() => onResolve(conflict, appendToDocument(content, body))}
+            className="flex items-center gap-1 px-2 py-1 rounded-md bg-secondary border border-border text-muted-foreground hover:text-foreground transition-colors"
+            title="Add the content at the end of the document"
+          >
+            <ArrowDownToLine className="w-3 h-3" />
+            Append
+          </button>
+        )}
+      </div>
+      {error && <p className="mt-1 text-red-400">{error}</p>}
+    </motion.div>
+  );
+}
@@ -0,0 +1,213 @@
+"use client";
+
+import { useState } from "react";
+import { motion } from "framer-motion";
+import {
+  Workflow,
+  Pause,
+  Play,
+  SkipForward,
+  Check,
+  Circle,
+  Loader2,
+  ShieldCheck,
+  AlertTriangle,
+  X,
+  ChevronDown,
+  ChevronUp,
+  RotateCcw,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { currentStepIndex, type PipelineState, type PipelineStep } from "@/lib/pipeline";
+
+interface PipelinePanelProps {
+  pipeline: PipelineState;
+  onPause: () => void;
+  onResume: () => void;
+  // Skips a step, or puts a skipped one back in the run
+  onToggleSkip: (index: number) => void;
+  onVerifyBetweenChange: (verifyBetween: boolean) => void;
+  onSelectDoc: (docType: string) => void;
+  onClose: () => void;
+}
+
+function StepIcon({ status }: { status: PipelineStep["status"] }) {
+  switch (status) {
+    case "running":
+      return <Loader2 className="w-3 h-3 text-cyan-400 animate-spin" />;
+    case "verifying":
+      return <ShieldCheck className="w-3 h-3 text-violet-400 animate-pulse" />;
+    case "done":
+      return <Check className="w-3 h-3 text-emerald-400" />;
+    case "skipped":
+      return <SkipForward className="w-3 h-3 text-muted-foreground" />;
+    case "failed":
+      return <AlertTriangle className="w-3 h-3 text-amber-400" />;
+    default:
+      return <Circle className="w-3 h-3 text-muted-foreground/50" />;
+  }
+}
+
+const SKIP_LABEL: Record<PipelineStep["status"], string | null> = {
+  pending: "skip",
+  running: "skip",
+  verifying: "skip check",
+  failed: "skip",
+  skipped: "include",
+  done: null,
+};
+
+export function PipelinePanel({
+  pipeline,
+  onPause,
+  onResume,
+  onToggleSkip,
+  onVerifyBetweenChange,
+  onSelectDoc,
+  onClose,
+}: PipelinePanelProps) {
+  const [expanded, setExpanded] = useState(true);
+  const { steps, status } = pipeline;
+  const current = currentStepIndex(pipeline);
+  const settled = steps.filter((s) => s.status === "done" || s.status === "skipped").length;
+  const generated = steps.filter((s) => s.status === "done").length;
+  const pct = Math.round((settled / steps.length) * 100);
+  const currentStep = current === -1 ? null : steps[current];
+
+  const statusText =
+    status === "done"
+      ? `Finished — ${generated} document${generated === 1 ? "" : "s"} generated`
+      : status === "paused"
+        ? (pipeline.note ?? "Paused")
+        : currentStep?.status === "verifying"
+          ? `Verifying the suite after ${currentStep.docType}…`
+          : currentStep
+            ? `Generating ${currentStep.docType}…`
+            : "Finishing…";
+
+  return (
+    <motion.div
+      initial={{ height: 0, opacity: 0 }}
+      animate={{ height: "auto", opacity: 1 }}
+      transition={{ duration: 0.2 }}
+      className={cn(
+        "flex-shrink-0 px-4 py-2.5 border-b bg-secondary/30",
+        status === "paused" && pipeline.note ? "border-amber-400/30" : "border-cyan-400/30"
+      )}
+    >
+      {/* Header row */}
+      <div className="flex items-center justify-between gap-2 mb-1.5">
+        <div className="flex items-center gap-2 min-w-0">
+          <Workflow className="w-3.5 h-3.5 text-cyan-400 flex-shrink-0" />
+          <span className="text-xs font-mono font-semibold text-foreground truncate">
+            {pipeline.refreshFrom ? `Refresh after ${pipeline.refreshFrom}` : "Full suite"}
+          </span>
+          <span className="text-xs font-mono text-cyan-400 tabular-nums">
+            {settled}/{steps.length}
+          </span>
+        </div>
+        <div className="flex items-center gap-1.5">
+          {status !== "done" && (
+            <label
+              className="flex items-center gap-1.5 text-[10px] font-mono text-muted-foreground cursor-pointer select-none"
+              title="Run the verifier after each document and pause when it finds critical issues"
+            >
+              <input
+                type="checkbox"
+                checked={pipeline.verifyBetween}
+                onChange={(e) => onVerifyBetweenChange(e.target.checked)}
+                className="accent-cyan-500"
+              />
+              Verify between steps
+            </label>
+          )}
+          {status === "running" && (
+            <button
+              onClick={onPause}
+              className="flex items-center gap-1 px-2.5 py-1 rounded-md bg-secondary border border-border text-muted-foreground text-[10px] font-mono hover:text-foreground transition-colors"
+              title="Stop after the current step"
+            >
+              <Pause className="w-3 h-3" />
+              Pause
+            </button>
+          )}
+          {status === "paused" && (
+            <button
+              onClick={onResume}
+              className="flex items-center gap-1 px-2.5 py-1 rounded-md bg-cyan-500/10 border border-cyan-500/30 text-cyan-400 text-[10px] font-mono font-semibold hover:bg-cyan-500/20 transition-colors"
+            >
+              {currentStep?.status === "failed" ? <RotateCcw className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+              {currentStep?.status === "failed" ? "Retry" : "Resume"}
+            </button>
+          )}
+          <button
+            onClick={() => setExpanded((v) => !v)}
+            className="p-1 rounded-md text-muted-foreground hover:text-foreground hover:bg-secondary transition-colors"
+            title={expanded ? "Hide steps" : "Show steps"}
+          >
+            {expanded ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+          </button>
+          {status !== "running" && (
+            <button
+              onClick={onClose}
+              className="p-1 rounded-md text-muted-foreground hover:text-foreground hover:bg-secondary transition-colors"
+              title="Close the pipeline — generated documents stay"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Progress bar */}
+      <div className="w-full h-1.5 rounded-full bg-secondary overflow-hidden">
+        <motion.div
+          initial={{ width: 0 }}
+          animate={{ width: `${pct}%` }}
+          transition={{ duration: 0.4, ease: "easeOut" }}
+          className={cn("h-full rounded-full", status === "done" ? "bg-green-400" : "bg-cyan-400")}
+        />
+      </div>
+
+      {/* Status text */}
+      <p className={cn("text-[10px] font-mono mt-1", status === "paused" && pipeline.note ? "text-amber-400" : "text-muted-foreground")}>
+        {statusText}
+      </p>
+
+      {/* Steps */}
+      {expanded && (
+        <div className="mt-2 grid grid-cols-2 gap-x-3 gap-y-0.5 text-[11px] font-mono">
+          {steps.map((step, i) => {
+            const skipLabel = status === "done" ? null : SKIP_LABEL[step.status];
+            return (
+              <div key={step.docType} className="group flex items-center gap-1.5 min-w-0 py-0.5">
+                <StepIcon status={step.status} />
+                <button
+                  onClick={() => onSelectDoc(step.docType)}
+                  disabled={step.status !== "done"}
+                  className={cn(
+                    "truncate text-left disabled:cursor-default",
+                    i === current ? "text-foreground" : "text-muted-foreground",
+                    step.status === "skipped" && "line-through",
+                    step.status === "done" && "hover:text-cyan-400"
+                  )}
+                  title={step.error ?? step.docType}
+                >
+                  {step.docType}
+                </button>
+                {skipLabel && (
+                  <button
+                    onClick={() => onToggleSkip(i)}
+                    className="ml-auto flex-shrink-0 text-[10px] text-muted-foreground opacity-0 group-hover:opacity-100 hover:text-foreground transition-opacity"
+                  >
+                    {skipLabel}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </motion.div>
+  );
+}
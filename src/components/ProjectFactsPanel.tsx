@@ -0,0 +1,173 @@
+"use client";
+
+import { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, Check, Trash2, Plus, MessageSquare } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ProjectFact } from "@/lib/facts";
+import type { ChatMessage } from "@/lib/storage";
+
+interface ProjectFactsPanelProps {
+  open: boolean;
+  facts: ProjectFact[];
+  // Every message of the session, to show where a fact came from
+  messages: ChatMessage[];
+  onClose: () => void;
+  onUpdate: (facts: ProjectFact[]) => void;
+}
+
+export function ProjectFactsPanel({ open, facts, messages, onClose, onUpdate }: ProjectFactsPanelProps) {
+  const [newKey, setNewKey] = useState("");
+  const [newValue, setNewValue] = useState("");
+  const confirmedCount = facts.filter((f) => f.confirmed).length;
+
+  // Editing a fact by hand confirms it
+  const updateFact = (id: string, patch: Partial<ProjectFact>) => {
+    onUpdate(facts.map((f) => (f.id === id ? { ...f, confirmed: true, ...patch, updatedAt: Date.now() } : f)));
+  };
+
+  const addFact = () => {
+    if (!newKey.trim() || !newValue.trim()) return;
+    onUpdate([
+      ...facts,
+      { id: crypto.randomUUID(), key: newKey.trim(), value: newValue.trim(), confirmed: true, updatedAt: Date.now() },
+    ]);
+    setNewKey("");
+    setNewValue("");
+  };
+
+  const sourceOf = (fact: ProjectFact) => messages.find((m) => m.id === fact.sourceMessageId)?.content;
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-40"
+            onClick={onClose}
+          />
+          {/* Panel */}
+          <motion.div
+            initial={{ x: "100%" }}
+            animate={{ x: 0 }}
+            exit={{ x: "100%" }}
+            transition={{ type: "spring", damping: 25, stiffness: 300 }}
+            className="fixed right-0 top-0 bottom-0 w-full max-w-lg bg-[#0d1117] border-l border-border z-50 flex flex-col"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between px-6 py-4 border-b border-border">
+              <div>
+                <h2 className="font-mono font-bold text-foreground">Project Facts</h2>
+                <p className="text-xs text-muted-foreground mt-0.5">
+                  Settled answers sent with every request · {confirmedCount}/{facts.length} confirmed
+                </p>
+              </div>
+              <button
+                onClick={onClose}
+                className="p-1.5 rounded-lg hover:bg-secondary text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+
+            {/* Content */}
+            <div className="flex-1 overflow-y-auto px-6 py-4 space-y-3">
+              {facts.length === 0 && (
+                <p className="text-xs text-muted-foreground text-center py-8">
+                  No facts yet — answers from guided interviews show up here, or add one below.
+                </p>
+              )}
+              {facts.map((fact) => {
+                const source = sourceOf(fact);
+                return (
+                  <div
+                    key={fact.id}
+                    className={cn(
+                      "rounded-xl border p-3 space-y-1.5",
+                      fact.confirmed ? "border-emerald-500/20 bg-emerald-500/[0.03]" : "border-border bg-secondary/30"
+                    )}
+                  >
+                    <div className="flex items-center gap-2">
+                      <input
+                        value={fact.key}
+                        onChange={(e) => updateFact(fact.id, { key: e.target.value })}
+                        className="flex-1 min-w-0 bg-transparent font-mono text-sm font-semibold text-foreground outline-none"
+                      />
+                      <button
+                        onClick={() => updateFact(fact.id, { confirmed: !fact.confirmed })}
+                        className={cn(
+                          "flex items-center gap-1 px-2 py-0.5 rounded-md border text-[10px] font-mono transition-colors",
+                          fact.confirmed
+                            ? "bg-emerald-500/10 border-emerald-500/30 text-emerald-400"
+                            : "bg-secondary border-border text-muted-foreground hover:text-foreground"
+                        )}
+                        title={fact.confirmed ? "Let interviews update this fact again" : "Keep this value — interviews will not change it"}
+                      >
+                        <Check className="w-3 h-3" />
+                        {fact.confirmed ? "Confirmed" : "Confirm"}
+                      </button>
+                      <button
+                        onClick={() => onUpdate(facts.filter((f) => f.id !== fact.id))}
+                        className="p-1 rounded-md text-muted-foreground hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                        title="Delete fact"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                    <textarea
+                      value={fact.value}
+                      onChange={(e) => updateFact(fact.id, { value: e.target.value })}
+                      rows={2}
+                      className="w-full bg-[#161b22] border border-border rounded-lg px-2.5 py-1.5 text-xs text-foreground outline-none focus:border-cyan-500/50 resize-y"
+                    />
+                    <p className="flex items-center gap-1 text-[10px] font-mono text-muted-foreground truncate" title={source}>
+                      {fact.sourceMessageId ? (
+                        <>
+                          <MessageSquare className="w-2.5 h-2.5 flex-shrink-0" />
+                          {source ? `“${source}”` : "from a guided interview (message no longer kept)"}
+                        </>
+                      ) : (
+                        "added by hand"
+                      )}
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Add a fact */}
+            <div className="px-6 py-4 border-t border-border space-y-2">
+              <input
+                value={newKey}
+                onChange={(e) => setNewKey(e.target.value)}
+                placeholder="Fact, e.g. Target platform"
+                className="w-full bg-[#161b22] border border-border rounded-lg px-2.5 py-1.5 text-xs font-mono text-foreground outline-none focus:border-cyan-500/50"
+              />
+              <div className="flex items-center gap-2">
+                <input
+                  value={newValue}
+                  onChange={(e) => setNewValue(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && addFact()}
+                  placeholder="Value, e.g. iOS and Android"
+                  className="flex-1 min-w-0 bg-[#161b22] border border-border rounded-lg px-2.5 py-1.5 text-xs text-foreground outline-none focus:border-cyan-500/50"
+                />
+                <button
+                  onClick={addFact}
+                  disabled={!newKey.trim() || !newValue.trim()}
+                  className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-cyan-500/10 border border-cyan-500/30 text-cyan-400 text-xs font-mono hover:bg-cyan-500/20 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                >
+                  <Plus className="w-3.5 h-3.5" />
+                  Add
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
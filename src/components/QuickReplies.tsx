@@ -0,0 +1,92 @@
+"use client";
+
+import { useState } from "react";
+import { Check, Send } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatQuickReply, type QuickReplies as QuickRepliesOptions } from "@/lib/choices";
+
+interface QuickRepliesProps {
+  choices: QuickRepliesOptions;
+  onReply: (text: string) => void;
+}
+
+const CHIP = "px-2.5 py-1 rounded-full border text-[11px] font-mono transition-colors";
+
+export function QuickReplies({ choices, onReply }: QuickRepliesProps) {
+  const [picked, setPicked] = useState<string[]>([]);
+  const [otherOpen, setOtherOpen] = useState(false);
+  const [other, setOther] = useState("");
+  const multi = choices.mode === "multi";
+  const canSend = picked.length > 0 || other.trim() !== "";
+
+  const handlePick = (option: string) => {
+    if (!multi) {
+      onReply(option);
+      return;
+    }
+    setPicked((prev) => (prev.includes(option) ? prev.filter((o) => o !== option) : [...prev, option]));
+  };
+
+  const send = () => {
+    if (canSend) onReply(formatQuickReply(picked, other));
+  };
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="flex flex-wrap gap-1.5">
+        {choices.options.map((option) => {
+          const isPicked = picked.includes(option);
+          return (
+            <button
+              key={option}
+              onClick={() => handlePick(option)}
+              className={cn(
+                CHIP,
+                "flex items-center gap-1",
+                isPicked
+                  ? "bg-cyan-500/15 border-cyan-500/40 text-cyan-300"
+                  : "bg-cyan-500/5 border-cyan-500/20 text-cyan-400 hover:bg-cyan-500/15"
+              )}
+            >
+              {isPicked && <Check className="w-3 h-3" />}
+              {option}
+            </button>
+          );
+        })}
+        {choices.other && !otherOpen && (
+          <button
+            onClick={() => setOtherOpen(true)}
+            className={cn(CHIP, "bg-secondary/50 border-border text-muted-foreground hover:text-foreground")}
+          >
+            Other…
+          </button>
+        )}
+      </div>
+      {(otherOpen || multi) && (
+        <div className="flex items-center gap-1.5">
+          {otherOpen && (
+            <input
+              value={other}
+              onChange={(e) => setOther(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") send();
+                if (e.key === "Escape") setOtherOpen(false);
+              }}
+              autoFocus
+              placeholder={multi ? "Add your own answer…" : "Your answer…"}
+              className="flex-1 min-w-0 px-2.5 py-1 rounded-lg bg-transparent border border-border text-xs outline-none focus:border-cyan-500/30"
+            />
+          )}
+          <button
+            onClick={send}
+            disabled={!canSend}
+            className="flex items-center gap-1 ml-auto px-2.5 py-1 rounded-md bg-cyan-500/10 border border-cyan-500/30 text-cyan-400 text-[10px] font-mono hover:bg-cyan-500/20 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+          >
+            <Send className="w-3 h-3" />
+            Send{multi && picked.length > 0 && ` (${picked.length + (other.trim() ? 1 : 0)})`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,7 +4,9 @@ import { motion } from "framer-motion";
 import { FileText, Clock, Trash2, ChevronRight } from "lucide-react";
 import { Session } from "@/lib/storage";
 import { formatDate, truncate } from "@/lib/utils";
+import { formatCost, sumUsage } from "@/lib/usage";
 import { DOCUMENT_LABELS } from "@/lib/constants";
+import { activePath } from "@/lib/branches";
 
 
 interface SessionCardProps {
@@ -25,9 +27,10 @@ const DOC_TYPE_COLORS: Record<string, string> = {
 
 export function SessionCard({ session, onOpen, onDelete }: SessionCardProps) {
   const docCount = Object.keys(session.documents).length;
-  const msgCount = session.messages.length;
+  const msgCount = activePath(session.messages, session.activeLeafId).length;
   const label = DOCUMENT_LABELS[session.instructionKey] ?? session.instructionKey;
   const colorClass = DOC_TYPE_COLORS[session.instructionKey] ?? "text-cyan-400 bg-cyan-400/10";
+  const usage = sumUsage(session.usageLog ?? []);
 
   return (
     <motion.div
@@ -73,6 +76,11 @@ export function SessionCard({ session, onOpen, onDelete }: SessionCardProps) {
             {docCount > 0 && (
               <span className="text-cyan-500">{docCount} doc{docCount > 1 ? "s" : ""} generated</span>
             )}
+            {usage.requests > 0 && (
+              <span title={`${usage.requests} LLM requests`}>
+                ≈ {formatCost(usage.cost)}{usage.unpriced > 0 && "+"}
+              </span>
+            )}
           </div>
         </div>
 
@@ -5,23 +5,45 @@ import { motion, AnimatePresence } from "framer-motion";
 import { X, RotateCcw, Check, Pencil } from "lucide-react";
 import {
   DEFAULT_DOC_DEFINITIONS,
-  COLOR_MAP,
   type DocDefinition,
 } from "@/lib/doc-definitions";
 import { cn } from "@/lib/utils";
+import {
+  TASK_TYPES,
+  PROVIDER_OPTIONS,
+  type ModelRouting,
+  type TaskType,
+} from "@/lib/routing";
+import type { ProviderName } from "@/lib/llm/types";
+import { DocTypeEditor } from "./DocTypeEditor";
 
 interface SessionSettingsProps {
   open: boolean;
   customInstructions: Record<string, string>;
+  modelRouting: ModelRouting;
+  // Built-in and custom document types; the custom ones come from the two lists below
+  definitions?: DocDefinition[];
+  sessionDocTypes?: DocDefinition[];
+  globalDocTypes?: DocDefinition[];
   onClose: () => void;
   onUpdate: (customInstructions: Record<string, string>) => void;
+  onRoutingUpdate: (modelRouting: ModelRouting) => void;
+  onSessionDocTypesUpdate?: (types: DocDefinition[]) => void;
+  onGlobalDocTypesUpdate?: (types: DocDefinition[]) => void;
 }
 
 export function SessionSettings({
   open,
   customInstructions,
+  modelRouting,
+  definitions = DEFAULT_DOC_DEFINITIONS,
+  sessionDocTypes = [],
+  globalDocTypes = [],
   onClose,
   onUpdate,
+  onRoutingUpdate,
+  onSessionDocTypesUpdate,
+  onGlobalDocTypesUpdate,
 }: SessionSettingsProps) {
   const [editingKey, setEditingKey] = useState<string | null>(null);
   const [editValue, setEditValue] = useState("");
@@ -33,7 +55,7 @@ export function SessionSettings({
 
   const saveEdit = () => {
     if (!editingKey) return;
-    const def = DEFAULT_DOC_DEFINITIONS.find((d) => d.docKey === editingKey);
+    const def = definitions.find((d) => d.docKey === editingKey);
     if (!def) return;
 
     const next = { ...customInstructions };
@@ -54,6 +76,14 @@ export function SessionSettings({
     if (editingKey === docKey) setEditingKey(null);
   };
 
+  // Choosing "YAML default" drops the override entirely
+  const updateRoute = (task: TaskType, provider: ProviderName | "", model: string) => {
+    const next = { ...modelRouting };
+    if (!provider) delete next[task];
+    else next[task] = { provider, ...(model.trim() && { model: model.trim() }) };
+    onRoutingUpdate(next);
+  };
+
   const resetAll = () => {
     onUpdate({});
     setEditingKey(null);
@@ -86,7 +116,7 @@ export function SessionSettings({
                   Session Settings
                 </h2>
                 <p className="text-xs text-muted-foreground mt-0.5">
-                  Customize document generation instructions
+                  Customize models and document generation instructions
                 </p>
               </div>
               <button
@@ -99,7 +129,53 @@ export function SessionSettings({
 
             {/* Content */}
             <div className="flex-1 overflow-y-auto px-6 py-4 space-y-3">
-              {DEFAULT_DOC_DEFINITIONS.map((def) => {
+              {/* Model routing */}
+              <div className="rounded-xl border border-border bg-secondary/30 p-4 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="font-mono text-sm font-semibold text-foreground">Model Routing</span>
+                  <span className="text-[10px] font-mono text-muted-foreground">unset tasks use the YAML defaults</span>
+                </div>
+                {TASK_TYPES.map(({ task, label, description }) => {
+                  const route = modelRouting[task];
+                  return (
+                    <div key={task} className="flex items-center gap-2">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-xs font-mono text-foreground">{label}</p>
+                        <p className="text-[10px] text-muted-foreground truncate">{description}</p>
+                      </div>
+                      <select
+                        value={route?.provider ?? ""}
+                        onChange={(e) => updateRoute(task, e.target.value as ProviderName | "", "")}
+                        className="bg-[#161b22] border border-border rounded-md px-2 py-1 text-xs font-mono text-foreground outline-none focus:border-cyan-500/50"
+                      >
+                        <option value="">YAML default</option>
+                        {PROVIDER_OPTIONS.map((p) => (
+                          <option key={p} value={p}>{p}</option>
+                        ))}
+                      </select>
+                      <input
+                        value={route?.model ?? ""}
+                        disabled={!route?.provider}
+                        onChange={(e) => route?.provider && updateRoute(task, route.provider, e.target.value)}
+                        placeholder={route?.provider ? "provider default" : "—"}
+                        className="w-40 bg-[#161b22] border border-border rounded-md px-2 py-1 text-xs font-mono text-foreground outline-none focus:border-cyan-500/50 disabled:opacity-40"
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+
+              {onSessionDocTypesUpdate && onGlobalDocTypesUpdate && (
+                <DocTypeEditor
+                  definitions={definitions}
+                  sessionTypes={sessionDocTypes}
+                  globalTypes={globalDocTypes}
+                  onSessionUpdate={onSessionDocTypesUpdate}
+                  onGlobalUpdate={onGlobalDocTypesUpdate}
+                />
+              )}
+
+              {definitions.map((def) => {
                 const isCustom = def.docKey in customInstructions;
                 const isEditing = editingKey === def.docKey;
                 const currentInstruction =
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useRef, useCallback } from "react";
+import { useState, useRef, useCallback, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   ShieldCheck,
@@ -21,19 +21,18 @@ import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import { cn } from "@/lib/utils";
 import { parseDocumentBlocks } from "@/lib/utils";
+import { describeStreamError, type StreamError } from "@/lib/llm/errors";
+import type { UsageEntry } from "@/lib/storage";
+import { formatTokens } from "@/lib/tokens";
+import { estimateCost, formatCost, mergeUsage, type UsageRecord } from "@/lib/usage";
+import type { ModelRouting } from "@/lib/routing";
+import { toDecisionPayload, type DecisionRecord } from "@/lib/decisions";
+import { DEFAULT_DOC_DEFINITIONS, toDocTypePayload, type DocDefinition } from "@/lib/doc-definitions";
+import { renderVerifierReport, type VerifierIssue, type VerifierReport } from "@/lib/verifier-report";
+import { readEvents } from "@/lib/stream-events";
 
 // ── Types ──
-export interface VerifierIssue {
-  id: string;
-  severity: "critical" | "warning" | "info";
-  type: string;
-  title: string;
-  description: string;
-  affectedDocs: string[];
-  evidence: { doc: string; quote: string }[];
-  fix: string;
-  targetDoc: string;
-}
+export type { VerifierIssue } from "@/lib/verifier-report";
 
 export type VerifierPhase = "idle" | "verifying" | "ready" | "harmonizing" | "done";
 
@@ -44,6 +43,18 @@ export interface VerifierState {
   dismissed: string[];
   applied: string[];
   rawReport: string;
+  // Set when the last run failed — the issue list is then unknown, not empty
+  error?: StreamError;
+  // Set when the report was replayed from the server-side response cache
+  cachedAt?: number;
+  // Tokens the last verify run consumed
+  usage?: UsageRecord;
+}
+
+// A run requested from outside the panel (the /verify and /harmonize commands)
+export interface VerifierCommand {
+  id: string;
+  action: "verify" | "harmonize";
 }
 
 export const INITIAL_VERIFIER_STATE: VerifierState = {
@@ -66,6 +77,14 @@ interface VerifierPanelProps {
     source: "generated" | "edited" | "harmonized"
   ) => void;
   onReportReady?: (report: string) => void;
+  onUsage?: (entry: UsageEntry) => void;
+  modelRouting?: ModelRouting;
+  // Accepted records are sent along; documents that contradict them are flagged
+  decisions?: DecisionRecord[];
+  // Custom types count towards the suite and are checked against their instruction
+  docDefinitions?: DocDefinition[];
+  command?: VerifierCommand | null;
+  onCommandHandled?: () => void;
 }
 
 // ── Helpers ──
@@ -102,19 +121,22 @@ function severityBadge(severity: string) {
   }
 }
 
-function parseIssuesFromResponse(text: string): VerifierIssue[] {
-  const match = text.match(/~~~issues\s*\n([\s\S]*?)~~~/);
-  if (!match) return [];
-  try {
-    return JSON.parse(match[1]);
-  } catch {
-    return [];
+// Corrected documents from a harmonize response — doc events, or markers in
+// the text for responses recorded before the route split them out
+async function readHarmonized(body: ReadableStream<Uint8Array>) {
+  let text = "";
+  let usage: UsageRecord | undefined;
+  const streamed: Record<string, string> = {};
+  // Cut-off documents (no doc_end) are never applied
+  const ended: Record<string, string> = {};
+  for await (const event of readEvents(body)) {
+    if (event.type === "text") text += event.text;
+    if (event.type === "doc_delta") streamed[event.docType] = (streamed[event.docType] ?? "") + event.text;
+    if (event.type === "doc_end" && streamed[event.docType]?.trim()) ended[event.docType] = streamed[event.docType].trim();
+    if (event.type === "usage") usage = event.usage;
   }
-}
-
-function parseSummaryFromResponse(text: string): string {
-  const match = text.match(/~~~summary\s*\n([\s\S]*?)~~~/);
-  return match ? match[1].trim() : "";
+  const documents = { ...parseDocumentBlocks(text).documents, ...ended };
+  return { documents, usage };
 }
 
 // ── Issue Card ──
@@ -297,6 +319,12 @@ export function VerifierPanel({
   onNavigateToDoc,
   onSnapshotVersions,
   onReportReady,
+  onUsage,
+  modelRouting,
+  decisions = [],
+  docDefinitions = DEFAULT_DOC_DEFINITIONS,
+  command,
+  onCommandHandled,
 }: VerifierPanelProps) {
   // Controlled state from parent — survives tab switches
   const { phase, issues, summary } = verifierState;
@@ -315,10 +343,16 @@ export function VerifierPanel({
     onVerifierStateChange({ ...verifierState, ...patch });
   };
 
+  // Cache hits replay the original usage event but cost nothing
+  const recordUsage = (usage: UsageRecord | undefined, source: UsageEntry["source"], cached: boolean) => {
+    if (!usage || cached) return;
+    onUsage?.({ ...usage, id: crypto.randomUUID(), timestamp: Date.now(), source });
+  };
+
   // ── VERIFY ──
-  const runVerify = useCallback(async () => {
+  const runVerify = useCallback(async (bypassCache = false) => {
     if (docCount < 2) return;
-    updateState({ phase: "verifying", issues: [], summary: "", dismissed: [], applied: [], rawReport: "" });
+    updateState({ phase: "verifying", issues: [], summary: "", dismissed: [], applied: [], rawReport: "", error: undefined, cachedAt: undefined, usage: undefined });
     setStreamingText("");
 
     const controller = new AbortController();
@@ -328,54 +362,66 @@ export function VerifierPanel({
       const res = await fetch("/api/verify", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ documents, mode: "verify" }),
+        body: JSON.stringify({ documents, mode: "verify", bypassCache, routing: modelRouting, decisions: toDecisionPayload(decisions), customDocTypes: toDocTypePayload(docDefinitions) }),
         signal: controller.signal,
       });
 
       if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const cachedAt = res.headers.get("X-Cache") === "HIT"
+        ? Number(res.headers.get("X-Cache-Created")) || Date.now()
+        : undefined;
 
-      const reader = res.body?.getReader();
-      const decoder = new TextDecoder();
       let full = "";
-
-      if (reader) {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          const chunk = decoder.decode(value, { stream: true });
-          for (const line of chunk.split("\n")) {
-            if (line.startsWith("data: ")) {
-              const data = line.slice(6);
-              if (data === "[DONE]") break;
-              try {
-                const parsed = JSON.parse(data);
-                if (parsed.text) {
-                  full += parsed.text;
-                  setStreamingText(full);
-                }
-              } catch {
-                /* ignore */
-              }
-            }
+      let streamError: StreamError | undefined;
+      // One record per attempt — a re-ask is billed on its own
+      const usages: UsageRecord[] = [];
+      let report: VerifierReport | undefined;
+
+      if (res.body) {
+        for await (const event of readEvents(res.body)) {
+          if (event.type === "text") {
+            full += event.text;
+            setStreamingText(full);
           }
+          if (event.type === "error") streamError = event.error;
+          if (event.type === "usage") usages.push(event.usage);
+          if (event.type === "report") report = event.report;
         }
       }
 
-      const parsedIssues = parseIssuesFromResponse(full);
-      const parsedSummary = parseSummaryFromResponse(full);
-      updateState({ phase: "ready", issues: parsedIssues, summary: parsedSummary, rawReport: full });
-      onReportReady?.(full);
+      for (const record of usages) recordUsage(record, "verify", cachedAt !== undefined);
+      const usage = mergeUsage(usages);
+
+      // A failed run must not be mistaken for a clean suite — and the route only
+      // sends a report once it validates, so a run without one failed too
+      if (streamError || !report) {
+        updateState({
+          phase: "ready",
+          summary: "",
+          rawReport: "",
+          error: streamError ?? { kind: "invalid_output", message: "The verifier response contained no report.", retryable: true },
+          usage,
+        });
+        return;
+      }
+
+      const rawReport = renderVerifierReport(report);
+      updateState({ phase: "ready", issues: report.issues, summary: report.summary, rawReport, cachedAt, usage });
+      onReportReady?.(rawReport);
     } catch (err: unknown) {
       if (err instanceof Error && err.name === "AbortError") {
         updateState({ phase: "idle" });
       } else {
-        updateState({ phase: "ready", summary: "⚠️ Verification failed. Please try again." });
+        updateState({
+          phase: "ready",
+          error: { kind: "network", message: err instanceof Error ? err.message : String(err), retryable: true },
+        });
       }
     } finally {
       abortRef.current = null;
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [documents, docCount]);
+  }, [documents, docCount, modelRouting, decisions, docDefinitions]);
 
   // ── APPLY SINGLE FIX ──
   const applySingleFix = useCallback(
@@ -392,36 +438,20 @@ export function VerifierPanel({
             documents,
             mode: "harmonize",
             report: `Fix the following issue:\n\nID: ${issue.id}\nTitle: ${issue.title}\nTarget Document: ${issue.targetDoc}\nFix: ${issue.fix}\nDescription: ${issue.description}`,
+            routing: modelRouting,
+            decisions: toDecisionPayload(decisions),
+            customDocTypes: toDocTypePayload(docDefinitions),
           }),
         });
 
         if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const cached = res.headers.get("X-Cache") === "HIT";
 
-        const reader = res.body?.getReader();
-        const decoder = new TextDecoder();
-        let full = "";
-
-        if (reader) {
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-            const chunk = decoder.decode(value, { stream: true });
-            for (const line of chunk.split("\n")) {
-              if (line.startsWith("data: ")) {
-                const data = line.slice(6);
-                if (data === "[DONE]") break;
-                try {
-                  const parsed = JSON.parse(data);
-                  if (parsed.text) full += parsed.text;
-                } catch {
-                  /* ignore */
-                }
-              }
-            }
-          }
-        }
+        const { documents: correctedDocs, usage } = res.body
+          ? await readHarmonized(res.body)
+          : { documents: {}, usage: undefined };
+        recordUsage(usage, "harmonize", cached);
 
-        const { documents: correctedDocs } = parseDocumentBlocks(full);
         if (Object.keys(correctedDocs).length > 0) {
           onDocumentsUpdate(correctedDocs);
         }
@@ -433,7 +463,7 @@ export function VerifierPanel({
       }
     },
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    [documents, onDocumentsUpdate, onSnapshotVersions, verifierState]
+    [documents, onDocumentsUpdate, onSnapshotVersions, verifierState, modelRouting, decisions, docDefinitions]
   );
 
   // ── APPLY ALL FIXES ──
@@ -463,36 +493,20 @@ export function VerifierPanel({
           documents,
           mode: "harmonize",
           report: `Fix ALL of the following issues:\n\n${issuesText}`,
+          routing: modelRouting,
+          decisions: toDecisionPayload(decisions),
+          customDocTypes: toDocTypePayload(docDefinitions),
         }),
       });
 
       if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const cached = res.headers.get("X-Cache") === "HIT";
 
-      const reader = res.body?.getReader();
-      const decoder = new TextDecoder();
-      let full = "";
-
-      if (reader) {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          const chunk = decoder.decode(value, { stream: true });
-          for (const line of chunk.split("\n")) {
-            if (line.startsWith("data: ")) {
-              const data = line.slice(6);
-              if (data === "[DONE]") break;
-              try {
-                const parsed = JSON.parse(data);
-                if (parsed.text) full += parsed.text;
-              } catch {
-                /* ignore */
-              }
-            }
-          }
-        }
-      }
+      const { documents: correctedDocs, usage } = res.body
+        ? await readHarmonized(res.body)
+        : { documents: {}, usage: undefined };
+      recordUsage(usage, "harmonize", cached);
 
-      const { documents: correctedDocs } = parseDocumentBlocks(full);
       if (Object.keys(correctedDocs).length > 0) {
         onDocumentsUpdate(correctedDocs);
       }
@@ -504,7 +518,16 @@ export function VerifierPanel({
       updateState({ phase: "ready" });
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [issues, dismissed, applied, documents, onDocumentsUpdate, onSnapshotVersions, verifierState]);
+  }, [issues, dismissed, applied, documents, onDocumentsUpdate, onSnapshotVersions, verifierState, modelRouting, decisions, docDefinitions]);
+
+  // Run a requested command once, then clear it so remounting does not repeat it
+  useEffect(() => {
+    if (!command) return;
+    onCommandHandled?.();
+    if (command.action === "verify") runVerify();
+    else applyAllFixes();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [command?.id]);
 
   // ── Counts ──
   const counts = {
@@ -513,20 +536,25 @@ export function VerifierPanel({
     info: issues.filter((i) => i.severity === "info").length,
   };
 
+  const lastRunCost = verifierState.usage ? estimateCost(verifierState.usage) : null;
+
   const entropyScore =
-    counts.critical > 0
-      ? "CRITICAL"
-      : counts.warning > 2
-        ? "HIGH"
-        : counts.warning > 0
-          ? "MEDIUM"
-          : "LOW";
+    verifierState.error
+      ? "UNKNOWN"
+      : counts.critical > 0
+        ? "CRITICAL"
+        : counts.warning > 2
+          ? "HIGH"
+          : counts.warning > 0
+            ? "MEDIUM"
+            : "LOW";
 
   const entropyColor = {
     CRITICAL: "text-red-400 bg-red-500/10 border-red-500/20",
     HIGH: "text-orange-400 bg-orange-500/10 border-orange-500/20",
     MEDIUM: "text-yellow-400 bg-yellow-500/10 border-yellow-500/20",
     LOW: "text-emerald-400 bg-emerald-500/10 border-emerald-500/20",
+    UNKNOWN: "text-muted-foreground bg-secondary/50 border-border",
   }[entropyScore];
 
   return (
@@ -550,7 +578,7 @@ export function VerifierPanel({
             </p>
           ) : (
             <motion.button
-              onClick={runVerify}
+              onClick={() => runVerify()}
               whileHover={{ scale: 1.02 }}
               whileTap={{ scale: 0.98 }}
               className="flex items-center gap-2 px-5 py-2 rounded-lg bg-cyan-500 text-black font-mono font-semibold text-xs hover:bg-cyan-400 transition-colors shadow-lg shadow-cyan-500/20"
@@ -599,6 +627,31 @@ export function VerifierPanel({
                 <span className="text-xs font-mono font-semibold text-foreground">
                   Telemetry Report
                 </span>
+                {verifierState.cachedAt && phase === "ready" && (
+                  <>
+                    <span
+                      className="text-[10px] font-mono px-1.5 py-0.5 rounded bg-secondary/50 text-muted-foreground border border-border"
+                      title="Documents are unchanged since this run — the report was replayed from cache"
+                    >
+                      cached · {new Date(verifierState.cachedAt).toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit", hour12: false })}
+                    </span>
+                    <button
+                      onClick={() => runVerify(true)}
+                      className="text-[10px] font-mono text-cyan-400 hover:text-cyan-300"
+                    >
+                      Run fresh
+                    </button>
+                  </>
+                )}
+                {verifierState.usage && !verifierState.cachedAt && phase === "ready" && (
+                  <span
+                    className="text-[10px] font-mono text-muted-foreground/70"
+                    title={`${verifierState.usage.provider} · ${verifierState.usage.model}`}
+                  >
+                    {formatTokens(verifierState.usage.inputTokens + verifierState.usage.outputTokens)} tokens
+                    {lastRunCost !== null && ` · ${formatCost(lastRunCost)}`}
+                  </span>
+                )}
               </div>
               <span
                 className={cn(
@@ -627,7 +680,13 @@ export function VerifierPanel({
                   {counts.info} info
                 </span>
               )}
-              {issues.length === 0 && (
+              {verifierState.error && (
+                <span className="text-[10px] font-mono px-1.5 py-0.5 rounded bg-amber-500/10 text-amber-400 border border-amber-500/20 flex items-center gap-1">
+                  <AlertTriangle className="w-3 h-3" />
+                  Run failed
+                </span>
+              )}
+              {issues.length === 0 && !verifierState.error && (
                 <span className="text-[10px] font-mono px-1.5 py-0.5 rounded bg-emerald-500/10 text-emerald-400 border border-emerald-500/20 flex items-center gap-1">
                   <CheckCircle2 className="w-3 h-3" />
                   Homeostasis
@@ -641,6 +700,16 @@ export function VerifierPanel({
 
           {/* Issues List */}
           <div className="flex-1 overflow-y-auto p-3 space-y-2">
+            {/* Failed run */}
+            {verifierState.error && (
+              <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-500/5 border border-amber-500/20">
+                <AlertTriangle className="w-4 h-4 text-amber-400 flex-shrink-0" />
+                <span className="text-xs font-mono text-amber-400">
+                  ⚠️ {describeStreamError(verifierState.error)} Use Re-Verify to run it again.
+                </span>
+              </div>
+            )}
+
             {/* Cross-Reference Summary */}
             {summary && (
               <details className="group mb-2">
@@ -718,7 +787,7 @@ export function VerifierPanel({
                   onClick={() => {
                     updateState({ ...INITIAL_VERIFIER_STATE });
                     setStreamingText("");
-                    setTimeout(runVerify, 100);
+                    setTimeout(() => runVerify(), 100);
                   }}
                   whileHover={{ scale: 1.02 }}
                   whileTap={{ scale: 0.98 }}
@@ -0,0 +1,101 @@
+/**
+ * Chat attachments — client-safe.
+ * Files dropped into the chat are kept on the Session (text as text, images
+ * as base64) and travel with every /api/chat request while they are in
+ * context, as extra parts of the user message.
+ */
+
+import type { MessagePart } from "./llm/types";
+import { estimateTokens } from "./tokens";
+
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  kind: "text" | "image";
+  // File contents: the text itself, or base64 data for images
+  content: string;
+  size: number;
+  addedAt: number;
+  // Sent with chat requests; toggled in the attachments drawer
+  inContext: boolean;
+}
+
+// What the client sends for each attachment in context
+export type AttachmentPayload = Pick<Attachment, "name" | "mimeType" | "kind" | "content">;
+
+const TEXT_EXTENSIONS: Record<string, string> = {
+  md: "text/markdown",
+  markdown: "text/markdown",
+  txt: "text/plain",
+  json: "application/json",
+  yaml: "application/yaml",
+  yml: "application/yaml",
+  csv: "text/csv",
+};
+
+const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+// File input `accept` list
+export const ACCEPTED_ATTACHMENTS = [...Object.keys(TEXT_EXTENSIONS).map((ext) => `.${ext}`), ...IMAGE_TYPES].join(",");
+
+const MAX_TEXT_BYTES = 512 * 1024;
+const MAX_IMAGE_BYTES = 4 * 1024 * 1024;
+// Providers bill images by resolution; this is a typical figure for budgeting
+const IMAGE_TOKENS = 1_500;
+
+function readAsDataURL(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+/** Reads a dropped or picked file; returns an error message for unsupported or oversized files. */
+export async function readAttachment(file: File): Promise<Attachment | string> {
+  const ext = file.name.split(".").pop()?.toLowerCase() ?? "";
+  const base = { id: crypto.randomUUID(), name: file.name, size: file.size, addedAt: Date.now(), inContext: true };
+
+  if (IMAGE_TYPES.includes(file.type)) {
+    if (file.size > MAX_IMAGE_BYTES) return `${file.name} is larger than ${MAX_IMAGE_BYTES / 1024 / 1024} MB`;
+    const dataUrl = await readAsDataURL(file);
+    return { ...base, kind: "image", mimeType: file.type, content: dataUrl.slice(dataUrl.indexOf(",") + 1) };
+  }
+  if (ext in TEXT_EXTENSIONS) {
+    if (file.size > MAX_TEXT_BYTES) return `${file.name} is larger than ${MAX_TEXT_BYTES / 1024} KB`;
+    return { ...base, kind: "text", mimeType: TEXT_EXTENSIONS[ext], content: await file.text() };
+  }
+  return `${file.name}: only markdown, text, JSON, YAML, CSV and images can be attached`;
+}
+
+export function toPayload({ name, mimeType, kind, content }: Attachment): AttachmentPayload {
+  return { name, mimeType, kind, content };
+}
+
+/** Message parts for attachments from a request body; malformed entries are skipped. */
+export function toMessageParts(attachments: unknown): MessagePart[] {
+  if (!Array.isArray(attachments)) return [];
+  return attachments.flatMap((a): MessagePart[] => {
+    if (typeof a !== "object" || a === null || typeof a.name !== "string" || typeof a.content !== "string") return [];
+    if (a.kind === "image" && IMAGE_TYPES.includes(a.mimeType)) {
+      return [{ text: `Attached image: ${a.name}` }, { inlineData: { mimeType: a.mimeType, data: a.content } }];
+    }
+    if (a.kind === "text") {
+      return [{ text: `# ATTACHED FILE: ${a.name}\n\n~~~~\n${a.content}\n~~~~` }];
+    }
+    return [];
+  });
+}
+
+// Budget estimate for the parts of a request
+export function estimatePartTokens(parts: MessagePart[]): number {
+  return parts.reduce((sum, p) => sum + ("text" in p ? estimateTokens(p.text) : IMAGE_TOKENS), 0);
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
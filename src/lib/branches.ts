@@ -0,0 +1,268 @@
+/**
+ * Conversation branching — pure, client-safe.
+ * Session.messages holds every message of every branch, linked by
+ * parentId; the branch on screen is the path from the root to
+ * Session.activeLeafId. Messages saved before branching existed have no
+ * parentId and are linked to the message before them in the array.
+ * Documents — with their sources, patch conflicts and candidates — belong
+ * to a branch: leaving a branch parks them in Session.branchStates under its
+ * leaf, and switching back restores them. Session.docSnapshots records that
+ * state as it was before each user message, so a fork starts from the
+ * documents at the fork point rather than from where the old branch ended;
+ * snapshots share their texts through Session.snapshotTexts.
+ */
+
+import type { ChatMessage, Session } from "./storage";
+import { hashDoc } from "./dependencies";
+
+// Parent of the message at `index` — explicit link, else the legacy array order
+function parentOf(messages: ChatMessage[], index: number): string | null {
+  const { parentId } = messages[index];
+  if (parentId !== undefined) return parentId;
+  return index > 0 ? messages[index - 1].id : null;
+}
+
+function childrenIndex(messages: ChatMessage[]): Map<string | null, ChatMessage[]> {
+  const children = new Map<string | null, ChatMessage[]>();
+  messages.forEach((m, i) => {
+    const parent = parentOf(messages, i);
+    children.set(parent, [...(children.get(parent) ?? []), m]);
+  });
+  return children;
+}
+
+/** Root-to-leaf path ending at `leafId` (or the last message when unset or missing). */
+export function activePath(messages: ChatMessage[], leafId?: string): ChatMessage[] {
+  const indexById = new Map(messages.map((m, i) => [m.id, i]));
+  let index = leafId !== undefined && indexById.has(leafId) ? indexById.get(leafId)! : messages.length - 1;
+  const path: ChatMessage[] = [];
+  // Trimmed sessions can lose a parent — the path then starts at the orphan
+  while (index !== undefined && index >= 0 && path.length < messages.length) {
+    path.push(messages[index]);
+    const parent = parentOf(messages, index);
+    index = parent === null ? -1 : (indexById.get(parent) ?? -1);
+  }
+  return path.reverse();
+}
+
+/**
+ * Replaces the active path `oldPath` with `newPath`. Messages of the old path
+ * that the new one dropped are deleted (a retry replaces the failed turn)
+ * unless `fork` is set, in which case they stay behind as another branch.
+ */
+export function commitPath(
+  messages: ChatMessage[],
+  oldPath: ChatMessage[],
+  newPath: ChatMessage[],
+  fork = false
+): ChatMessage[] {
+  const linked = newPath.map((m, i) => ({ ...m, parentId: i > 0 ? newPath[i - 1].id : null }));
+  const newIds = new Set(linked.map((m) => m.id));
+  const dropped = fork ? new Set<string>() : new Set(oldPath.filter((m) => !newIds.has(m.id)).map((m) => m.id));
+  // A dropped message that other branches still hang off is kept (leaf first,
+  // so keeping a message also keeps its ancestors)
+  const children = childrenIndex(messages);
+  for (const id of [...dropped].reverse()) {
+    if ((children.get(id) ?? []).some((c) => !dropped.has(c.id) && !newIds.has(c.id))) dropped.delete(id);
+  }
+
+  // Keep every other message in place, pinning legacy parents before order changes
+  const kept = messages
+    .map((m, i) => (m.parentId === undefined ? { ...m, parentId: parentOf(messages, i) } : m))
+    .filter((m) => !newIds.has(m.id) && !dropped.has(m.id));
+  return [...kept, ...linked];
+}
+
+export interface BranchPoint {
+  // Position of the message among its siblings, and all sibling ids in creation order
+  index: number;
+  siblingIds: string[];
+}
+
+/** Messages on the path that have alternative siblings, keyed by message id. */
+export function branchPoints(messages: ChatMessage[], path: ChatMessage[]): Record<string, BranchPoint> {
+  const children = childrenIndex(messages);
+  const points: Record<string, BranchPoint> = {};
+  path.forEach((m, i) => {
+    const siblings = (children.get(i > 0 ? path[i - 1].id : null) ?? []).slice().sort((a, b) => a.timestamp - b.timestamp);
+    if (siblings.length > 1) {
+      points[m.id] = { index: siblings.findIndex((s) => s.id === m.id), siblingIds: siblings.map((s) => s.id) };
+    }
+  });
+  return points;
+}
+
+/** Most recently created leaf under (and including) `messageId`. */
+export function latestLeaf(messages: ChatMessage[], messageId: string): string {
+  const children = childrenIndex(messages);
+  let best = messages.find((m) => m.id === messageId);
+  const stack = [...(children.get(messageId) ?? [])];
+  while (stack.length > 0) {
+    const m = stack.pop()!;
+    const kids = children.get(m.id) ?? [];
+    if (kids.length === 0 && (!best || m.timestamp > best.timestamp)) best = m;
+    stack.push(...kids);
+  }
+  return best?.id ?? messageId;
+}
+
+/** Everything a branch owns besides its messages. */
+export type BranchState = Pick<Session, "documents" | "docSources" | "patchConflicts" | "candidateSets">;
+
+export function branchState(session: Session): BranchState {
+  const { documents, docSources, patchConflicts, candidateSets } = session;
+  return { documents, docSources, patchConflicts, candidateSets };
+}
+
+// Unset fields are spelled out so restoring a state also clears what the branch did not have
+function restore(state: BranchState): BranchState {
+  return {
+    documents: state.documents,
+    docSources: state.docSources,
+    patchConflicts: state.patchConflicts,
+    candidateSets: state.candidateSets,
+  };
+}
+
+/**
+ * A branch state stored by reference: document texts and the JSON of the
+ * other fields are keys into Session.snapshotTexts, where each distinct text
+ * is kept once however many snapshots share it.
+ */
+export interface DocSnapshot {
+  documents: Record<string, string>;
+  rest: string;
+}
+
+// Stores `text` in the pool, reusing the key of an identical text
+function intern(texts: Record<string, string>, text: string): string {
+  const base = hashDoc(text);
+  let key = base;
+  for (let n = 1; texts[key] !== undefined && texts[key] !== text; n++) key = `${base}-${n}`;
+  texts[key] = text;
+  return key;
+}
+
+function expand(snapshot: DocSnapshot, texts: Record<string, string>): BranchState | undefined {
+  const documents: Record<string, string> = {};
+  for (const [docType, key] of Object.entries(snapshot.documents)) {
+    if (texts[key] === undefined) return undefined;
+    documents[docType] = texts[key];
+  }
+  const rest = texts[snapshot.rest];
+  return rest === undefined ? undefined : { ...JSON.parse(rest), documents };
+}
+
+// Nearest snapshot at or above `messageId`
+function snapshotBefore(session: Session, messageId: string): DocSnapshot | undefined {
+  const path = activePath(session.messages, messageId);
+  if (path.at(-1)?.id !== messageId) return undefined;
+  for (let i = path.length - 1; i >= 0; i--) {
+    const snapshot = session.docSnapshots?.[path[i].id];
+    if (snapshot) return snapshot;
+  }
+  return undefined;
+}
+
+/**
+ * Branch state as it was just before `messageId` was sent: the snapshot of
+ * the nearest user message at or above it. Undefined for messages sent
+ * before snapshots were recorded.
+ */
+export function stateBefore(session: Session, messageId: string): BranchState | undefined {
+  const snapshot = snapshotBefore(session, messageId);
+  return snapshot && expand(snapshot, session.snapshotTexts ?? {});
+}
+
+/** Drops the snapshots of deleted messages and the texts no snapshot refers to any more. */
+export function pruneSnapshots(session: Session): Pick<Session, "docSnapshots" | "snapshotTexts"> {
+  const ids = new Set(session.messages.map((m) => m.id));
+  const docSnapshots = Object.fromEntries(Object.entries(session.docSnapshots ?? {}).filter(([id]) => ids.has(id)));
+  const used = new Set(Object.values(docSnapshots).flatMap((s) => [...Object.values(s.documents), s.rest]));
+  const snapshotTexts = Object.fromEntries(Object.entries(session.snapshotTexts ?? {}).filter(([key]) => used.has(key)));
+  return { docSnapshots, snapshotTexts };
+}
+
+// Snapshots for newly sent user messages, taken from the current state;
+// a state equal to the one before it is not stored again
+function recordSnapshots(session: Session, added: ChatMessage[]): Pick<Session, "docSnapshots" | "snapshotTexts"> {
+  const pruned = pruneSnapshots(session);
+  const docSnapshots = pruned.docSnapshots ?? {};
+  const snapshotTexts = pruned.snapshotTexts ?? {};
+  const { documents, ...rest } = branchState(session);
+  for (const m of added) {
+    if (m.role !== "user") continue;
+    const snapshot: DocSnapshot = {
+      documents: Object.fromEntries(Object.entries(documents).map(([docType, text]) => [docType, intern(snapshotTexts, text)])),
+      rest: intern(snapshotTexts, JSON.stringify(rest)),
+    };
+    const previous = snapshotBefore({ ...session, docSnapshots }, m.id);
+    if (JSON.stringify(previous) !== JSON.stringify(snapshot)) docSnapshots[m.id] = snapshot;
+  }
+  return pruneSnapshots({ ...session, docSnapshots, snapshotTexts });
+}
+
+/**
+ * At most `max` messages: the newest of the active branch first, then the
+ * newest of the others. Legacy parents are pinned first, since dropping
+ * messages would change the array order they rely on.
+ */
+export function trimMessages(messages: ChatMessage[], leafId: string | undefined, max: number): ChatMessage[] {
+  if (messages.length <= max) return messages;
+  const keep = new Set(activePath(messages, leafId).slice(-max).map((m) => m.id));
+  for (let i = messages.length - 1; i >= 0 && keep.size < max; i--) keep.add(messages[i].id);
+  return messages
+    .map((m, i) => (m.parentId === undefined ? { ...m, parentId: parentOf(messages, i) } : m))
+    .filter((m) => keep.has(m.id));
+}
+
+/**
+ * Session changes for replacing the active path with `path` (see commitPath).
+ * On a fork the old branch keeps its state under its leaf, and the new one
+ * starts from the state before the first message it replaced.
+ */
+export function commitBranch(session: Session, path: ChatMessage[], fork = false): Partial<Session> {
+  const oldPath = activePath(session.messages, session.activeLeafId);
+  const messages = commitPath(session.messages, oldPath, path, fork);
+  const changes: Partial<Session> = { messages, activeLeafId: path.at(-1)?.id };
+  const oldLeaf = oldPath.at(-1);
+  if (fork && oldLeaf) {
+    const newIds = new Set(path.map((m) => m.id));
+    const forkedAt = oldPath.find((m) => !newIds.has(m.id));
+    const start = forkedAt && stateBefore(session, forkedAt.id);
+    Object.assign(changes, start && restore(start), {
+      branchStates: { ...session.branchStates, [oldLeaf.id]: branchState(session) },
+      contextSummary: undefined,
+    });
+  }
+  const known = new Set(session.messages.map((m) => m.id));
+  const added = path.filter((m) => !known.has(m.id));
+  return { ...changes, ...recordSnapshots({ ...session, ...changes }, added) };
+}
+
+/**
+ * Session changes for making the branch through `messageId` active: its
+ * latest leaf becomes the active leaf and the branch state swaps with the
+ * one parked for that leaf. The compaction summary covered the old path, so
+ * it is dropped and rebuilt by the route when needed.
+ */
+export function switchBranch(session: Session, messageId: string): Partial<Session> {
+  const leafId = latestLeaf(session.messages, messageId);
+  const currentLeaf = activePath(session.messages, session.activeLeafId).at(-1)?.id;
+  if (leafId === currentLeaf) return {};
+  const branchStates = { ...session.branchStates };
+  const branchDocs = { ...session.branchDocs };
+  if (currentLeaf) branchStates[currentLeaf] = branchState(session);
+  // Sessions saved before branch states parked documents only
+  const legacy = branchDocs[leafId];
+  const parked = branchStates[leafId] ?? (legacy && { documents: legacy });
+  delete branchStates[leafId];
+  delete branchDocs[leafId];
+  return {
+    activeLeafId: leafId,
+    ...(parked && restore(parked)),
+    branchStates,
+    branchDocs,
+    contextSummary: undefined,
+  };
+}
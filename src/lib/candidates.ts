@@ -0,0 +1,92 @@
+/**
+ * Alternative document candidates — pure, client-safe.
+ * "Generate N candidates" runs the same document prompt several times and
+ * keeps the results in Session.candidateSets until the user picks one or
+ * merges sections from several; nothing reaches Session.documents before that.
+ */
+
+import { parseHeadings, parseSections } from "./sections";
+import type { UsageRecord } from "./usage";
+
+export const CANDIDATE_COUNTS = [1, 2, 3] as const;
+
+export interface DocCandidate {
+  id: string;
+  // Full document; empty when the generation failed
+  content: string;
+  // Why the candidate is missing or may be incomplete
+  error?: string;
+  usage?: UsageRecord;
+}
+
+export interface CandidateSet {
+  id: string;
+  docType: string;
+  candidates: DocCandidate[];
+  createdAt: number;
+}
+
+// ── Section merge ──
+
+export interface MergeRow {
+  // Normalized section title; "" is the title block and intro before the first section
+  key: string;
+  title: string;
+  // Section text per candidate index, for the candidates that have it
+  parts: Record<number, string>;
+}
+
+const normalize = (title: string) => title.replace(/\s+/g, " ").trim().toLowerCase();
+
+// Documents are split at the shallowest heading level that repeats, so a
+// single "# Title" heading stays in the intro and its "##" sections become rows
+function splitLevel(content: string): number {
+  const counts = new Map<number, number>();
+  for (const h of parseHeadings(content)) counts.set(h.level, (counts.get(h.level) ?? 0) + 1);
+  const repeated = [...counts].filter(([, n]) => n > 1).map(([level]) => level);
+  return repeated.length > 0 ? Math.min(...repeated) : Math.min(...counts.keys());
+}
+
+function splitDocument(content: string): { key: string; title: string; text: string }[] {
+  const level = splitLevel(content);
+  const sections = parseSections(content).filter((s) => s.level === level);
+  const intro = content.slice(0, sections[0]?.start ?? content.length).trim();
+  return [
+    ...(intro ? [{ key: "", title: "Title & intro", text: intro }] : []),
+    ...sections.map((s) => ({ key: normalize(s.title), title: s.title, text: content.slice(s.start, s.end).trim() })),
+  ];
+}
+
+/**
+ * Rows of the merge table: every section of every candidate, matched by
+ * title, in the first candidate's order; sections only later candidates
+ * have are placed after the row they follow there.
+ */
+export function mergeRows(contents: string[]): MergeRow[] {
+  const rows: MergeRow[] = [];
+  contents.forEach((content, index) => {
+    let after = -1;
+    for (const part of splitDocument(content)) {
+      let at = rows.findIndex((r) => r.key === part.key);
+      if (at === -1) {
+        at = after + 1;
+        rows.splice(at, 0, { key: part.key, title: part.title, parts: {} });
+      }
+      // A title repeated within one candidate keeps its first occurrence
+      rows[at].parts[index] ??= part.text;
+      after = at;
+    }
+  });
+  return rows;
+}
+
+/** Joins the picked candidate's text for each row; rows picked as null are left out. */
+export function mergeCandidates(rows: MergeRow[], picks: Record<string, number | null>): string {
+  return rows
+    .map((row) => {
+      const pick = row.key in picks ? picks[row.key] : Number(Object.keys(row.parts)[0]);
+      return pick === null ? "" : (row.parts[pick] ?? "");
+    })
+    .filter(Boolean)
+    .join("\n\n");
+}
@@ -0,0 +1,153 @@
+/**
+ * Function tools the chat model uses to write documents and request images —
+ * client-safe. The route declares CHAT_TOOLS to the provider; the client
+ * applies the resulting calls with applyToolCalls. The ~~~doc: / ~~~patch: /
+ * ~~~image: text markers stay supported for models without function calling.
+ */
+
+import type { ToolCall, ToolDefinition } from "./llm/types";
+import { applyDocPatches, parsePatchOps, type DocPatch, type PatchConflict } from "./patch";
+
+export const CHAT_TOOLS: ToolDefinition[] = [
+  {
+    name: "write_document",
+    description:
+      "Create a document or replace it entirely. Use for every new document and for full regenerations. `content` is the COMPLETE markdown document.",
+    parameters: {
+      type: "object",
+      properties: {
+        docType: { type: "string", description: 'Exact document type, e.g. "PRD", "Tech Spec", "API Spec"' },
+        content: { type: "string", description: "The full document in markdown" },
+      },
+      required: ["docType", "content"],
+    },
+  },
+  {
+    name: "update_section",
+    description:
+      "Replace one section of an existing document — the heading and everything under it up to the next heading of the same or higher level. Prefer this over write_document when only one section changes.",
+    parameters: {
+      type: "object",
+      properties: {
+        docType: { type: "string", description: "Exact type of an existing document" },
+        heading: { type: "string", description: "Title of the section to replace, as it appears in the document (without #)" },
+        content: { type: "string", description: "The new section in markdown, starting with its heading line" },
+      },
+      required: ["docType", "heading", "content"],
+    },
+  },
+  {
+    name: "patch_document",
+    description:
+      "Change part of an existing document with section-anchored operations. A section is a heading and everything under it up to the next heading of the same or higher level. Prefer this over write_document whenever most of the document stays as it is.",
+    parameters: {
+      type: "object",
+      properties: {
+        docType: { type: "string", description: "Exact type of an existing document" },
+        operations: {
+          type: "array",
+          description: "Applied in order, each against the result of the previous one",
+          items: {
+            type: "object",
+            properties: {
+              op: { type: "string", enum: ["replace", "insert_before", "insert_after", "delete"] },
+              section: {
+                type: "string",
+                description: 'Title of the anchor section as it appears in the document (without #); prefix parent titles with " > " if the title is not unique',
+              },
+              content: {
+                type: "string",
+                description: "replace: the new section, starting with its heading line. insert_*: the new markdown. delete: omit",
+              },
+            },
+            required: ["op", "section"],
+          },
+        },
+      },
+      required: ["docType", "operations"],
+    },
+  },
+  {
+    name: "generate_image",
+    description:
+      "Generate a diagram or visual (architecture, user flow, UI wireframe, data model) to show inline in the chat.",
+    parameters: {
+      type: "object",
+      properties: {
+        prompt: { type: "string", description: "Detailed description of what to visualize" },
+      },
+      required: ["prompt"],
+    },
+  },
+];
+
+export const TOOLS_INSTRUCTION = `# 🛠️ TOOLS
+
+You can call these functions: write_document, update_section, patch_document and generate_image. Use them INSTEAD of the ~~~doc:, ~~~patch: and ~~~image: markers:
+- write_document — a new document, or a full regeneration the user explicitly asked for
+- update_section — a change confined to one section of an existing document
+- patch_document — any other change to an existing document (several sections, inserts, deletions); only the sections you touch change, so the user's manual edits elsewhere survive
+- generate_image — any visual you would otherwise request with an image marker
+
+Write your conversational reply as normal text first, then make the calls. Never paste document content into the reply text as well. Only if these functions are unavailable to you, fall back to the markers described above.`;
+
+export interface ToolCallResult {
+  // Final content of every document the calls touched
+  documents: Record<string, string>;
+  // Documents written in full rather than patched
+  rewritten: string[];
+  imagePrompts: string[];
+  // Human-readable reasons for calls that could not be applied
+  failures: string[];
+  // Patch operations whose anchor could not be resolved
+  conflicts: PatchConflict[];
+}
+
+const str = (v: unknown) => (typeof v === "string" ? v : "");
+
+/** Applies calls in order against the current documents; later calls see earlier ones. */
+export function applyToolCalls(calls: ToolCall[], existingDocs: Record<string, string>): ToolCallResult {
+  const documents: Record<string, string> = {};
+  const rewritten: string[] = [];
+  const imagePrompts: string[] = [];
+  const failures: string[] = [];
+  const conflicts: PatchConflict[] = [];
+  const applyPatches = (patches: DocPatch[]) => {
+    const result = applyDocPatches(patches, { ...existingDocs, ...documents });
+    Object.assign(documents, result.documents);
+    conflicts.push(...result.conflicts);
+    failures.push(...result.failures);
+  };
+
+  for (const call of calls) {
+    const docType = str(call.args.docType).trim();
+    const content = str(call.args.content);
+    switch (call.name) {
+      case "write_document":
+        if (!docType || !content.trim()) failures.push("write_document: missing document type or content");
+        else {
+          documents[docType] = content.trim();
+          rewritten.push(docType);
+        }
+        break;
+      case "patch_document": {
+        const ops = parsePatchOps(call.args.operations);
+        if (typeof ops === "string") failures.push(`patch_document: ${ops}`);
+        else applyPatches([{ docType, ops }]);
+        break;
+      }
+      // Shorthand for a single replace operation
+      case "update_section":
+        applyPatches([{ docType, ops: [{ op: "replace", section: str(call.args.heading), content }] }]);
+        break;
+      case "generate_image": {
+        const prompt = str(call.args.prompt).trim();
+        if (prompt) imagePrompts.push(prompt);
+        break;
+      }
+      default:
+        failures.push(`${call.name}: unknown tool`);
+    }
+  }
+  return { documents, rewritten, imagePrompts, failures, conflicts };
+}
@@ -0,0 +1,50 @@
+/**
+ * Quick-reply options — client-safe.
+ * When the model asks a closed question it ends the reply with a ~~~choices
+ * block; the block is taken out of the reply text, kept on the message and
+ * rendered as clickable chips under it.
+ */
+
+export interface QuickReplies {
+  // "single" sends on click; "multi" collects picks until they are sent
+  mode: "single" | "multi";
+  options: string[];
+  // Offer a free-text "Other…" answer
+  other: boolean;
+}
+
+const MAX_OPTIONS = 8;
+
+// A complete block, or one still streaming (no closing fence yet)
+const CHOICES_BLOCK = /~~~choices[ \t]*\n([\s\S]*?)(?:~~~|$)/g;
+
+/** The reply without choices blocks, and the options of the last valid one. */
+export function parseChoicesBlock(text: string): { cleanText: string; choices: QuickReplies | null } {
+  let choices: QuickReplies | null = null;
+  for (const match of text.matchAll(CHOICES_BLOCK)) {
+    const parsed = parseChoices(match[1]);
+    if (parsed) choices = parsed;
+  }
+  return { cleanText: text.replace(CHOICES_BLOCK, "").trim(), choices };
+}
+
+function parseChoices(json: string): QuickReplies | null {
+  try {
+    const value = JSON.parse(json);
+    if (!Array.isArray(value?.options)) return null;
+    const options = [
+      ...new Set(value.options.filter((o: unknown): o is string => typeof o === "string" && o.trim() !== "").map((o: string) => o.trim())),
+    ].slice(0, MAX_OPTIONS) as string[];
+    if (options.length === 0) return null;
+    return { mode: value.mode === "multi" ? "multi" : "single", options, other: value.other !== false };
+  } catch {
+    return null;
+  }
+}
+
+/** The user message sent for a set of picks. */
+export function formatQuickReply(picked: string[], other?: string): string {
+  const answers = [...picked, ...(other?.trim() ? [other.trim()] : [])];
+  if (answers.length <= 1) return answers[0] ?? "";
+  return `${answers.slice(0, -1).join(", ")} and ${answers.at(-1)}`;
+}
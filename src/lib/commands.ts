@@ -0,0 +1,274 @@
+/**
+ * Slash commands for the chat input — client-safe.
+ * A command has a name, argument hints for autocomplete and a run function
+ * that gets the parsed arguments plus the actions of the session page.
+ * The built-in commands are registered at the bottom of this file; anything
+ * else can add its own with registerCommand.
+ */
+
+import type { DocDefinition } from "./doc-definitions";
+
+// What commands can do — implemented by ChatPanel and the session page
+export interface CommandActions {
+  generate: (doc: DocDefinition) => void;
+  guided: (doc: DocDefinition) => void;
+  verify: () => void;
+  // Returns a message when there is nothing to do
+  harmonize: () => string | void;
+  exportKit: () => void;
+  exportAll: () => void;
+  exportDocument: (docType: string) => void;
+  showDiff: (docType: string) => string | void;
+  // Returns the number of occurrences renamed
+  renameEntity: (from: string, to: string) => number;
+}
+
+export interface CommandContext {
+  documents: Record<string, string>;
+  // Built-in and custom document types the session offers
+  definitions: DocDefinition[];
+  actions: CommandActions;
+  // Shows a result note under the input
+  notify: (text: string) => void;
+}
+
+export interface CommandArg {
+  name: string;
+  hint: string;
+  optional?: boolean;
+  // Values offered by autocomplete
+  suggest?: (ctx: CommandContext) => { value: string; label: string }[];
+}
+
+export interface SlashCommand {
+  name: string;
+  description: string;
+  args?: CommandArg[];
+  // A returned string is an error: it is shown under the input, which keeps the command
+  run: (args: string[], ctx: CommandContext) => string | void | Promise<string | void>;
+}
+
+const registry = new Map<string, SlashCommand>();
+
+/** Adds (or replaces) a command; returns a function that removes it again. Names are case-insensitive. */
+export function registerCommand(command: SlashCommand): () => void {
+  const name = command.name.toLowerCase();
+  registry.set(name, command);
+  return () => {
+    if (registry.get(name) === command) registry.delete(name);
+  };
+}
+
+export function getCommand(name: string): SlashCommand | undefined {
+  return registry.get(name.toLowerCase());
+}
+
+export function listCommands(): SlashCommand[] {
+  return [...registry.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// ── Parsing ──
+
+// Whitespace-separated arguments; "double quotes" keep spaces together
+function tokenize(text: string): string[] {
+  return [...text.matchAll(/"([^"]*)"?|(\S+)/g)].map((m) => m[1] ?? m[2]);
+}
+
+/** `/name arg…` on a single line, or null for ordinary chat input. */
+export function parseCommand(input: string): { name: string; args: string[] } | null {
+  const match = input.trim().match(/^\/([\w-]+)(?:\s+([\s\S]*))?$/);
+  if (!match || input.trim().includes("\n")) return null;
+  return { name: match[1].toLowerCase(), args: tokenize(match[2] ?? "") };
+}
+
+export function formatArgs(command: SlashCommand): string {
+  return (command.args ?? []).map((a) => (a.optional ? `[${a.name}]` : `<${a.name}>`)).join(" ");
+}
+
+export interface Completion {
+  // Input text after accepting the completion
+  insert: string;
+  label: string;
+  detail?: string;
+}
+
+/**
+ * Autocomplete for the current input: command names while the name is being
+ * typed, then values for the argument under the cursor. `hint` describes
+ * that argument even when it has no suggestions.
+ */
+export function completeCommand(input: string, ctx: CommandContext): { items: Completion[]; hint?: string } {
+  if (!input.startsWith("/") || input.includes("\n")) return { items: [] };
+
+  const nameMatch = input.match(/^\/([\w-]*)$/);
+  if (nameMatch) {
+    const prefix = nameMatch[1].toLowerCase();
+    const items = listCommands()
+      .filter((c) => c.name.toLowerCase().startsWith(prefix))
+      .map((c) => ({
+        insert: `/${c.name.toLowerCase()}${c.args?.length ? " " : ""}`,
+        label: `/${c.name} ${formatArgs(c)}`.trim(),
+        detail: c.description,
+      }));
+    return { items };
+  }
+
+  const parsed = parseCommand(input);
+  const command = parsed && getCommand(parsed.name);
+  if (!command) return { items: [] };
+
+  // A trailing space starts the next argument; otherwise the last one is being typed
+  const typing = /\s$/.test(input) ? "" : (parsed.args.at(-1) ?? "");
+  const index = typing ? parsed.args.length - 1 : parsed.args.length;
+  const arg = command.args?.[index];
+  if (!arg) return { items: [] };
+
+  const base = input.slice(0, input.length - typing.length).replace(/"$/, "");
+  const items = (arg.suggest?.(ctx) ?? [])
+    .filter((s) => s.value.startsWith(typing.toLowerCase()) && s.value !== typing)
+    .map((s) => ({ insert: `${base}${s.value} `, label: s.value, detail: s.label }));
+  return { items, hint: `<${arg.name}> — ${arg.hint}` };
+}
+
+// ── Documents ──
+
+const slug = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+
+/** Definition for a document argument: its label or key in any case, e.g. "api-spec". */
+export function findDocDefinition(arg: string, definitions: DocDefinition[]): DocDefinition | undefined {
+  const wanted = slug(arg);
+  return definitions.find((d) => slug(d.label) === wanted || slug(d.docKey) === wanted);
+}
+
+/** Key of an existing document for an argument, by definition or by its own name. */
+function findDocType(arg: string, { documents, definitions }: CommandContext): string | undefined {
+  const def = findDocDefinition(arg, definitions);
+  if (def && def.docKey in documents) return def.docKey;
+  return Object.keys(documents).find((k) => slug(k) === slug(arg));
+}
+
+const docSuggestions = (defs: DocDefinition[]) => defs.map((d) => ({ value: slug(d.label), label: d.label }));
+
+const unknownDoc = (arg: string | undefined, defs: DocDefinition[]) =>
+  `${arg ? `Unknown document "${arg}"` : "Name a document"} — one of ${defs.map((d) => slug(d.label)).join(", ")}`;
+
+// Whole-word, case-sensitive replacement of an entity name across documents
+export function renameInDocuments(
+  documents: Record<string, string>,
+  from: string,
+  to: string
+): { documents: Record<string, string>; count: number } {
+  const escaped = from.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const pattern = new RegExp(`(?<![\\w-])${escaped}(?![\\w-])`, "g");
+  const changed: Record<string, string> = {};
+  let count = 0;
+  for (const [docType, content] of Object.entries(documents)) {
+    const matches = content.match(pattern)?.length ?? 0;
+    if (matches === 0) continue;
+    changed[docType] = content.replace(pattern, () => to);
+    count += matches;
+  }
+  return { documents: changed, count };
+}
+
+// ── Built-in commands ──
+
+const guidedDocs = (defs: DocDefinition[]) => defs.filter((d) => d.guidedTopics && d.guidedTopics.length > 0);
+
+registerCommand({
+  name: "generate",
+  description: "Generate or update a document",
+  args: [{ name: "doc", hint: "document to generate", suggest: ({ definitions }) => docSuggestions(definitions) }],
+  run: ([arg], { definitions, actions }) => {
+    const doc = arg ? findDocDefinition(arg, definitions) : undefined;
+    if (!doc) return unknownDoc(arg, definitions);
+    actions.generate(doc);
+  },
+});
+
+registerCommand({
+  name: "guided",
+  description: "Answer questions before a document is written",
+  args: [{ name: "doc", hint: "document to interview for", suggest: ({ definitions }) => docSuggestions(guidedDocs(definitions)) }],
+  run: ([arg], { definitions, actions }) => {
+    const guided = guidedDocs(definitions);
+    const doc = arg ? findDocDefinition(arg, guided) : undefined;
+    if (!doc) return unknownDoc(arg, guided);
+    actions.guided(doc);
+  },
+});
+
+registerCommand({
+  name: "verify",
+  description: "Cross-check all documents for inconsistencies",
+  run: (_args, { documents, actions }) => {
+    if (Object.keys(documents).length < 2) return "At least 2 documents are needed to verify";
+    actions.verify();
+  },
+});
+
+registerCommand({
+  name: "harmonize",
+  description: "Apply every open verifier fix",
+  run: (_args, { actions }) => actions.harmonize(),
+});
+
+registerCommand({
+  name: "export",
+  description: "Download documents",
+  args: [
+    {
+      name: "what",
+      hint: "kit (default), all, or a single document",
+      optional: true,
+      suggest: ({ documents }) => [
+        { value: "kit", label: "AI-Ready Kit (.zip)" },
+        { value: "all", label: "All documents (.zip)" },
+        ...Object.keys(documents).map((k) => ({ value: slug(k), label: `${k} (.md)` })),
+      ],
+    },
+  ],
+  run: ([arg = "kit"], ctx) => {
+    const { documents, actions } = ctx;
+    if (Object.keys(documents).length === 0) return "There are no documents to export yet";
+    if (arg === "kit") return actions.exportKit();
+    if (arg === "all") return actions.exportAll();
+    const docType = findDocType(arg, ctx);
+    if (!docType) return `Nothing to export as "${arg}" — use kit, all, or a document name`;
+    actions.exportDocument(docType);
+  },
+});
+
+registerCommand({
+  name: "diff",
+  description: "Compare a document with its earlier versions",
+  args: [
+    {
+      name: "doc",
+      hint: "document to compare",
+      suggest: ({ documents }) => Object.keys(documents).map((k) => ({ value: slug(k), label: k })),
+    },
+  ],
+  run: ([arg], ctx) => {
+    const { documents, actions } = ctx;
+    const docType = arg ? findDocType(arg, ctx) : undefined;
+    if (!docType) return `${arg ? `No document "${arg}"` : "Name a document"} — one of ${Object.keys(documents).map(slug).join(", ") || "(none yet)"}`;
+    return actions.showDiff(docType);
+  },
+});
+
+registerCommand({
+  name: "rename-entity",
+  description: "Rename a term everywhere it appears in the documents",
+  args: [
+    { name: "old", hint: "current name — quote names with spaces" },
+    { name: "new", hint: "replacement name" },
+  ],
+  run: ([from, to], { actions, notify }) => {
+    if (!from || !to) return 'Usage: /rename-entity <old> <new> — e.g. /rename-entity "User Account" Customer';
+    if (from === to) return "The old and new names are the same";
+    const count = actions.renameEntity(from, to);
+    if (count === 0) return `"${from}" does not appear in any document`;
+    notify(`Renamed ${count} occurrence${count === 1 ? "" : "s"} of "${from}" to "${to}"`);
+  },
+});
@@ -0,0 +1,125 @@
+import { generateText, type ChatMessage, type ProviderName, type TokenUsage } from "./llm";
+import { estimateTokens, type ContextSummary } from "./tokens";
+
+export interface HistoryMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+}
+
+interface CompactOptions {
+  systemInstruction: string;
+  history: HistoryMessage[];
+  message: string;
+  summary?: ContextSummary | null;
+  budget: number;
+  // The request's routed model — the summary is written by the same one
+  provider?: ProviderName;
+  model?: string;
+}
+
+interface CompactResult {
+  history: HistoryMessage[];
+  summary: ContextSummary | null;
+  compacted: boolean;
+  tokens: number;
+  // Tokens the summarizer call spent, when one was made
+  usage?: TokenUsage;
+}
+
+// Always keep the latest turns verbatim, however large they are
+const MIN_RECENT_MESSAGES = 6;
+
+export function summaryBlock(summary: ContextSummary | null): string {
+  if (!summary) return "";
+  return `\n\n# 🧾 CONVERSATION SUMMARY — EARLIER TURNS\n\nThe ${summary.compactedCount} oldest message(s) of this conversation were compacted into the summary below. Treat it as established context.\n\n${summary.text}`;
+}
+
+function countRequest(systemInstruction: string, history: HistoryMessage[], message: string): number {
+  return (
+    estimateTokens(systemInstruction) +
+    history.reduce((sum, m) => sum + estimateTokens(m.content), 0) +
+    estimateTokens(message)
+  );
+}
+
+export function toGeminiHistory(history: HistoryMessage[]): ChatMessage[] {
+  return history.map((msg) => ({
+    role: msg.role === "assistant" ? "model" : "user",
+    parts: [{ text: msg.content }],
+  }));
+}
+
+/**
+ * Drops turns already covered by the stored summary, then — if the request
+ * is still over budget — folds the oldest remaining turns into a new rolling
+ * summary. The caller persists the returned summary on the session.
+ */
+export async function compactHistory({
+  systemInstruction,
+  history,
+  message,
+  summary = null,
+  budget,
+  provider,
+  model,
+}: CompactOptions): Promise<CompactResult> {
+  // Messages up to the summary's watermark are already represented by it.
+  // If the watermark is gone (e.g. the user retried an older turn), the summary no longer applies.
+  let activeSummary = summary;
+  let remaining = history;
+  if (summary) {
+    const idx = history.findIndex((m) => m.id === summary.upToMessageId);
+    if (idx === -1) activeSummary = null;
+    else remaining = history.slice(idx + 1);
+  }
+
+  const tokensFor = (s: ContextSummary | null, h: HistoryMessage[]) =>
+    countRequest(systemInstruction + summaryBlock(s), h, message);
+
+  let tokens = tokensFor(activeSummary, remaining);
+  if (tokens <= budget || remaining.length <= MIN_RECENT_MESSAGES) {
+    return { history: remaining, summary: activeSummary, compacted: false, tokens };
+  }
+
+  // Fold oldest messages until the verbatim tail fits in roughly half the free budget
+  const fixedTokens = tokensFor(activeSummary, []);
+  const tailBudget = Math.max(0, (budget - fixedTokens) / 2);
+  let cut = 0;
+  let tailTokens = remaining.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+  while (remaining.length - cut > MIN_RECENT_MESSAGES && tailTokens > tailBudget) {
+    tailTokens -= estimateTokens(remaining[cut].content);
+    cut++;
+  }
+  // Never start the verbatim tail on an assistant turn
+  while (cut < remaining.length - MIN_RECENT_MESSAGES && remaining[cut]?.role === "assistant") cut++;
+
+  if (cut === 0) {
+    return { history: remaining, summary: activeSummary, compacted: false, tokens };
+  }
+
+  const folded = remaining.slice(0, cut);
+  const transcript = folded
+    .map((m) => `${m.role === "user" ? "USER" : "ASSISTANT"}: ${m.content}`)
+    .join("\n\n");
+
+  const { text, usage } = await generateText({
+    provider,
+    model,
+    systemInstruction:
+      "You compress conversation history for a documentation assistant. Produce a dense markdown summary that preserves every decision, name, requirement, constraint, open question and document that was generated or changed. Drop pleasantries and full document bodies — only note which documents exist and what changed. Never invent facts.",
+    history: [],
+    message: `${activeSummary ? `EXISTING SUMMARY:\n${activeSummary.text}\n\n` : ""}NEW TURNS TO FOLD IN:\n\n${transcript}\n\nReturn the updated summary only.`,
+    temperature: 0.2,
+  });
+
+  const nextSummary: ContextSummary = {
+    text: text.trim(),
+    upToMessageId: folded[folded.length - 1].id,
+    compactedCount: (activeSummary?.compactedCount ?? 0) + folded.length,
+    compactedAt: Date.now(),
+  };
+  const tail = remaining.slice(cut);
+  tokens = tokensFor(nextSummary, tail);
+  return { history: tail, summary: nextSummary, compacted: true, tokens, usage };
+}
@@ -0,0 +1,89 @@
+/**
+ * Guided-mode topic coverage — client-safe.
+ * During a guided interview the model ends each reply with a ~~~coverage
+ * block: a JSON list of the checklist topics with their status and the answer
+ * captured so far. The block is taken out of the reply text and kept on the
+ * message, and GuidedProgress renders the checklist from it.
+ */
+
+export type CoverageStatus = "pending" | "covered" | "partial" | "skipped";
+
+export interface TopicCoverage {
+  topic: string;
+  status: CoverageStatus;
+  // The user's answer, summarized by the model
+  answer?: string;
+}
+
+const STATUSES: CoverageStatus[] = ["pending", "covered", "partial", "skipped"];
+
+// A complete block, or one still streaming (no closing fence yet)
+const COVERAGE_BLOCK = /~~~coverage[ \t]*\n([\s\S]*?)(?:~~~|$)/g;
+
+/** The reply without coverage blocks, and the topics of the last complete one. */
+export function parseCoverageBlock(text: string): { cleanText: string; coverage: TopicCoverage[] | null } {
+  let coverage: TopicCoverage[] | null = null;
+  for (const match of text.matchAll(COVERAGE_BLOCK)) {
+    const parsed = parseTopics(match[1]);
+    if (parsed) coverage = parsed;
+  }
+  return { cleanText: text.replace(COVERAGE_BLOCK, "").trim(), coverage };
+}
+
+function parseTopics(json: string): TopicCoverage[] | null {
+  try {
+    const value: unknown = JSON.parse(json);
+    const list = Array.isArray(value) ? value : (value as { topics?: unknown })?.topics;
+    if (!Array.isArray(list)) return null;
+    return list.flatMap((item): TopicCoverage[] => {
+      if (typeof item?.topic !== "string") return [];
+      const status = STATUSES.includes(item.status) ? (item.status as CoverageStatus) : "pending";
+      const answer = typeof item.answer === "string" && item.answer.trim() ? item.answer.trim() : undefined;
+      return [{ topic: item.topic, status, ...(answer && { answer }) }];
+    });
+  } catch {
+    return null;
+  }
+}
+
+const normalize = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+/** The checklist in `topics` order; topics the model did not report stay pending. */
+export function mergeCoverage(topics: string[], reported: TopicCoverage[]): TopicCoverage[] {
+  const byTopic = new Map(reported.map((t) => [normalize(t.topic), t]));
+  return topics.map((topic) => {
+    const match = byTopic.get(normalize(topic));
+    return match ? { ...match, topic } : { topic, status: "pending" };
+  });
+}
+
+/** Topics settled so far — a partial answer counts half. */
+export function coveredCount(coverage: TopicCoverage[]): number {
+  return coverage.reduce(
+    (sum, t) => sum + (t.status === "covered" || t.status === "skipped" ? 1 : t.status === "partial" ? 0.5 : 0),
+    0
+  );
+}
+
+/** Prompt rules for the block, for a checklist of `topics`. */
+export function coverageInstruction(topics: string[]): string {
+  const example = JSON.stringify(
+    topics.map((topic, i) => ({
+      topic,
+      status: i === 0 ? "covered" : i === 1 ? "partial" : "pending",
+      ...(i < 2 && { answer: "one-line summary of what I said" }),
+    })),
+    null,
+    2
+  );
+  return `End EVERY reply with a coverage block listing every topic of the checklist, exactly like this:
+
+~~~coverage
+${example}
+~~~
+
+- status is one of: "covered" (answered), "partial" (answered in part — say what is missing in your question), "skipped" (I chose not to answer), "pending" (not discussed yet)
+- answer is a one-line summary of what I said about the topic; leave it out for pending topics
+- Use the topic names exactly as written in the checklist
+- Never mention the block in the rest of your reply`;
+}
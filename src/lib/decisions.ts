@@ -0,0 +1,220 @@
+/**
+ * Decision registry — client-safe.
+ * Architecture decisions ("PostgreSQL over MongoDB") kept as numbered
+ * ADR-style records on the session, extracted from the suite by
+ * /api/decisions or added by hand. Accepted records go to the verifier,
+ * which flags documents that contradict them, and the AI-Ready Kit exports
+ * every record as docs/adr/NNNN-title.md.
+ */
+
+export const DECISION_STATUSES = ["proposed", "accepted", "superseded", "rejected"] as const;
+export type DecisionStatus = (typeof DECISION_STATUSES)[number];
+
+export interface DecisionRecord {
+  id: string;
+  // ADR number — assigned once, never reused
+  number: number;
+  title: string;
+  context: string;
+  decision: string;
+  alternatives: string[];
+  status: DecisionStatus;
+  // Document the record was extracted from; unset for records added by hand
+  sourceDoc?: string;
+  // Links between a superseded record and the one that replaced it
+  supersededBy?: number;
+  supersedes?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type DecisionFields = Pick<DecisionRecord, "title" | "context" | "decision" | "alternatives" | "status" | "sourceDoc">;
+
+// What /api/verify receives
+export type DecisionPayload = Pick<DecisionRecord, "number" | "title" | "decision">;
+
+// ── Extraction ──
+
+export const DECISIONS_SCHEMA = {
+  type: "object",
+  properties: {
+    decisions: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          title: { type: "string" },
+          context: { type: "string" },
+          decision: { type: "string" },
+          alternatives: { type: "array", items: { type: "string" } },
+          status: { type: "string", enum: ["proposed", "accepted"] },
+          sourceDoc: { type: "string" },
+        },
+        required: ["title", "context", "decision", "alternatives", "status", "sourceDoc"],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["decisions"],
+  additionalProperties: false,
+};
+
+export const DECISIONS_INSTRUCTION = `You extract architecture decision records (ADRs) from a project's documentation suite.
+
+A decision is a deliberate choice between real alternatives that shapes the system: a database, a protocol, an architecture style, a hosting model, an auth scheme, a major library. Requirements, features and naming are not decisions.
+
+Respond with a single JSON object {"decisions": [...]} and nothing else. For each decision:
+- title: short imperative, e.g. "Use PostgreSQL for primary storage"
+- context: the forces behind it, in 1-3 sentences, as the documents state them
+- decision: what was chosen, and the reason the documents give
+- alternatives: the options the documents mention or clearly rule out; an empty array if none are named
+- status: "accepted" when the documents commit to it, "proposed" when they only lean towards it
+- sourceDoc: the document that states it most explicitly
+
+Only extract what the documents actually say — never invent decisions, reasons or alternatives. Leave out decisions already in the registry.`;
+
+export function buildDecisionsPrompt(documents: Record<string, string>, knownTitles: string[]): string {
+  const docs = Object.entries(documents)
+    .map(([type, content]) => `### ${type}\n\n${content}`)
+    .join("\n\n---\n\n");
+  const known = knownTitles.length > 0 ? knownTitles.map((t) => `- ${t}`).join("\n") : "None yet";
+  return `# Decision extraction
+
+## Already in the registry
+
+${known}
+
+## Documents
+
+${docs}
+
+Extract every architecture decision not already in the registry.`;
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+/** Decisions from an extraction response; invalid entries are dropped. */
+export function parseDecisions(text: string): DecisionFields[] | null {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) return null;
+  let value: unknown;
+  try {
+    value = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+  if (!isRecord(value) || !Array.isArray(value.decisions)) return null;
+  return value.decisions.flatMap((d): DecisionFields[] => {
+    if (!isRecord(d) || typeof d.title !== "string" || typeof d.decision !== "string" || !d.title.trim()) return [];
+    return [
+      {
+        title: d.title.trim(),
+        context: typeof d.context === "string" ? d.context.trim() : "",
+        decision: d.decision.trim(),
+        alternatives: Array.isArray(d.alternatives) ? d.alternatives.filter((a): a is string => typeof a === "string" && a.trim() !== "") : [],
+        status: d.status === "proposed" ? "proposed" : "accepted",
+        ...(typeof d.sourceDoc === "string" && d.sourceDoc.trim() && { sourceDoc: d.sourceDoc.trim() }),
+      },
+    ];
+  });
+}
+
+// ── Registry ──
+
+const normalize = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+export const formatAdrNumber = (n: number) => `ADR-${String(n).padStart(4, "0")}`;
+
+function nextNumber(records: DecisionRecord[]): number {
+  return records.reduce((max, r) => Math.max(max, r.number), 0) + 1;
+}
+
+export function createDecision(records: DecisionRecord[], fields: DecisionFields): DecisionRecord {
+  const now = Date.now();
+  return { id: crypto.randomUUID(), number: nextNumber(records), ...fields, createdAt: now, updatedAt: now };
+}
+
+/** The registry with extracted decisions appended; titles already in it are skipped. */
+export function addDecisions(records: DecisionRecord[], extracted: DecisionFields[]): DecisionRecord[] {
+  const next = [...records];
+  for (const fields of extracted) {
+    if (next.some((r) => normalize(r.title) === normalize(fields.title))) continue;
+    next.push(createDecision(next, fields));
+  }
+  return next;
+}
+
+/** Marks a record superseded and appends its replacement, an accepted copy to edit. */
+export function supersedeDecision(records: DecisionRecord[], id: string): { records: DecisionRecord[]; replacement?: DecisionRecord } {
+  const old = records.find((r) => r.id === id);
+  if (!old) return { records };
+  const replacement: DecisionRecord = {
+    ...createDecision(records, {
+      title: old.title,
+      context: old.context,
+      decision: old.decision,
+      alternatives: old.alternatives,
+      status: "accepted",
+    }),
+    supersedes: old.number,
+  };
+  const updated = { ...old, status: "superseded" as const, supersededBy: replacement.number, updatedAt: Date.now() };
+  return { records: [...records.map((r) => (r.id === id ? updated : r)), replacement], replacement };
+}
+
+export function toDecisionPayload(records: DecisionRecord[]): DecisionPayload[] {
+  return records.filter((r) => r.status === "accepted").map(({ number, title, decision }) => ({ number, title, decision }));
+}
+
+// One line per valid payload entry
+function decisionLines(decisions: unknown): string[] {
+  if (!Array.isArray(decisions)) return [];
+  return decisions
+    .filter((d): d is DecisionPayload => typeof d?.number === "number" && typeof d?.title === "string" && typeof d?.decision === "string")
+    .map((d) => `- **${formatAdrNumber(d.number)}: ${d.title}** — ${d.decision}`);
+}
+
+/** Verify-prompt section listing the accepted decisions; empty when there are none. */
+export function decisionsBlock(decisions: unknown): string {
+  const lines = decisionLines(decisions);
+  if (lines.length === 0) return "";
+  return `\n\n## Accepted Decisions (ADR registry)\n\nThese architecture decisions are accepted. Flag every document that contradicts one as a "decision_conflict" issue: quote the conflicting passage as evidence, name the ADR in the title (e.g. "${formatAdrNumber(1)}: ..."), and set targetDoc to the document that must change — the decision stands unless the user supersedes it.\n\n${lines.join("\n")}`;
+}
+
+/** Generation-prompt section: the accepted decisions the writer must follow; empty when there are none. */
+export function decisionsGuidance(decisions: unknown): string {
+  const lines = decisionLines(decisions);
+  if (lines.length === 0) return "";
+  return `\n\n# ACCEPTED DECISIONS (ADR registry)\n\nThese architecture decisions are settled. Everything you write must agree with them — do not contradict, reopen or comment on them, and do not report on them in your output.\n\n${lines.join("\n")}`;
+}
+
+/** One record as an ADR markdown file. */
+export function renderAdr(record: DecisionRecord): string {
+  const status = record.status[0].toUpperCase() + record.status.slice(1);
+  const meta = [
+    `- **Status:** ${status}${record.supersededBy ? ` — superseded by ${formatAdrNumber(record.supersededBy)}` : ""}`,
+    `- **Date:** ${new Date(record.createdAt).toISOString().split("T")[0]}`,
+    ...(record.supersedes ? [`- **Supersedes:** ${formatAdrNumber(record.supersedes)}`] : []),
+    ...(record.sourceDoc ? [`- **Source:** ${record.sourceDoc}`] : []),
+  ];
+  const listed = record.alternatives.map((a) => a.trim()).filter(Boolean);
+  const alternatives = listed.length > 0 ? listed.map((a) => `- ${a}`).join("\n") : "None recorded.";
+  return `# ${formatAdrNumber(record.number)}: ${record.title}
+
+${meta.join("\n")}
+
+## Context
+
+${record.context || "Not recorded."}
+
+## Decision
+
+${record.decision}
+
+## Alternatives Considered
+
+${alternatives}
+`;
+}
@@ -0,0 +1,121 @@
+/**
+ * Document dependency graph — client-safe.
+ * Doc types declare their upstream docs in `DocDefinition.dependsOn`. When a
+ * document is written the session records a hash of each upstream document
+ * as it was then; an upstream document whose hash no longer matches makes
+ * the document stale.
+ */
+
+import type { DocDefinition } from "./doc-definitions";
+
+// Upstream doc type → hash of its content when the document was written; null if it did not exist
+export type DocSources = Record<string, string | null>;
+
+// FNV-1a — a cheap change check, not a cryptographic hash
+export function hashDoc(content: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+function upstreamOf(docType: string, definitions: DocDefinition[]): string[] {
+  return definitions.find((d) => d.docKey === docType)?.dependsOn ?? [];
+}
+
+/**
+ * Chain of types from `dependsOn` back to `docKey` when depending on them
+ * would close a loop, else null. dependencyOrder cannot order a loop.
+ */
+export function dependencyCycle(docKey: string, dependsOn: string[], definitions: DocDefinition[]): string[] | null {
+  const key = docKey.trim().toLowerCase();
+  const seen = new Set<string>();
+  const visit = (docType: string, trail: string[]): string[] | null => {
+    if (docType.toLowerCase() === key) return trail;
+    if (seen.has(docType)) return null;
+    seen.add(docType);
+    for (const up of upstreamOf(docType, definitions)) {
+      const found = visit(up, [...trail, up]);
+      if (found) return found;
+    }
+    return null;
+  };
+  for (const up of dependsOn) {
+    const found = visit(up, [up]);
+    if (found) return found;
+  }
+  return null;
+}
+
+/** Upstream versions a document is being written from. */
+export function recordSources(docType: string, documents: Record<string, string>, definitions: DocDefinition[]): DocSources {
+  return Object.fromEntries(
+    upstreamOf(docType, definitions).map((up) => [up, up in documents ? hashDoc(documents[up]) : null])
+  );
+}
+
+/**
+ * Upstream docs that changed since the document was written. Documents
+ * written before sources were recorded are never reported stale.
+ */
+export function changedUpstream(
+  docType: string,
+  documents: Record<string, string>,
+  sources: DocSources | undefined,
+  definitions: DocDefinition[]
+): string[] {
+  if (!sources) return [];
+  return upstreamOf(docType, definitions).filter((up) => {
+    const now = up in documents ? hashDoc(documents[up]) : null;
+    return up in sources ? sources[up] !== now : now !== null;
+  });
+}
+
+/** Stale documents with the upstream docs that changed, for every document in the session. */
+export function staleDocuments(
+  documents: Record<string, string>,
+  docSources: Record<string, DocSources>,
+  definitions: DocDefinition[]
+): Record<string, string[]> {
+  const stale: Record<string, string[]> = {};
+  for (const docType of Object.keys(documents)) {
+    const changed = changedUpstream(docType, documents, docSources[docType], definitions);
+    if (changed.length > 0) stale[docType] = changed;
+  }
+  return stale;
+}
+
+/** Every doc type that depends on `docType`, directly or through others. */
+export function downstreamOf(docType: string, definitions: DocDefinition[]): string[] {
+  const found = new Set<string>();
+  const visit = (up: string) => {
+    for (const def of definitions) {
+      if (def.dependsOn?.includes(up) && !found.has(def.docKey)) {
+        found.add(def.docKey);
+        visit(def.docKey);
+      }
+    }
+  };
+  visit(docType);
+  found.delete(docType);
+  return [...found];
+}
+
+/**
+ * Doc types sorted so every document comes after the ones it depends on;
+ * otherwise the given order is kept. Dependencies outside the list are
+ * ignored, and a cycle falls back to the given order.
+ */
+export function dependencyOrder(docTypes: string[], definitions: DocDefinition[]): string[] {
+  const remaining = [...docTypes];
+  const ordered: string[] = [];
+  while (remaining.length > 0) {
+    const ready = remaining.findIndex((docType) =>
+      upstreamOf(docType, definitions).every((up) => !remaining.includes(up) || up === docType)
+    );
+    ordered.push(...remaining.splice(ready === -1 ? 0 : ready, 1));
+  }
+  return ordered;
+}
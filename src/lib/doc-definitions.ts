@@ -1,5 +1,9 @@
 // Shared document type definitions — single source of truth
-// Used by ChatPanel (toolbar), SessionSettings (editing), and Verifier (cross-check)
+// Used by ChatPanel (toolbar), DocTabs, SessionSettings (editing), export and the Verifier (cross-check).
+// Users add their own types per session or globally; resolveDocDefinitions merges them in.
+
+import { retrieveSections } from "./retrieval";
+import { getDocFilename } from "./readme-generator";
 
 export interface DocDefinition {
   label: string;
@@ -7,6 +11,18 @@ export interface DocDefinition {
   defaultInstruction: string;
   color: string;
   guidedTopics?: string[];
+  // Doc types this one is written from; when one of them changes it goes stale
+  dependsOn?: string[];
+  // Name of a DOC_ICONS icon; tabs fall back to a plain file icon
+  icon?: string;
+  // Shorter name for the document tab
+  tabLabel?: string;
+  // File name in exports, e.g. "tech-spec.md"
+  filename?: string;
+  // One line for the README's document table
+  purpose?: string;
+  // Where a user-defined type is saved; unset for the built-in types
+  scope?: "session" | "global";
 }
 
 export const DEFAULT_DOC_DEFINITIONS: DocDefinition[] = [
@@ -16,6 +32,9 @@ export const DEFAULT_DOC_DEFINITIONS: DocDefinition[] = [
     defaultInstruction:
       "generate a complete Product Requirements Document (PRD) for this project.",
     color: "cyan",
+    icon: "ClipboardList",
+    filename: "prd.md",
+    purpose: "Product requirements, user stories, and success metrics",
     guidedTopics: [
       "Target users & personas",
       "Core problem statement",
@@ -29,9 +48,14 @@ export const DEFAULT_DOC_DEFINITIONS: DocDefinition[] = [
   {
     label: "Design Doc",
     docKey: "Design Document",
+    dependsOn: ["PRD"],
     defaultInstruction:
       "generate a complete Design Document covering system design, trade-offs, and key architectural decisions.",
     color: "violet",
+    icon: "Layers",
+    tabLabel: "Design",
+    filename: "design-document.md",
+    purpose: "System design decisions and trade-offs",
     guidedTopics: [
       "System boundaries & context",
       "Key trade-offs & decisions",
@@ -44,9 +68,13 @@ export const DEFAULT_DOC_DEFINITIONS: DocDefinition[] = [
   {
     label: "Tech Stack",
     docKey: "Tech Stack",
+    dependsOn: ["PRD", "Design Document"],
     defaultInstruction:
       "generate a complete Tech Stack Specification with technology choices and rationale.",
     color: "emerald",
+    icon: "Package",
+    filename: "tech-stack.md",
+    purpose: "Framework, library, database, and hosting choices",
     guidedTopics: [
       "Frontend framework",
       "Backend / runtime",
@@ -61,9 +89,13 @@ export const DEFAULT_DOC_DEFINITIONS: DocDefinition[] = [
   {
     label: "Architecture",
     docKey: "Architecture",
+    dependsOn: ["Design Document", "Tech Stack"],
     defaultInstruction:
       "generate a complete Architecture Document using the C4 model.",
     color: "amber",
+    icon: "Network",
+    filename: "architecture.md",
+    purpose: "C4 model system architecture and component diagram",
     guidedTopics: [
       "System type (monolith/micro/serverless)",
       "Core components",
@@ -76,9 +108,13 @@ export const DEFAULT_DOC_DEFINITIONS: DocDefinition[] = [
   {
     label: "Tech Spec",
     docKey: "Tech Spec",
+    dependsOn: ["Architecture", "Data Model", "API Spec"],
     defaultInstruction:
       "generate a complete Technical Specification as an implementation blueprint.",
     color: "rose",
+    icon: "Code2",
+    filename: "tech-spec.md",
+    purpose: "Implementation blueprint with data models and business rules",
     guidedTopics: [
       "Core data models",
       "Business logic rules",
@@ -92,9 +128,13 @@ export const DEFAULT_DOC_DEFINITIONS: DocDefinition[] = [
   {
     label: "Roadmap",
     docKey: "Roadmap",
+    dependsOn: ["PRD", "Tech Spec"],
     defaultInstruction:
       "generate a complete Project Roadmap with phases, milestones, and timelines.",
     color: "sky",
+    icon: "Map",
+    filename: "roadmap.md",
+    purpose: "Phased milestones, timelines, and delivery plan",
     guidedTopics: [
       "Number of phases",
       "Timeline & deadlines",
@@ -107,9 +147,13 @@ export const DEFAULT_DOC_DEFINITIONS: DocDefinition[] = [
   {
     label: "API Spec",
     docKey: "API Spec",
+    dependsOn: ["Architecture", "Data Model"],
     defaultInstruction:
       "generate a complete API Specification covering all endpoints, request/response schemas, and authentication.",
     color: "orange",
+    icon: "Plug",
+    filename: "api-spec.md",
+    purpose: "Endpoint definitions, schemas, and authentication",
     guidedTopics: [
       "API style (REST/GraphQL)",
       "Authentication method",
@@ -123,9 +167,13 @@ export const DEFAULT_DOC_DEFINITIONS: DocDefinition[] = [
   {
     label: "UI Design",
     docKey: "UI Design",
+    dependsOn: ["PRD", "API Spec"],
     defaultInstruction:
       "generate a complete UI/UX Design Specification including design philosophy, color system, typography, component library, and screen layouts.",
     color: "pink",
+    icon: "Palette",
+    filename: "ui-design.md",
+    purpose: "Design system, typography, color palette, and layouts",
     guidedTopics: [
       "Design style & mood",
       "Color palette preferences",
@@ -139,9 +187,14 @@ export const DEFAULT_DOC_DEFINITIONS: DocDefinition[] = [
   {
     label: "Task List",
     docKey: "Task List",
+    dependsOn: ["Tech Spec", "UI Design", "Roadmap"],
     defaultInstruction:
       "generate a comprehensive nested project task list with all phases, epics, stories, and implementation tasks — covering everything from project setup to launch.",
     color: "green",
+    icon: "CheckSquare",
+    tabLabel: "Tasks",
+    filename: "task-list.md",
+    purpose: "Nested implementation tasks with priorities",
     guidedTopics: [
       "Sprint / phase structure",
       "Priority system",
@@ -154,18 +207,27 @@ export const DEFAULT_DOC_DEFINITIONS: DocDefinition[] = [
   {
     label: "Vibe Prompt",
     docKey: "Vibe Prompt",
+    dependsOn: ["PRD", "Tech Stack", "Architecture", "Task List"],
     defaultInstruction:
       "generate a comprehensive Vibe Ready Prompt — a master AI handoff document that synthesizes ALL existing project documents into a single, actionable instruction file. This prompt will be given to an AI coding assistant to start building the project immediately. Include: project identity, document manifest, tech stack snapshot, architecture brief, core data models, phased implementation roadmap, development rules, expected file structure, bootstrap commands, and meta-instructions for the AI.",
     color: "lime",
+    icon: "Zap",
+    tabLabel: "Vibe",
+    filename: "vibe-prompt.md",
+    purpose: "AI-ready handoff prompt synthesizing all documents",
     // No guidedTopics — Vibe Prompt is auto-only (synthesizes existing docs)
   },
   // --- New universal doc types ---
   {
     label: "Security Spec",
     docKey: "Security Spec",
+    dependsOn: ["Architecture", "API Spec"],
     defaultInstruction:
       "generate a complete Security Specification covering threat model, authentication & authorization flows, data classification, encryption strategy, OWASP Top 10 mitigations, compliance requirements, and incident response procedures.",
     color: "red",
+    icon: "ShieldCheck",
+    filename: "security-spec.md",
+    purpose: "Threat model, auth flows, data protection, and compliance",
     guidedTopics: [
       "Authentication model (OAuth/JWT/SSO)",
       "Authorization & role hierarchy",
@@ -179,9 +241,13 @@ export const DEFAULT_DOC_DEFINITIONS: DocDefinition[] = [
   {
     label: "Data Model",
     docKey: "Data Model",
+    dependsOn: ["PRD", "Architecture"],
     defaultInstruction:
       "generate a complete Data Model Specification covering all core entities, their relationships, field definitions with types and constraints, indexing strategy, migration plan, and common query patterns. Use ERD-style documentation.",
     color: "teal",
+    icon: "Database",
+    filename: "data-model.md",
+    purpose: "Entity definitions, relationships, indexing, and migrations",
     guidedTopics: [
       "Core entities & fields",
       "Relationships (1:1, 1:N, M:N)",
@@ -209,7 +275,87 @@ export const COLOR_MAP: Record<string, string> = {
   teal: "border-teal-500/30 text-teal-400 hover:bg-teal-500/10 hover:border-teal-500/50",
 };
 
-// Build the generation prompt for a given doc, accounting for custom instruction overrides
+// Tab colors, one per COLOR_MAP color
+export const TAB_COLOR_MAP: Record<string, { text: string; bg: string; border: string }> = {
+  cyan: { text: "text-cyan-400", bg: "bg-cyan-400/10", border: "border-cyan-400/30" },
+  violet: { text: "text-violet-400", bg: "bg-violet-400/10", border: "border-violet-400/30" },
+  emerald: { text: "text-emerald-400", bg: "bg-emerald-400/10", border: "border-emerald-400/30" },
+  amber: { text: "text-amber-400", bg: "bg-amber-400/10", border: "border-amber-400/30" },
+  rose: { text: "text-rose-400", bg: "bg-rose-400/10", border: "border-rose-400/30" },
+  sky: { text: "text-sky-400", bg: "bg-sky-400/10", border: "border-sky-400/30" },
+  orange: { text: "text-orange-400", bg: "bg-orange-400/10", border: "border-orange-400/30" },
+  pink: { text: "text-pink-400", bg: "bg-pink-400/10", border: "border-pink-400/30" },
+  green: { text: "text-green-400", bg: "bg-green-400/10", border: "border-green-400/30" },
+  lime: { text: "text-lime-400", bg: "bg-lime-400/10", border: "border-lime-400/30" },
+  red: { text: "text-red-400", bg: "bg-red-400/10", border: "border-red-400/30" },
+  teal: { text: "text-teal-400", bg: "bg-teal-400/10", border: "border-teal-400/30" },
+};
+
+export const DOC_COLORS = Object.keys(COLOR_MAP);
+
+// ── Custom document types ──
+
+const BUILT_IN_KEYS = new Set(DEFAULT_DOC_DEFINITIONS.map((d) => d.docKey.toLowerCase()));
+
+/** Built-in types, then global custom types, then session ones — a session type replaces a global one of the same name. */
+export function resolveDocDefinitions(globalTypes: DocDefinition[] = [], sessionTypes: DocDefinition[] = []): DocDefinition[] {
+  const custom = new Map<string, DocDefinition>();
+  for (const def of globalTypes) custom.set(def.docKey.toLowerCase(), { ...def, scope: "global" });
+  for (const def of sessionTypes) custom.set(def.docKey.toLowerCase(), { ...def, scope: "session" });
+  return [...DEFAULT_DOC_DEFINITIONS, ...[...custom.entries()].filter(([key]) => !BUILT_IN_KEYS.has(key)).map(([, def]) => def)];
+}
+
+/** Why a custom type cannot be saved under `docKey`, or null when it can. */
+export function docTypeNameError(docKey: string, definitions: DocDefinition[], editingKey?: string): string | null {
+  const key = docKey.trim().toLowerCase();
+  if (!key) return "Give the document type a name";
+  if (BUILT_IN_KEYS.has(key)) return `"${docKey.trim()}" is a built-in document type`;
+  if (key !== editingKey?.toLowerCase() && definitions.some((d) => d.docKey.toLowerCase() === key)) {
+    return `There is already a "${docKey.trim()}" document type`;
+  }
+  return null;
+}
+
+/**
+ * Why a custom type cannot be exported as `filename` (its default name when
+ * blank), or null when it can: the kit writes every document into one
+ * folder, so the name must be a plain .md file none of the other types uses.
+ */
+export function docFilenameError(filename: string, docKey: string, otherDefinitions: DocDefinition[]): string | null {
+  const name = filename.trim() || getDocFilename(docKey.trim(), []);
+  if (/[\\/]/.test(name)) return "The file name cannot contain / or \\";
+  if (!/^[^.].*\.md$/i.test(name)) return "The file name must end in .md";
+  const clash = otherDefinitions.find((d) => getDocFilename(d.docKey, otherDefinitions).toLowerCase() === name.toLowerCase());
+  return clash ? `${clash.label} is already exported as ${name}` : null;
+}
+
+// What /api/chat and /api/verify receive for a custom type
+export type DocTypePayload = Pick<DocDefinition, "docKey" | "defaultInstruction" | "purpose">;
+
+export function toDocTypePayload(definitions: DocDefinition[], customInstructions?: Record<string, string>): DocTypePayload[] {
+  return definitions
+    .filter((d) => d.scope)
+    .map((d) => ({ docKey: d.docKey, defaultInstruction: getEffectiveInstruction(d, customInstructions), purpose: d.purpose }));
+}
+
+export function parseDocTypePayload(value: unknown): DocTypePayload[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (d): d is DocTypePayload => typeof d?.docKey === "string" && d.docKey.trim() !== "" && typeof d?.defaultInstruction === "string"
+  );
+}
+
+/** System-prompt section announcing a project's custom types; empty when there are none. */
+export function customDocTypesBlock(types: DocTypePayload[]): string {
+  if (types.length === 0) return "";
+  const list = types
+    .map((t) => `- **${t.docKey.trim()}**${t.purpose ? ` — ${t.purpose}` : ""}\n  When asked for it: ${t.defaultInstruction.trim()}`)
+    .join("\n");
+  return `\n\n# CUSTOM DOCUMENT TYPES\n\nBesides the standard suite, this project uses the document types below. Write them like the standard ones — with the exact name as the document type (in write_document or a ~~~doc: marker), complete, and consistent with every other document:\n\n${list}`;
+}
+
+// Build the generation prompt for a given doc, accounting for custom instruction overrides.
+// Other documents are not pasted in full — only the sections relevant to this doc (BM25).
 export function buildDocPrompt(
   label: string,
   docKey: string,
@@ -220,16 +366,18 @@ export function buildDocPrompt(
   parts.push(
     `Based on our conversation, ${instruction}\n\nFormat the document with clear markdown headers, bullet points, and structure.`
   );
-  const otherDocs = Object.entries(existingDocs).filter(
-    ([k]) => k !== docKey
-  );
+  const otherDocs = Object.keys(existingDocs).filter((k) => k !== docKey);
   if (otherDocs.length > 0) {
+    const { context, included } = retrieveSections(existingDocs, `${label} ${docKey} ${instruction}`, {
+      exclude: [docKey],
+      tokenBudget: 8000,
+    });
+    const includedList = included.length > 0
+      ? included.map((s) => `- ${s.docType}${s.heading ? ` › ${s.heading}` : ""}`).join("\n")
+      : "- (outlines only)";
     parts.push(
-      `\n\n---\nFor context and cross-referencing, here are previously generated documents:\n`
+      `\n\n---\nFor context and cross-referencing, here are the relevant sections of previously generated documents:\n\nIncluded:\n${includedList}\n\n${context}\n`
     );
-    for (const [type, content] of otherDocs) {
-      parts.push(`### Existing: ${type}\n${content}\n`);
-    }
     parts.push(
       `\nUse the above documents for cross-referencing. Maintain consistency with established decisions. Do NOT repeat content — reference it where relevant.`
     );
@@ -0,0 +1,79 @@
+/**
+ * Incremental splitter for ~~~doc:Type … ~~~ blocks in a streamed response.
+ * Text outside a block becomes `text` events, text inside becomes
+ * `doc_delta` events, so documents can be followed while they generate.
+ * A block opens with a `~~~doc:Type` line and closes at a line that is
+ * exactly `~~~`. Partial lines are held back only while they could still
+ * turn out to be a marker. A block the response never closes gets no
+ * `doc_end`, so readers can tell a cut-off document from a finished one.
+ */
+
+import type { StreamEvent } from "./stream-events";
+
+const OPEN = "~~~doc:";
+const CLOSE = "~~~";
+
+export interface DocMarkerSplitter {
+  push: (text: string) => StreamEvent[];
+  // Call once the response ends — emits any held-back text
+  flush: () => StreamEvent[];
+}
+
+// A document as it streams into the preview, before it is saved to the session
+export interface LiveDoc {
+  content: string;
+  // "stopped": cut off mid-document — kept or discarded by the user
+  status: "generating" | "stopped";
+}
+
+export function createDocMarkerSplitter(): DocMarkerSplitter {
+  let docType: string | null = null;
+  let pending = "";
+  // Whether `pending` starts at the beginning of a line
+  let atLineStart = true;
+
+  const emit = (events: StreamEvent[], text: string) => {
+    if (!text) return;
+    events.push(docType ? { type: "doc_delta", docType, text } : { type: "text", text });
+  };
+
+  const couldBeMarker = (partial: string) =>
+    docType ? CLOSE.startsWith(partial) : OPEN.startsWith(partial) || partial.startsWith(OPEN);
+
+  const process = (final: boolean): StreamEvent[] => {
+    const events: StreamEvent[] = [];
+    while (pending) {
+      const newline = pending.indexOf("\n");
+      const line = newline === -1 ? pending : pending.slice(0, newline + 1);
+      const complete = newline !== -1 || final;
+      const bare = line.replace(/\r?\n$/, "");
+
+      if (atLineStart && !docType && bare.startsWith(OPEN)) {
+        if (!complete) break;
+        docType = bare.slice(OPEN.length).trim();
+        events.push({ type: "doc_start", docType });
+      } else if (atLineStart && docType && bare.trim() === CLOSE) {
+        if (!complete) break;
+        events.push({ type: "doc_end", docType });
+        docType = null;
+      } else if (atLineStart && !complete && couldBeMarker(bare)) {
+        break;
+      } else {
+        emit(events, line);
+      }
+      pending = pending.slice(line.length);
+      atLineStart = newline !== -1;
+    }
+    return events;
+  };
+
+  return {
+    push(text) {
+      pending += text;
+      return process(false);
+    },
+    flush() {
+      return process(true);
+    },
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Document downloads — browser only.
+ * Shared by the ExportBar menu and the /export chat command.
+ */
+
+import JSZip from "jszip";
+import { generateReadme, getDocFilename } from "./readme-generator";
+import { renderAdr, type DecisionRecord } from "./decisions";
+import { DEFAULT_DOC_DEFINITIONS, type DocDefinition } from "./doc-definitions";
+
+export function slugify(str: string): string {
+  return str
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export function exportDocument(
+  documents: Record<string, string>,
+  docType: string,
+  sessionName: string,
+  definitions: DocDefinition[] = DEFAULT_DOC_DEFINITIONS
+) {
+  const blob = new Blob([documents[docType]], { type: "text/markdown;charset=utf-8" });
+  downloadBlob(blob, `${slugify(sessionName)}-${getDocFilename(docType, definitions)}`);
+}
+
+export async function exportAllDocuments(documents: Record<string, string>, sessionName: string) {
+  const zip = new JSZip();
+  const folder = zip.folder(slugify(sessionName));
+  if (folder) {
+    for (const [docType, content] of Object.entries(documents)) {
+      folder.file(`${slugify(docType)}.md`, content);
+    }
+  }
+  downloadBlob(await zip.generateAsync({ type: "blob" }), `${slugify(sessionName)}-docs.zip`);
+}
+
+export function adrFilename(record: DecisionRecord): string {
+  return `${String(record.number).padStart(4, "0")}-${slugify(record.title) || "decision"}.md`;
+}
+
+export async function exportKit(
+  documents: Record<string, string>,
+  sessionName: string,
+  decisions: DecisionRecord[] = [],
+  definitions: DocDefinition[] = DEFAULT_DOC_DEFINITIONS
+) {
+  const zip = new JSZip();
+  const root = zip.folder(slugify(sessionName))!;
+
+  // Vibe Prompt at root level
+  if (documents["Vibe Prompt"]) {
+    root.file("VIBE_PROMPT.md", documents["Vibe Prompt"]);
+  }
+
+  // README at root
+  const readme = generateReadme(
+    documents,
+    sessionName,
+    decisions.map((d) => ({ ...d, filename: adrFilename(d) })),
+    definitions
+  );
+  root.file("README.md", readme);
+
+  // All docs in docs/ folder with normalized names
+  const docsFolder = root.folder("docs")!;
+  for (const [docType, content] of Object.entries(documents)) {
+    docsFolder.file(getDocFilename(docType, definitions), content);
+  }
+
+  // Decision log as one ADR file per record
+  if (decisions.length > 0) {
+    const adrFolder = docsFolder.folder("adr")!;
+    for (const record of decisions) adrFolder.file(adrFilename(record), renderAdr(record));
+  }
+
+  downloadBlob(await zip.generateAsync({ type: "blob" }), `${slugify(sessionName)}-ai-kit.zip`);
+}
@@ -0,0 +1,53 @@
+/**
+ * Project facts — client-safe.
+ * Answers settled in guided interviews, kept on the session so they outlive
+ * chat trimming. Every chat request carries them, so a later interview starts
+ * from what earlier ones already established.
+ */
+
+import type { TopicCoverage } from "./coverage";
+
+export interface ProjectFact {
+  id: string;
+  key: string;
+  value: string;
+  // User message the answer was given in; unset for facts added by hand
+  sourceMessageId?: string;
+  // Checked by the user — later interviews no longer overwrite it
+  confirmed: boolean;
+  updatedAt: number;
+}
+
+// What /api/chat receives
+export type FactPayload = Pick<ProjectFact, "key" | "value" | "confirmed">;
+
+const normalize = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+/** Facts updated with the answers of a coverage block; confirmed facts are kept as they are. */
+export function mergeGuidedAnswers(facts: ProjectFact[], coverage: TopicCoverage[], sourceMessageId: string): ProjectFact[] {
+  const next = [...facts];
+  for (const { topic, status, answer } of coverage) {
+    if (!answer || (status !== "covered" && status !== "partial")) continue;
+    const index = next.findIndex((f) => normalize(f.key) === normalize(topic));
+    const existing = next[index];
+    if (existing?.confirmed || existing?.value === answer) continue;
+    const fact = { key: topic, value: answer, sourceMessageId, confirmed: false, updatedAt: Date.now() };
+    if (existing) next[index] = { ...existing, ...fact };
+    else next.push({ id: crypto.randomUUID(), ...fact });
+  }
+  return next;
+}
+
+export function toFactPayload(fact: ProjectFact): FactPayload {
+  return { key: fact.key, value: fact.value, confirmed: fact.confirmed };
+}
+
+/** System-prompt block listing the facts; empty when there are none. */
+export function factsBlock(facts: unknown): string {
+  if (!Array.isArray(facts)) return "";
+  const lines = facts
+    .filter((f): f is FactPayload => typeof f?.key === "string" && typeof f?.value === "string" && f.value.trim() !== "")
+    .map((f) => `- **${f.key.trim()}**: ${f.value.trim()}${f.confirmed ? " (confirmed)" : ""}`);
+  if (lines.length === 0) return "";
+  return `\n\n# 📌 PROJECT FACTS — SETTLED ANSWERS\n\nThese facts were settled with the user in earlier guided interviews or entered by them. Treat them as decided and carry them into every document. In a guided interview, a topic these facts answer is already covered: state the fact in one line so the user can correct it, and do not ask about it again. Facts marked (confirmed) were checked by the user and win over anything else in the conversation.\n\n${lines.join("\n")}`;
+}
@@ -1,15 +1,25 @@
 import fs from "fs";
 import path from "path";
 import yaml from "js-yaml";
+import type { ProviderName } from "./llm";
+import type { ModelRouting } from "./routing";
 
 export interface InstructionConfig {
   name: string;
+  // Optional — falls back to LLM_PROVIDER, then Gemini
+  provider?: ProviderName;
   model: string;
   temperature: number;
   maxOutputTokens: number;
   systemInstruction: string;
   documentType: string;
   triggerPhrases?: string[];
+  // Max estimated tokens per chat request before old turns are compacted
+  contextBudget?: number;
+  // Per-task provider/model defaults (see lib/routing.ts); unset tasks use `model`
+  routing?: ModelRouting;
+  // Set to false to use ~~~doc:/~~~patch:/~~~image: text markers instead of function tools
+  tools?: boolean;
 }
 
 // Re-export client-safe constants
@@ -0,0 +1,120 @@
+import type { FinishReason, LLMProvider, MessagePart } from "./types";
+import { readSSEData } from "./sse";
+import { LLMError, classifyStatus } from "./errors";
+
+// Anthropic Messages API, or any proxy that speaks the same wire format
+function baseUrl(): string {
+  return (process.env.ANTHROPIC_BASE_URL ?? "https://api.anthropic.com").replace(/\/$/, "");
+}
+
+function normalizeFinishReason(reason: string): FinishReason {
+  if (reason === "end_turn" || reason === "stop_sequence" || reason === "tool_use") return "stop";
+  if (reason === "max_tokens") return "length";
+  if (reason === "refusal") return "safety";
+  return "other";
+}
+
+function toContentBlock(part: MessagePart) {
+  return "text" in part
+    ? { type: "text", text: part.text }
+    : { type: "image", source: { type: "base64", media_type: part.inlineData.mimeType, data: part.inlineData.data } };
+}
+
+export const anthropicProvider: LLMProvider = {
+  name: "anthropic",
+
+  defaultModel: () => process.env.ANTHROPIC_MODEL ?? "claude-sonnet-4-5",
+
+  async *streamChat({
+    model,
+    systemInstruction,
+    history,
+    message,
+    parts,
+    temperature = 0.7,
+    maxOutputTokens = 8192,
+    responseSchema,
+    tools,
+  }) {
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      throw new Error("ANTHROPIC_API_KEY environment variable is not set");
+    }
+
+    const messages = [
+      ...history.map((m) => ({
+        role: m.role === "model" ? "assistant" : "user",
+        content: m.parts[0].text,
+      })),
+      { role: "user", content: parts?.length ? [{ text: message }, ...parts].map(toContentBlock) : message },
+    ];
+
+    const res = await fetch(`${baseUrl()}/v1/messages`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": apiKey,
+        "anthropic-version": "2023-06-01",
+      },
+      body: JSON.stringify({
+        model,
+        // No native JSON mode on the Messages API — the schema goes in the prompt and the caller validates
+        system: responseSchema
+          ? `${systemInstruction}\n\nRespond with a single JSON object and nothing else. It must match this JSON Schema:\n${JSON.stringify(responseSchema)}`
+          : systemInstruction,
+        messages,
+        temperature,
+        max_tokens: maxOutputTokens,
+        stream: true,
+        ...(tools?.length && {
+          tools: tools.map((t) => ({ name: t.name, description: t.description, input_schema: t.parameters })),
+        }),
+      }),
+    });
+
+    if (!res.ok || !res.body) {
+      const detail = await res.text();
+      throw new LLMError(classifyStatus(res.status, detail), `Anthropic API error ${res.status}: ${detail}`, res.status);
+    }
+
+    // Input counts arrive with message_start, output counts with message_delta
+    let inputTokens = 0;
+    let cachedTokens = 0;
+    // tool_use blocks stream their input as JSON fragments until content_block_stop
+    const toolBlocks = new Map<number, { id: string; name: string; json: string }>();
+    for await (const data of readSSEData(res.body)) {
+      try {
+        const event = JSON.parse(data);
+        if (event.type === "message_start") {
+          const usage = event.message?.usage ?? {};
+          cachedTokens = usage.cache_read_input_tokens ?? 0;
+          inputTokens = (usage.input_tokens ?? 0) + cachedTokens + (usage.cache_creation_input_tokens ?? 0);
+        } else if (event.type === "content_block_start" && event.content_block?.type === "tool_use") {
+          toolBlocks.set(event.index, { id: event.content_block.id, name: event.content_block.name, json: "" });
+        } else if (event.type === "content_block_delta" && event.delta?.type === "text_delta") {
+          yield { text: event.delta.text };
+        } else if (event.type === "content_block_delta" && event.delta?.type === "input_json_delta") {
+          const block = toolBlocks.get(event.index);
+          if (block) block.json += event.delta.partial_json ?? "";
+        } else if (event.type === "content_block_stop" && toolBlocks.has(event.index)) {
+          const block = toolBlocks.get(event.index)!;
+          toolBlocks.delete(event.index);
+          yield { toolCall: { id: block.id, name: block.name, args: block.json ? JSON.parse(block.json) : {} } };
+        } else if (event.type === "message_delta") {
+          yield {
+            finishReason: event.delta?.stop_reason ? normalizeFinishReason(event.delta.stop_reason) : undefined,
+            usage: { inputTokens, outputTokens: event.usage?.output_tokens ?? 0, cachedTokens },
+          };
+        } else if (event.type === "error") {
+          const kind = event.error?.type === "overloaded_error" ? "unavailable"
+            : event.error?.type === "rate_limit_error" ? "rate_limited"
+            : "unknown";
+          throw new LLMError(kind, `Anthropic stream error: ${event.error?.message ?? "unknown"}`);
+        }
+      } catch (err) {
+        if (err instanceof SyntaxError) continue;
+        throw err;
+      }
+    }
+  },
+};
@@ -0,0 +1,101 @@
+// Error taxonomy for streamed LLM responses — client-safe, no Node.js imports
+
+export type StreamErrorKind =
+  | "rate_limited"
+  | "quota"
+  | "unavailable"
+  | "safety_blocked"
+  | "timeout"
+  | "truncated"
+  | "invalid_output" // the response did not match the requested structure
+  | "network" // client-side only: the request never reached the route
+  | "unknown";
+
+export interface StreamError {
+  kind: StreamErrorKind;
+  message: string;
+  retryable: boolean;
+}
+
+const RETRYABLE: StreamErrorKind[] = ["rate_limited", "unavailable", "timeout", "network"];
+
+export class LLMError extends Error {
+  constructor(
+    public kind: StreamErrorKind,
+    message: string,
+    public status?: number
+  ) {
+    super(message);
+    this.name = "LLMError";
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE.includes(this.kind);
+  }
+
+  toStreamError(): StreamError {
+    return { kind: this.kind, message: this.message, retryable: this.retryable };
+  }
+}
+
+export function classifyStatus(status: number, detail = ""): StreamErrorKind {
+  if (status === 429) {
+    return /quota|billing|per.?day|insufficient/i.test(detail) ? "quota" : "rate_limited";
+  }
+  if (status === 408 || status === 504) return "timeout";
+  if (status === 500 || status === 502 || status === 503 || status === 529) return "unavailable";
+  return "unknown";
+}
+
+/** Normalizes anything thrown by a provider SDK or fetch into an LLMError. */
+export function toLLMError(err: unknown): LLMError {
+  if (err instanceof LLMError) return err;
+  const message = err instanceof Error ? err.message : String(err);
+  const status =
+    typeof err === "object" && err !== null && typeof (err as { status?: unknown }).status === "number"
+      ? (err as { status: number }).status
+      : undefined;
+
+  if (status !== undefined) return new LLMError(classifyStatus(status, message), message, status);
+  if (err instanceof Error && (err.name === "TimeoutError" || /timed? ?out/i.test(message))) {
+    return new LLMError("timeout", message);
+  }
+  if (/ECONNRESET|ECONNREFUSED|fetch failed|socket hang up/i.test(message)) {
+    return new LLMError("unavailable", message);
+  }
+  return new LLMError("unknown", message);
+}
+
+/** Turns a non-normal finish reason into the error the client should see. */
+export function finishReasonError(reason?: string): LLMError | null {
+  if (reason === "length") {
+    return new LLMError("truncated", "The response hit the output token limit and was cut off.");
+  }
+  if (reason === "safety") {
+    return new LLMError("safety_blocked", "The response was blocked by the provider's safety filters.");
+  }
+  return null;
+}
+
+export function describeStreamError(error: StreamError): string {
+  switch (error.kind) {
+    case "rate_limited":
+      return "The model is rate-limited right now. Wait a moment and retry.";
+    case "quota":
+      return "The API quota for this model is exhausted. Check your plan or switch provider.";
+    case "unavailable":
+      return "The model is temporarily unavailable. Retry in a few seconds.";
+    case "safety_blocked":
+      return "The response was blocked by safety filters. Rephrase the request and try again.";
+    case "timeout":
+      return "The model took too long to respond.";
+    case "truncated":
+      return "The response was cut off at the output token limit.";
+    case "invalid_output":
+      return "The model returned a malformed report, even after being asked to correct it.";
+    case "network":
+      return "Connection error. Please check your API key and try again.";
+    default:
+      return error.message || "Something went wrong while generating the response.";
+  }
+}
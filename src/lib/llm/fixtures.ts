@@ -0,0 +1,117 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+import { recordStream, replayStream, type RecordedStream } from "../stream-recorder";
+import { EVENT_STREAM_HEADERS } from "../stream-events";
+import type { TokenUsage } from "./types";
+
+/**
+ * Record/replay of LLM responses for offline development.
+ *
+ *   LLM_FIXTURES=record  — proxy to the real provider and save every response
+ *   LLM_FIXTURES=replay  — never call a provider; serve saved responses only
+ *
+ * Fixtures are keyed by a hash of the request (system instruction, history
+ * and message), so the same conversation always replays the same output.
+ */
+
+type FixtureMode = "record" | "replay" | null;
+
+export function fixtureMode(): FixtureMode {
+  const mode = process.env.LLM_FIXTURES;
+  return mode === "record" || mode === "replay" ? mode : null;
+}
+
+function fixturesDir(): string {
+  return process.env.LLM_FIXTURES_DIR ?? path.join(process.cwd(), "fixtures", "llm");
+}
+
+function fixturePath(key: string): string {
+  return path.join(fixturesDir(), `${key}.json`);
+}
+
+export function fixtureKey(route: string, request: unknown): string {
+  const hash = crypto.createHash("sha256").update(JSON.stringify(request)).digest("hex");
+  return `${route}-${hash.slice(0, 16)}`;
+}
+
+function writeFixture(key: string, data: unknown): void {
+  try {
+    fs.mkdirSync(fixturesDir(), { recursive: true });
+    fs.writeFileSync(fixturePath(key), JSON.stringify(data, null, 2));
+  } catch (err) {
+    console.error(`Failed to write fixture ${key}:`, err);
+  }
+}
+
+function readFixture<T>(key: string): T | null {
+  try {
+    return JSON.parse(fs.readFileSync(fixturePath(key), "utf-8")) as T;
+  } catch {
+    return null;
+  }
+}
+
+function missingFixture(key: string): Response {
+  return NextResponse.json(
+    { error: `No recorded fixture for this request (${key}). Record it first with LLM_FIXTURES=record.` },
+    { status: 404 }
+  );
+}
+
+// ── SSE routes (/api/chat, /api/verify) ──
+
+/** In replay mode, returns the recorded SSE response (or a 404). Otherwise null. */
+export function replaySSEFixture(key: string): Response | null {
+  if (fixtureMode() !== "replay") return null;
+  const recording = readFixture<RecordedStream>(key);
+  if (!recording) return missingFixture(key);
+  return new Response(replayStream(recording), { headers: EVENT_STREAM_HEADERS });
+}
+
+/** In record mode, tees the outgoing SSE stream into a fixture file. */
+export function recordSSEFixture(
+  key: string,
+  stream: ReadableStream<Uint8Array>
+): ReadableStream<Uint8Array> {
+  if (fixtureMode() !== "record") return stream;
+  return recordStream(stream, (recording) => writeFixture(key, recording));
+}
+
+// ── Non-streaming completions (summaries, structured extraction) ──
+
+export async function withTextFixture(
+  key: string,
+  produce: () => Promise<{ text: string; usage?: TokenUsage }>
+): Promise<{ text: string; usage?: TokenUsage }> {
+  const mode = fixtureMode();
+  if (mode === "replay") {
+    // Recordings made before usage was kept replay without it
+    const fixture = readFixture<{ text: string; usage?: TokenUsage }>(key);
+    if (!fixture) throw new Error(`No recorded fixture for this request (${key})`);
+    return { text: fixture.text, usage: fixture.usage };
+  }
+  const result = await produce();
+  if (mode === "record") writeFixture(key, result);
+  return result;
+}
+
+// ── JSON routes (/api/generate-image) ──
+
+interface JSONFixture {
+  status: number;
+  body: unknown;
+}
+
+export function replayJSONFixture(key: string): Response | null {
+  if (fixtureMode() !== "replay") return null;
+  const fixture = readFixture<JSONFixture>(key);
+  if (!fixture) return missingFixture(key);
+  return NextResponse.json(fixture.body, { status: fixture.status });
+}
+
+export function recordJSONFixture(key: string, body: unknown, status = 200): Response {
+  if (fixtureMode() === "record") writeFixture(key, { status, body });
+  return NextResponse.json(body, { status });
+}
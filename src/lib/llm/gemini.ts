@@ -0,0 +1,111 @@
+import { GoogleGenAI } from "@google/genai";
+import type { FinishReason, LLMProvider } from "./types";
+
+// Created lazily so a missing key only fails requests routed to Gemini
+let _client: GoogleGenAI | null = null;
+
+function getClient(): GoogleGenAI {
+  if (!_client) {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new Error("GEMINI_API_KEY environment variable is not set");
+    }
+    _client = new GoogleGenAI({ apiKey });
+  }
+  return _client;
+}
+
+function normalizeFinishReason(reason?: string): FinishReason | undefined {
+  if (!reason) return undefined;
+  if (reason === "STOP") return "stop";
+  if (reason === "MAX_TOKENS") return "length";
+  if (["SAFETY", "BLOCKLIST", "PROHIBITED_CONTENT", "SPII", "RECITATION"].includes(reason)) return "safety";
+  return "other";
+}
+
+export const geminiProvider: LLMProvider = {
+  name: "gemini",
+
+  defaultModel: () => process.env.GEMINI_REASONING_MODEL ?? "gemini-3-flash-preview",
+
+  async *streamChat({
+    model,
+    systemInstruction,
+    history,
+    message,
+    parts,
+    temperature = 0.7,
+    maxOutputTokens = 8192,
+    responseSchema,
+    tools,
+  }) {
+    const chat = getClient().chats.create({
+      model,
+      config: {
+        systemInstruction,
+        temperature,
+        maxOutputTokens,
+        ...(responseSchema && { responseMimeType: "application/json", responseJsonSchema: responseSchema }),
+        ...(tools?.length && {
+          tools: [
+            {
+              functionDeclarations: tools.map((t) => ({
+                name: t.name,
+                description: t.description,
+                parametersJsonSchema: t.parameters,
+              })),
+            },
+          ],
+        }),
+      },
+      history,
+    });
+
+    const stream = await chat.sendMessageStream({ message: parts?.length ? [{ text: message }, ...parts] : message });
+    let callCount = 0;
+    for await (const chunk of stream) {
+      // Gemini delivers each function call whole, never split across chunks
+      for (const call of chunk.functionCalls ?? []) {
+        if (!call.name) continue;
+        yield { toolCall: { id: call.id ?? `call_${callCount}`, name: call.name, args: call.args ?? {} } };
+        callCount++;
+      }
+      // Reading .text on a chunk that only holds function calls logs an SDK warning
+      const hasText = chunk.candidates?.[0]?.content?.parts?.some((p) => p.text) ?? false;
+      const finishReason = chunk.promptFeedback?.blockReason
+        ? "safety"
+        : normalizeFinishReason(chunk.candidates?.[0]?.finishReason);
+      const meta = chunk.usageMetadata;
+      const usage = meta
+        ? {
+            inputTokens: meta.promptTokenCount ?? 0,
+            // Thinking tokens are billed as output
+            outputTokens: (meta.candidatesTokenCount ?? 0) + (meta.thoughtsTokenCount ?? 0),
+            cachedTokens: meta.cachedContentTokenCount ?? 0,
+          }
+        : undefined;
+      yield { text: hasText ? chunk.text : undefined, finishReason, usage };
+    }
+  },
+
+  async generateImage(prompt, model) {
+    const response = await getClient().models.generateContent({
+      model: model ?? process.env.GEMINI_MODEL ?? "gemini-2.5-flash-image",
+      contents: [{ role: "user", parts: [{ text: prompt }] }],
+      config: {
+        responseModalities: ["TEXT", "IMAGE"],
+      },
+    });
+
+    const parts = response.candidates?.[0]?.content?.parts ?? [];
+    for (const part of parts) {
+      if (part.inlineData?.mimeType?.startsWith("image/")) {
+        return { imageData: part.inlineData.data, mimeType: part.inlineData.mimeType };
+      }
+    }
+
+    // If no image part found, return text description
+    const textPart = parts.find((p) => p.text);
+    return { fallbackText: textPart?.text };
+  },
+};
@@ -0,0 +1,99 @@
+import type { LLMChunk, LLMProvider, ProviderName, StreamChatOptions, TokenUsage } from "./types";
+import { toLLMError } from "./errors";
+import { geminiProvider } from "./gemini";
+import { openaiProvider } from "./openai";
+import { anthropicProvider } from "./anthropic";
+import { withRetry } from "./retry";
+import { fixtureKey, withTextFixture } from "./fixtures";
+
+export type {
+  ChatMessage,
+  LLMChunk,
+  LLMProvider,
+  MessagePart,
+  ProviderName,
+  StreamChatOptions,
+  TokenUsage,
+  ToolCall,
+  ToolDefinition,
+} from "./types";
+
+const PROVIDERS: Record<ProviderName, LLMProvider> = {
+  gemini: geminiProvider,
+  openai: openaiProvider,
+  anthropic: anthropicProvider,
+};
+
+export function isProviderName(value: unknown): value is ProviderName {
+  return typeof value === "string" && Object.hasOwn(PROVIDERS, value);
+}
+
+export function getProvider(name?: string): LLMProvider {
+  const resolved = name ?? process.env.LLM_PROVIDER ?? "gemini";
+  if (!isProviderName(resolved)) {
+    throw new Error(`Unknown LLM provider "${resolved}"`);
+  }
+  return PROVIDERS[resolved];
+}
+
+/**
+ * Resolves which provider and model a request should use.
+ * A `model` without an explicit `provider` was written for Gemini (the
+ * instruction YAMLs predate providers), so it is dropped when LLM_PROVIDER
+ * points elsewhere and that provider's default model is used instead.
+ */
+export function resolveModel(route: { provider?: string; model?: string }): {
+  provider: LLMProvider;
+  model: string;
+} {
+  const provider = getProvider(route.provider);
+  const modelApplies = route.provider !== undefined || provider.name === "gemini";
+  const model = (modelApplies && route.model) || process.env.LLM_MODEL || provider.defaultModel();
+  return { provider, model };
+}
+
+/**
+ * Models without function calling (many local servers) reject a request
+ * that declares tools with a 400. Such a request is re-sent once without
+ * tools, and callers fall back to parsing text markers.
+ */
+async function* withToolFallback(
+  withTools: AsyncIterable<LLMChunk>,
+  withoutTools: () => AsyncIterable<LLMChunk>
+): AsyncGenerator<LLMChunk> {
+  let started = false;
+  try {
+    for await (const chunk of withTools) {
+      started = true;
+      yield chunk;
+    }
+  } catch (err) {
+    const error = toLLMError(err);
+    if (started || error.status !== 400) throw error;
+    console.warn("Provider rejected tool declarations — retrying without tools:", error.message);
+    yield* withoutTools();
+  }
+}
+
+// Retries transient failures that happen before the first chunk (see withRetry)
+export function streamChat(options: StreamChatOptions): AsyncIterable<LLMChunk> {
+  const { provider, model } = resolveModel(options);
+  const open = (opts: StreamChatOptions) => withRetry(() => provider.streamChat({ ...opts, model }));
+  if (!options.tools?.length) return open(options);
+  return withToolFallback(open(options), () => open({ ...options, tools: undefined }));
+}
+
+/** Runs a request to completion and returns the full text and its usage (fixture-aware). */
+export async function generateText(options: StreamChatOptions): Promise<{ text: string; usage?: TokenUsage }> {
+  // Keyed by the resolved model, so a recording only replays for the model it came from
+  const { provider, model } = resolveModel(options);
+  return withTextFixture(fixtureKey("text", { ...options, provider: provider.name, model }), async () => {
+    let text = "";
+    let usage: TokenUsage | undefined;
+    for await (const chunk of streamChat(options)) {
+      if (chunk.text) text += chunk.text;
+      if (chunk.usage) usage = chunk.usage;
+    }
+    return { text, usage };
+  });
+}
@@ -0,0 +1,160 @@
+import type { FinishReason, LLMProvider, MessagePart } from "./types";
+import { readSSEData } from "./sse";
+import { LLMError, classifyStatus } from "./errors";
+
+// Works against api.openai.com and any OpenAI-compatible server
+// (llama.cpp `llama-server`, Ollama `/v1`, vLLM, LM Studio …)
+function baseUrl(): string {
+  return (process.env.OPENAI_BASE_URL ?? "https://api.openai.com/v1").replace(/\/$/, "");
+}
+
+function headers(): Record<string, string> {
+  const h: Record<string, string> = { "Content-Type": "application/json" };
+  // Local servers usually run without auth
+  if (process.env.OPENAI_API_KEY) h.Authorization = `Bearer ${process.env.OPENAI_API_KEY}`;
+  return h;
+}
+
+function normalizeFinishReason(reason?: string | null): FinishReason | undefined {
+  if (!reason) return undefined;
+  if (reason === "stop" || reason === "tool_calls") return "stop";
+  if (reason === "length") return "length";
+  if (reason === "content_filter") return "safety";
+  return "other";
+}
+
+function toContentPart(part: MessagePart) {
+  return "text" in part
+    ? { type: "text", text: part.text }
+    : { type: "image_url", image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } };
+}
+
+export const openaiProvider: LLMProvider = {
+  name: "openai",
+
+  defaultModel: () => process.env.OPENAI_MODEL ?? "gpt-4o-mini",
+
+  async *streamChat({
+    model,
+    systemInstruction,
+    history,
+    message,
+    parts,
+    temperature = 0.7,
+    maxOutputTokens = 8192,
+    responseSchema,
+    tools,
+  }) {
+    const messages = [
+      { role: "system", content: systemInstruction },
+      ...history.map((m) => ({
+        role: m.role === "model" ? "assistant" : "user",
+        content: m.parts[0].text,
+      })),
+      { role: "user", content: parts?.length ? [{ text: message }, ...parts].map(toContentPart) : message },
+    ];
+
+    const res = await fetch(`${baseUrl()}/chat/completions`, {
+      method: "POST",
+      headers: headers(),
+      body: JSON.stringify({
+        model,
+        messages,
+        temperature,
+        max_tokens: maxOutputTokens,
+        stream: true,
+        // Adds a final chunk with token counts (ignored by servers that don't support it)
+        stream_options: { include_usage: true },
+        ...(responseSchema && {
+          response_format: {
+            type: "json_schema",
+            json_schema: { name: "response", schema: responseSchema, strict: true },
+          },
+        }),
+        ...(tools?.length && {
+          tools: tools.map((t) => ({
+            type: "function",
+            function: { name: t.name, description: t.description, parameters: t.parameters },
+          })),
+        }),
+      }),
+    });
+
+    if (!res.ok || !res.body) {
+      const detail = await res.text();
+      throw new LLMError(
+        classifyStatus(res.status, detail),
+        `OpenAI-compatible API error ${res.status}: ${detail}`,
+        res.status
+      );
+    }
+
+    // Tool call arguments stream as JSON fragments keyed by index; emitted once the choice finishes
+    const pendingCalls = new Map<number, { id: string; name: string; args: string }>();
+    const flushCalls = function* () {
+      for (const [index, call] of pendingCalls) {
+        let args: Record<string, unknown> = {};
+        try {
+          args = call.args ? JSON.parse(call.args) : {};
+        } catch {
+          console.warn(`Dropping tool call ${call.name}: arguments are not valid JSON`);
+          continue;
+        }
+        yield { toolCall: { id: call.id || `call_${index}`, name: call.name, args } };
+      }
+      pendingCalls.clear();
+    };
+
+    for await (const data of readSSEData(res.body)) {
+      if (data === "[DONE]") break;
+      let parsed;
+      try {
+        parsed = JSON.parse(data);
+      } catch {
+        continue; // ignore keep-alive noise
+      }
+      const choice = parsed.choices?.[0];
+      for (const delta of choice?.delta?.tool_calls ?? []) {
+        const call = pendingCalls.get(delta.index) ?? { id: "", name: "", args: "" };
+        if (delta.id) call.id = delta.id;
+        if (delta.function?.name) call.name += delta.function.name;
+        if (delta.function?.arguments) call.args += delta.function.arguments;
+        pendingCalls.set(delta.index, call);
+      }
+      if (choice?.finish_reason) yield* flushCalls();
+
+      const text = choice?.delta?.content;
+      const finishReason = normalizeFinishReason(choice?.finish_reason);
+      const usage = parsed.usage
+        ? {
+            inputTokens: parsed.usage.prompt_tokens ?? 0,
+            outputTokens: parsed.usage.completion_tokens ?? 0,
+            cachedTokens: parsed.usage.prompt_tokens_details?.cached_tokens ?? 0,
+          }
+        : undefined;
+      if (text || finishReason || usage) yield { text, finishReason, usage };
+    }
+    // Servers that end the stream without a finish_reason
+    yield* flushCalls();
+  },
+
+  async generateImage(prompt, model) {
+    const res = await fetch(`${baseUrl()}/images/generations`, {
+      method: "POST",
+      headers: headers(),
+      body: JSON.stringify({
+        model: model ?? process.env.OPENAI_IMAGE_MODEL ?? "gpt-image-1",
+        prompt,
+        n: 1,
+        response_format: "b64_json",
+      }),
+    });
+
+    if (!res.ok) {
+      return { fallbackText: `Image API error ${res.status}` };
+    }
+    const data = await res.json();
+    const b64 = data.data?.[0]?.b64_json;
+    return b64 ? { imageData: b64, mimeType: "image/png" } : {};
+  },
+};
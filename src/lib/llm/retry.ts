@@ -0,0 +1,66 @@
+import type { LLMChunk } from "./types";
+import { LLMError, toLLMError } from "./errors";
+
+export interface RetryOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  // How long to wait for the first chunk before treating the attempt as timed out
+  firstChunkTimeoutMs?: number;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new LLMError("timeout", `No response from the model after ${Math.round(ms / 1000)}s`)),
+      ms
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Opens a stream and retries with exponential backoff (plus jitter) while no
+ * chunk has been received yet. Once the first chunk arrives the stream is
+ * committed — later failures are thrown to the caller, since replaying would
+ * duplicate text the client has already rendered.
+ */
+export async function* withRetry(
+  open: () => AsyncIterable<LLMChunk>,
+  {
+    maxRetries = Number(process.env.LLM_MAX_RETRIES ?? 3),
+    baseDelayMs = 1000,
+    firstChunkTimeoutMs = 60_000,
+  }: RetryOptions = {}
+): AsyncGenerator<LLMChunk> {
+  for (let attempt = 0; ; attempt++) {
+    const iterator = open()[Symbol.asyncIterator]();
+    let first: IteratorResult<LLMChunk>;
+
+    try {
+      first = await withTimeout(iterator.next(), firstChunkTimeoutMs);
+    } catch (err) {
+      const error = toLLMError(err);
+      void iterator.return?.();
+      if (!error.retryable || attempt >= maxRetries) throw error;
+      const delay = baseDelayMs * 2 ** attempt + Math.random() * baseDelayMs;
+      console.warn(`LLM ${error.kind} before first chunk — retry ${attempt + 1}/${maxRetries} in ${Math.round(delay)}ms`);
+      await sleep(delay);
+      continue;
+    }
+
+    if (first.done) return;
+    yield first.value;
+
+    try {
+      for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+        yield next.value;
+      }
+    } catch (err) {
+      throw toLLMError(err);
+    }
+    return;
+  }
+}
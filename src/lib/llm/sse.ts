@@ -0,0 +1,31 @@
+/**
+ * Reads an upstream Server-Sent Events body and yields each `data:` payload.
+ * Lines are buffered across network chunks so a payload split in two is
+ * never dropped.
+ */
+export async function* readSSEData(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) !== -1) {
+        const line = buffer.slice(0, newline).replace(/\r$/, "");
+        buffer = buffer.slice(newline + 1);
+        if (line.startsWith("data:")) yield line.slice(5).trimStart();
+      }
+    }
+    const tail = buffer.trim();
+    if (tail.startsWith("data:")) yield tail.slice(5).trimStart();
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,74 @@
+// Provider-neutral types shared by the LLM adapters and the API routes
+
+export type ProviderName = "gemini" | "openai" | "anthropic";
+
+export interface ChatMessage {
+  role: "user" | "model";
+  parts: [{ text: string }];
+}
+
+// Further content of the user message: attachment text, or base64 image data
+export type MessagePart = { text: string } | { inlineData: { mimeType: string; data: string } };
+
+export interface StreamChatOptions {
+  provider?: ProviderName;
+  model?: string;
+  systemInstruction: string;
+  history: ChatMessage[];
+  message: string;
+  // Sent with `message` as one multimodal user turn
+  parts?: MessagePart[];
+  temperature?: number;
+  maxOutputTokens?: number;
+  // JSON Schema the response must follow — enforced natively where the provider supports it
+  responseSchema?: Record<string, unknown>;
+  // Functions the model may call; calls come back as `toolCall` chunks
+  tools?: ToolDefinition[];
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  // JSON Schema for the arguments object
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export type FinishReason = "stop" | "length" | "safety" | "other";
+
+export interface TokenUsage {
+  // Prompt tokens, including any served from the provider's prompt cache
+  inputTokens: number;
+  outputTokens: number;
+  // Portion of inputTokens read from the prompt cache (billed at a discount)
+  cachedTokens: number;
+}
+
+export interface LLMChunk {
+  text?: string;
+  // Set on the final chunk when the provider reports why generation ended
+  finishReason?: FinishReason;
+  // Running totals for the request — the last chunk that carries usage wins
+  usage?: TokenUsage;
+  // Emitted once a call's arguments are complete, never partially
+  toolCall?: ToolCall;
+}
+
+export interface GeneratedImage {
+  imageData?: string;
+  mimeType?: string;
+  fallbackText?: string;
+}
+
+export interface LLMProvider {
+  name: ProviderName;
+  defaultModel: () => string;
+  streamChat: (options: StreamChatOptions & { model: string }) => AsyncIterable<LLMChunk>;
+  // Optional — only some backends can produce images; `model` falls back to the provider's image default
+  generateImage?: (prompt: string, model?: string) => Promise<GeneratedImage>;
+}
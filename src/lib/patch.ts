@@ -0,0 +1,188 @@
+/**
+ * Section-anchored document patches — pure, client-safe.
+ * The model changes an existing document with insert/replace/delete
+ * operations instead of re-emitting it, either through the patch_document
+ * tool or a ~~~patch:Type block. applyPatch is deterministic: each op is
+ * resolved against the document as left by the previous one, text outside
+ * the touched section stays byte-identical, and an op whose anchor is
+ * missing or ambiguous is returned as a failure instead of guessed at.
+ */
+
+import { matchSections, spliceSection, type DocSection } from "./sections";
+
+export type PatchOp =
+  // Swap the whole section (heading through subsections) for `content`
+  | { op: "replace"; section: string; content: string }
+  // New content directly before the section's heading or after its last subsection
+  | { op: "insert"; position: "before" | "after"; section: string; content: string }
+  | { op: "delete"; section: string };
+
+export interface DocPatch {
+  docType: string;
+  ops: PatchOp[];
+}
+
+// An op that could not be applied, kept on the session until the user resolves it
+export interface PatchConflict {
+  id: string;
+  docType: string;
+  op: PatchOp;
+  reason: string;
+  createdAt: number;
+}
+
+export interface PatchResult {
+  content: string;
+  applied: number;
+  failed: { op: PatchOp; reason: string }[];
+}
+
+function resolveAnchor(content: string, anchor: string): DocSection | string {
+  const matches = matchSections(content, anchor);
+  if (matches.length === 0) return `no section "${anchor}"`;
+  if (matches.length > 1) return `"${anchor}" matches ${matches.length} sections`;
+  return matches[0];
+}
+
+// Inserts a block at `at`, separated from its neighbours by a blank line
+function insertAt(content: string, at: number, block: string): string {
+  const before = content.slice(0, at);
+  const after = content.slice(at);
+  const lead = before === "" || before.endsWith("\n\n") ? "" : before.endsWith("\n") ? "\n" : "\n\n";
+  return `${before}${lead}${block}${after ? "\n\n" : "\n"}${after}`;
+}
+
+export function applyPatchOp(content: string, op: PatchOp): { content: string } | { reason: string } {
+  const section = resolveAnchor(content, op.section);
+  if (typeof section === "string") return { reason: section };
+  return applyPatchOpAt(content, op, section);
+}
+
+/** Applies `op` to an already-resolved section — used when the user re-anchors a conflict. */
+export function applyPatchOpAt(content: string, op: PatchOp, section: DocSection): { content: string } | { reason: string } {
+  switch (op.op) {
+    case "replace":
+      if (!op.content.trim()) return { reason: "replacement is empty" };
+      return { content: spliceSection(content, section, op.content) };
+    case "delete":
+      return { content: content.slice(0, section.start) + content.slice(section.end) };
+    case "insert":
+      if (!op.content.trim()) return { reason: "inserted content is empty" };
+      return { content: insertAt(content, op.position === "before" ? section.start : section.end, op.content.trim()) };
+  }
+}
+
+/** Adds a block at the end of the document, for conflicts the user resolves by appending. */
+export function appendToDocument(content: string, block: string): string {
+  return insertAt(content, content.length, block.trim());
+}
+
+/** Applies ops in order; failed ops are skipped and reported, the rest still apply. */
+export function applyPatch(content: string, ops: PatchOp[]): PatchResult {
+  let current = content;
+  let applied = 0;
+  const failed: PatchResult["failed"] = [];
+  for (const op of ops) {
+    const result = applyPatchOp(current, op);
+    if ("reason" in result) {
+      failed.push({ op, reason: result.reason });
+    } else {
+      current = result.content;
+      applied++;
+    }
+  }
+  return { content: current, applied, failed };
+}
+
+export interface DocPatchesResult {
+  // Final content of every document a patch changed
+  documents: Record<string, string>;
+  conflicts: PatchConflict[];
+  // Patches that target a document which does not exist
+  failures: string[];
+}
+
+/** Applies patches in order against the current documents; later patches see earlier ones. */
+export function applyDocPatches(patches: DocPatch[], existingDocs: Record<string, string>): DocPatchesResult {
+  const documents: Record<string, string> = {};
+  const conflicts: PatchConflict[] = [];
+  const failures: string[] = [];
+  for (const { docType, ops } of patches) {
+    const doc = documents[docType] ?? existingDocs[docType];
+    if (doc === undefined) {
+      failures.push(`patch: ${docType || "(no type)"} does not exist yet`);
+      continue;
+    }
+    const result = applyPatch(doc, ops);
+    if (result.applied > 0) documents[docType] = result.content;
+    for (const { op, reason } of result.failed) {
+      conflicts.push({ id: crypto.randomUUID(), docType, op, reason, createdAt: Date.now() });
+    }
+  }
+  return { documents, conflicts, failures };
+}
+
+// ── Parsing ──
+
+const str = (v: unknown) => (typeof v === "string" ? v : "");
+
+/** Validates ops from tool arguments; returns an error message for anything malformed. */
+export function parsePatchOps(value: unknown): PatchOp[] | string {
+  if (!Array.isArray(value) || value.length === 0) return "operations must be a non-empty array";
+  const ops: PatchOp[] = [];
+  for (const [i, raw] of value.entries()) {
+    const item = (typeof raw === "object" && raw !== null ? raw : {}) as Record<string, unknown>;
+    const section = str(item.section).trim();
+    const content = str(item.content);
+    if (!section) return `operations[${i}].section is required`;
+    if (item.op === "replace" || item.op === "delete") {
+      ops.push(item.op === "replace" ? { op: "replace", section, content } : { op: "delete", section });
+    } else if (item.op === "insert_before" || item.op === "insert_after") {
+      ops.push({ op: "insert", position: item.op === "insert_before" ? "before" : "after", section, content });
+    } else {
+      return `operations[${i}].op must be replace, insert_before, insert_after or delete`;
+    }
+  }
+  return ops;
+}
+
+const PATCH_BLOCK_RE = /^~~~patch:([^\n]+)\n([\s\S]*?)^~~~[ \t]*$/gm;
+const OP_LINE_RE = /^@@[ \t]*(replace|delete|insert[ \t]+before|insert[ \t]+after)[ \t]*:[ \t]*(.+?)[ \t]*$/i;
+
+/**
+ * Extracts ~~~patch:Type blocks from response text. Each op starts with an
+ * `@@ replace: Section`, `@@ insert after: Section`, `@@ insert before: Section`
+ * or `@@ delete: Section` line; the lines up to the next op are its content.
+ */
+export function parsePatchBlocks(text: string): { cleanText: string; patches: DocPatch[] } {
+  const patches: DocPatch[] = [];
+  for (const match of text.matchAll(PATCH_BLOCK_RE)) {
+    const ops: PatchOp[] = [];
+    let current: { kind: string; section: string; lines: string[] } | null = null;
+    const flush = () => {
+      if (!current) return;
+      const content = current.lines.join("\n").trim();
+      const kind = current.kind.toLowerCase().replace(/\s+/g, " ");
+      if (kind === "delete") ops.push({ op: "delete", section: current.section });
+      else if (kind === "replace") ops.push({ op: "replace", section: current.section, content });
+      else ops.push({ op: "insert", position: kind === "insert before" ? "before" : "after", section: current.section, content });
+    };
+    for (const line of match[2].split("\n")) {
+      const op = line.match(OP_LINE_RE);
+      if (op) {
+        flush();
+        current = { kind: op[1], section: op[2], lines: [] };
+      } else {
+        current?.lines.push(line);
+      }
+    }
+    flush();
+    if (ops.length > 0) patches.push({ docType: match[1].trim(), ops });
+  }
+  return { cleanText: text.replace(PATCH_BLOCK_RE, "").trim(), patches };
+}
+
+/** One-line description of an op, for chat notes and the conflict list. */
+export function describePatchOp(op: PatchOp): string {
+  return op.op === "insert" ? `insert ${op.position} "${op.section}"` : `${op.op} "${op.section}"`;
+}
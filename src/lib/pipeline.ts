@@ -0,0 +1,134 @@
+/**
+ * Full-suite pipeline — client-safe.
+ * Generates every document in dependency order, one step at a time, with an
+ * optional verifier pass after each one. The state is kept on the Session so
+ * a reload picks the run up where it stopped.
+ */
+
+import { dependencyOrder } from "./dependencies";
+import type { DocDefinition } from "./doc-definitions";
+
+// Each document is written with the ones before it in context; suiteOrder adds custom types
+export const PIPELINE_ORDER = [
+  "PRD",
+  "Design Document",
+  "Tech Stack",
+  "Architecture",
+  "Data Model",
+  "API Spec",
+  "Tech Spec",
+  "Security Spec",
+  "UI Design",
+  "Roadmap",
+  "Task List",
+  "Vibe Prompt",
+];
+
+export type PipelineStepStatus = "pending" | "running" | "verifying" | "done" | "skipped" | "failed";
+
+export interface PipelineStep {
+  docType: string;
+  status: PipelineStepStatus;
+  // Why the step failed
+  error?: string;
+}
+
+export interface PipelineState {
+  id: string;
+  steps: PipelineStep[];
+  status: "running" | "paused" | "done";
+  // Run the verifier after each document and pause on critical issues
+  verifyBetween: boolean;
+  // Why the run paused, when it paused by itself
+  note?: string;
+  // Document whose dependents the run regenerates; unset for a full-suite run
+  refreshFrom?: string;
+  createdAt: number;
+}
+
+/**
+ * The suite order with custom types slotted in right after the last type they
+ * depend on (custom upstreams included), or before the Vibe Prompt when they
+ * depend on nothing.
+ */
+export function suiteOrder(definitions: DocDefinition[]): string[] {
+  const order = PIPELINE_ORDER.filter((docType) => docType !== "Vibe Prompt");
+  const custom = dependencyOrder(definitions.filter((d) => d.scope).map((d) => d.docKey), definitions);
+  for (const docType of custom) {
+    const upstream = definitions.find((d) => d.docKey === docType)?.dependsOn ?? [];
+    const last = Math.max(-1, ...upstream.map((up) => order.indexOf(up)));
+    order.splice(upstream.length > 0 ? last + 1 : order.length, 0, docType);
+  }
+  return [...order, "Vibe Prompt"];
+}
+
+/** A new full-suite run; documents that already exist start out skipped. */
+export function createPipeline(
+  existingDocs: Record<string, string>,
+  verifyBetween: boolean,
+  definitions: DocDefinition[]
+): PipelineState {
+  return {
+    id: crypto.randomUUID(),
+    steps: suiteOrder(definitions).map((docType) => ({ docType, status: docType in existingDocs ? "skipped" : "pending" })),
+    status: "running",
+    verifyBetween,
+    createdAt: Date.now(),
+  };
+}
+
+/** A run that regenerates `docTypes`, already in dependency order, after `refreshFrom` changed. */
+export function createRefreshPipeline(docTypes: string[], refreshFrom: string, verifyBetween: boolean): PipelineState {
+  return {
+    id: crypto.randomUUID(),
+    steps: docTypes.map((docType) => ({ docType, status: "pending" })),
+    status: "running",
+    verifyBetween,
+    refreshFrom,
+    createdAt: Date.now(),
+  };
+}
+
+const SETTLED: PipelineStepStatus[] = ["done", "skipped"];
+
+/** Index of the step the run is on, or -1 once every step is done or skipped. */
+export function currentStepIndex(pipeline: PipelineState): number {
+  return pipeline.steps.findIndex((s) => !SETTLED.includes(s.status));
+}
+
+export function updateStep(pipeline: PipelineState, index: number, patch: Partial<PipelineStep>): PipelineState {
+  return { ...pipeline, steps: pipeline.steps.map((s, i) => (i === index ? { ...s, ...patch } : s)) };
+}
+
+/** Whether any step after `index` still has to run. */
+export function hasPendingAfter(pipeline: PipelineState, index: number): boolean {
+  return pipeline.steps.slice(index + 1).some((s) => s.status === "pending");
+}
+
+/**
+ * A run loaded from storage: the request of a running step died with the
+ * page, so it starts over, and a verifier pass in flight is dropped. The run
+ * waits for the user to resume it.
+ */
+export function restorePipeline(pipeline: PipelineState): PipelineState {
+  if (pipeline.status !== "running" && !pipeline.steps.some((s) => s.status === "running" || s.status === "verifying")) {
+    return pipeline;
+  }
+  return {
+    ...pipeline,
+    status: pipeline.status === "done" ? "done" : "paused",
+    note: pipeline.status === "running" ? "Interrupted by a page reload" : pipeline.note,
+    steps: pipeline.steps.map((s) =>
+      s.status === "running" ? { ...s, status: "pending" } : s.status === "verifying" ? { ...s, status: "done" } : s
+    ),
+  };
+}
+
+/** Resuming retries a failed step. */
+export function resumePipeline(pipeline: PipelineState): PipelineState {
+  const index = currentStepIndex(pipeline);
+  const resumed: PipelineState = { ...pipeline, status: "running", note: undefined };
+  return index !== -1 && pipeline.steps[index].status === "failed"
+    ? updateStep(resumed, index, { status: "pending", error: undefined })
+    : resumed;
+}
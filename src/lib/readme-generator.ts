@@ -1,45 +1,22 @@
 /**
  * Auto-generates a README.md for the AI-Ready Kit export.
- * Pure function — no side effects, no dependencies.
+ * Pure function — no side effects, no runtime dependencies.
  */
 
-const DOC_PURPOSE: Record<string, string> = {
-  PRD: "Product requirements, user stories, and success metrics",
-  "Design Document": "System design decisions and trade-offs",
-  "Tech Stack": "Framework, library, database, and hosting choices",
-  Architecture: "C4 model system architecture and component diagram",
-  "Tech Spec": "Implementation blueprint with data models and business rules",
-  Roadmap: "Phased milestones, timelines, and delivery plan",
-  "API Spec": "Endpoint definitions, schemas, and authentication",
-  "UI Design": "Design system, typography, color palette, and layouts",
-  "Task List": "Nested implementation tasks with priorities",
-  "Security Spec": "Threat model, auth flows, data protection, and compliance",
-  "Data Model": "Entity definitions, relationships, indexing, and migrations",
-  "Vibe Prompt": "AI-ready handoff prompt synthesizing all documents",
-};
-
-const DOC_FILENAME: Record<string, string> = {
-  PRD: "prd.md",
-  "Design Document": "design-document.md",
-  "Tech Stack": "tech-stack.md",
-  Architecture: "architecture.md",
-  "Tech Spec": "tech-spec.md",
-  Roadmap: "roadmap.md",
-  "API Spec": "api-spec.md",
-  "UI Design": "ui-design.md",
-  "Task List": "task-list.md",
-  "Security Spec": "security-spec.md",
-  "Data Model": "data-model.md",
-  "Vibe Prompt": "vibe-prompt.md",
-};
-
-export function getDocFilename(docType: string): string {
-  return DOC_FILENAME[docType] ?? `${docType.toLowerCase().replace(/\s+/g, "-")}.md`;
+import type { DocDefinition } from "./doc-definitions";
+
+// File name and README purpose come from the document's definition
+type DocMeta = Pick<DocDefinition, "docKey" | "filename" | "purpose">;
+
+export function getDocFilename(docType: string, definitions: DocMeta[]): string {
+  return definitions.find((d) => d.docKey === docType)?.filename ?? `${docType.toLowerCase().replace(/\s+/g, "-")}.md`;
 }
 
 export function generateReadme(
   documents: Record<string, string>,
   sessionName: string,
+  decisions: { number: number; title: string; status: string; filename: string }[] = [],
+  definitions: DocMeta[] = [],
 ): string {
   const date = new Date().toISOString().split("T")[0];
   const docTypes = Object.keys(documents);
@@ -47,13 +24,17 @@ export function generateReadme(
 
   const docTable = docTypes
     .map((dt) => {
-      const filename = getDocFilename(dt);
-      const purpose = DOC_PURPOSE[dt] ?? "Project documentation";
+      const filename = getDocFilename(dt, definitions);
+      const purpose = definitions.find((d) => d.docKey === dt)?.purpose || "Project documentation";
       const location = dt === "Vibe Prompt" ? "`VIBE_PROMPT.md` (root)" : `\`docs/${filename}\``;
       return `| ${dt} | ${location} | ${purpose} |`;
     })
     .join("\n");
 
+  const decisionTable = decisions
+    .map((d) => `| ADR-${String(d.number).padStart(4, "0")} | ${d.title} | ${d.status} | \`docs/adr/${d.filename}\` |`)
+    .join("\n");
+
   return `# ${sessionName} — AI-Ready Project Kit
 
 > Generated by APEX-CYBERNETIC · ${date}
@@ -82,6 +63,18 @@ ${
 |----------|----------|---------|
 ${docTable}
 
+${
+  decisions.length > 0
+    ? `## 🧭 Architecture Decisions
+
+Settled decisions are recorded as ADRs in \`docs/adr/\`. Follow the accepted ones — do not revisit them without recording a new ADR that supersedes them.
+
+| ADR | Decision | Status | Location |
+|-----|----------|--------|----------|
+${decisionTable}
+`
+    : ""
+}
 ${
   hasVibe
     ? `## 🤖 AI Handoff
@@ -0,0 +1,63 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { recordStream, replayStream, type RecordedStream } from "./stream-recorder";
+
+/**
+ * File-based cache of complete SSE responses. A hit replays the original
+ * stream (chunk boundaries intact) so the client UX is unchanged.
+ * Streams that ended with an error event are never cached.
+ */
+
+// Cached replays stream quickly but still visibly
+const CACHE_REPLAY_DELAY_MS = 15;
+
+function cacheDir(): string {
+  return process.env.RESPONSE_CACHE_DIR ?? path.join(process.cwd(), ".cache", "responses");
+}
+
+function cachePath(key: string): string {
+  return path.join(cacheDir(), `${key}.json`);
+}
+
+export function hashContent(value: unknown): string {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return crypto.createHash("sha256").update(text).digest("hex");
+}
+
+/** Stable hash of a document set, independent of key order. */
+export function hashDocuments(documents: Record<string, string>): string {
+  return hashContent(Object.keys(documents).sort().map((k) => [k, documents[k]]));
+}
+
+export function responseCacheKey(parts: Record<string, unknown>): string {
+  return hashContent(parts).slice(0, 32);
+}
+
+export function isResponseCacheEnabled(): boolean {
+  return process.env.RESPONSE_CACHE !== "off";
+}
+
+export function readCachedSSE(key: string): { stream: ReadableStream<Uint8Array>; createdAt: number } | null {
+  if (!isResponseCacheEnabled()) return null;
+  try {
+    const recording = JSON.parse(fs.readFileSync(cachePath(key), "utf-8")) as RecordedStream;
+    return { stream: replayStream(recording, CACHE_REPLAY_DELAY_MS), createdAt: recording.createdAt };
+  } catch {
+    return null;
+  }
+}
+
+export function cacheSSE(key: string, stream: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
+  if (!isResponseCacheEnabled()) return stream;
+  return recordStream(stream, (recording) => {
+    // Failed responses are never cached (`{"error":` is the pre-typed-event form)
+    if (recording.chunks.some((c) => c.data.includes('"type":"error"') || c.data.includes('{"error":'))) return;
+    try {
+      fs.mkdirSync(cacheDir(), { recursive: true });
+      fs.writeFileSync(cachePath(key), JSON.stringify(recording));
+    } catch (err) {
+      console.error("Failed to write response cache:", err);
+    }
+  });
+}
@@ -0,0 +1,149 @@
+/**
+ * Local lexical retrieval over document sections (BM25) — pure, client-safe.
+ * Used to send only the parts of other documents that matter for the current
+ * request instead of pasting every document in full.
+ */
+
+import { splitIntoChunks, outline } from "./sections";
+import { estimateTokens } from "./tokens";
+
+export interface IncludedSection {
+  docType: string;
+  heading: string;
+  tokens: number;
+  // null when the whole document was included
+  score: number | null;
+}
+
+export interface RetrievalResult {
+  context: string;
+  included: IncludedSection[];
+}
+
+interface RetrieveOptions {
+  // Doc types never included (e.g. the doc being generated)
+  exclude?: string[];
+  // Doc types always included in full
+  fullDocs?: string[];
+  // Token budget for retrieved excerpts (full docs are not counted against it)
+  tokenBudget?: number;
+  // Excerpts already present verbatim in this text are skipped
+  alreadyPresent?: string;
+}
+
+export const DEFAULT_RETRIEVAL_BUDGET = 12_000;
+
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set(
+  "a an and are as at be by for from has have in is it its of on or that the this to was were will with we you your our can should must not all any each into than then them they these those which who what when where how also may more most other such only own same so too very just do does done per via use used using".split(" ")
+);
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length > 1 && !STOPWORDS.has(t));
+}
+
+interface Chunk {
+  docType: string;
+  order: number;
+  heading: string;
+  path: string[];
+  text: string;
+  terms: string[];
+}
+
+function bm25Scores(chunks: Chunk[], queryTerms: string[]): number[] {
+  const n = chunks.length;
+  const avgLen = chunks.reduce((sum, c) => sum + c.terms.length, 0) / Math.max(n, 1);
+
+  const df = new Map<string, number>();
+  for (const c of chunks) {
+    for (const term of new Set(c.terms)) df.set(term, (df.get(term) ?? 0) + 1);
+  }
+
+  const uniqueQuery = [...new Set(queryTerms)];
+  return chunks.map((c) => {
+    const tf = new Map<string, number>();
+    for (const term of c.terms) tf.set(term, (tf.get(term) ?? 0) + 1);
+
+    let score = 0;
+    for (const term of uniqueQuery) {
+      const f = tf.get(term);
+      if (!f) continue;
+      const docFreq = df.get(term) ?? 0;
+      const idf = Math.log(1 + (n - docFreq + 0.5) / (docFreq + 0.5));
+      score += idf * ((f * (K1 + 1)) / (f + K1 * (1 - B + (B * c.terms.length) / avgLen)));
+    }
+    return score;
+  });
+}
+
+/**
+ * Picks the sections of `docs` most relevant to `query` within a token
+ * budget, and renders them (grouped per document, in document order) along
+ * with each document's outline so the model knows what else exists.
+ */
+export function retrieveSections(
+  docs: Record<string, string>,
+  query: string,
+  { exclude = [], fullDocs = [], tokenBudget = DEFAULT_RETRIEVAL_BUDGET, alreadyPresent = "" }: RetrieveOptions = {}
+): RetrievalResult {
+  const candidates = Object.entries(docs).filter(([type]) => !exclude.includes(type));
+  const included: IncludedSection[] = [];
+  const blocks: string[] = [];
+
+  // Explicitly requested documents go in whole
+  for (const [type, content] of candidates) {
+    if (!fullDocs.includes(type)) continue;
+    blocks.push(`### ${type} (full document)\n\n${content}`);
+    included.push({ docType: type, heading: "", tokens: estimateTokens(content), score: null });
+  }
+
+  const chunks: Chunk[] = [];
+  for (const [type, content] of candidates) {
+    if (fullDocs.includes(type)) continue;
+    splitIntoChunks(content).forEach((c, order) => {
+      if (alreadyPresent && alreadyPresent.includes(c.text)) return;
+      // Headings count twice — they are the densest signal of what a section is about
+      const terms = tokenize(`${c.path.join(" ")} ${c.heading} ${c.heading} ${c.text}`);
+      chunks.push({ docType: type, order, heading: c.heading, path: c.path, text: c.text, terms });
+    });
+  }
+
+  const scores = bm25Scores(chunks, tokenize(query));
+  const ranked = chunks
+    .map((chunk, i) => ({ chunk, score: scores[i] }))
+    .filter((r) => r.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  const picked: { chunk: Chunk; score: number }[] = [];
+  let used = 0;
+  for (const r of ranked) {
+    const tokens = estimateTokens(r.chunk.text);
+    if (used + tokens > tokenBudget) continue;
+    picked.push(r);
+    used += tokens;
+  }
+
+  // Render per document, sections back in reading order
+  for (const [type, content] of candidates) {
+    if (fullDocs.includes(type)) continue;
+    const docPicks = picked.filter((p) => p.chunk.docType === type).sort((a, b) => a.chunk.order - b.chunk.order);
+    const map = outline(content);
+    const excerpts = docPicks
+      .map((p) => {
+        included.push({ docType: type, heading: p.chunk.heading, tokens: estimateTokens(p.chunk.text), score: Number(p.score.toFixed(2)) });
+        return p.chunk.text;
+      })
+      .join("\n\n[…]\n\n");
+    blocks.push(
+      `### ${type}\n\nOutline:\n${map || "(no headings)"}\n\n${excerpts ? `Relevant excerpts:\n\n${excerpts}` : "(no sections relevant to this request)"}`
+    );
+  }
+
+  return { context: blocks.join("\n\n---\n\n"), included };
+}
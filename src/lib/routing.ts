@@ -0,0 +1,50 @@
+/**
+ * Per-task model routing — pure, client-safe.
+ * Each task type can run on its own provider/model. Defaults come from the
+ * `routing` block of the instruction YAMLs; a session can override any task
+ * from Session Settings.
+ */
+
+import type { ProviderName } from "./llm/types";
+
+export type TaskType = "guided" | "document" | "harmonize" | "verify" | "image";
+
+export const TASK_TYPES: { task: TaskType; label: string; description: string }[] = [
+  { task: "guided", label: "Guided questions", description: "Interview turns in guided mode" },
+  { task: "document", label: "Document generation", description: "Full document drafts and updates" },
+  { task: "verify", label: "Verify", description: "Cybernetic Verifier telemetry runs" },
+  { task: "harmonize", label: "Harmonize", description: "Applying verifier fixes to documents" },
+  { task: "image", label: "Images", description: "Inline diagrams and visuals" },
+];
+
+export const PROVIDER_OPTIONS: ProviderName[] = ["gemini", "openai", "anthropic"];
+
+export interface ModelRoute {
+  provider?: ProviderName;
+  model?: string;
+}
+
+export type ModelRouting = Partial<Record<TaskType, ModelRoute>>;
+
+export function isTaskType(value: unknown): value is TaskType {
+  return TASK_TYPES.some((t) => t.task === value);
+}
+
+/**
+ * Session override → YAML `routing` entry → the YAML's top-level model.
+ * Overrides always name a provider (Session Settings requires one), so an
+ * override model is never mistaken for a Gemini model the way a bare YAML
+ * `model` is.
+ */
+export function pickRoute(
+  task: TaskType | undefined,
+  config: ModelRoute & { routing?: ModelRouting },
+  overrides?: ModelRouting | null
+): ModelRoute {
+  if (!task) return { provider: config.provider, model: config.model };
+  const override = overrides?.[task];
+  if (override?.provider && PROVIDER_OPTIONS.includes(override.provider)) {
+    return { provider: override.provider, model: override.model?.trim() || undefined };
+  }
+  return config.routing?.[task] ?? { provider: config.provider, model: config.model };
+}
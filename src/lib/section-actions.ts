@@ -0,0 +1,73 @@
+/**
+ * Section-level rewrites from the document preview — client-safe.
+ * The client sends one section plus the document outline to /api/section
+ * and splices the returned markdown back with spliceSection, so the rest of
+ * the document never passes through the model.
+ */
+
+import { parseHeadings, type DocSection } from "./sections";
+
+export type SectionAction = "regenerate" | "expand" | "simplify";
+
+export const SECTION_ACTIONS: { action: SectionAction; label: string; instruction: string }[] = [
+  {
+    action: "regenerate",
+    label: "Regenerate section",
+    instruction:
+      "Rewrite this section from scratch at the same depth and length. Keep every decision, name and number it already commits to unless it contradicts the rest of the outline.",
+  },
+  {
+    action: "expand",
+    label: "Expand section",
+    instruction:
+      "Expand this section with more concrete detail — edge cases, examples, acceptance criteria, tables where they help. Keep everything already in it.",
+  },
+  {
+    action: "simplify",
+    label: "Simplify section",
+    instruction:
+      "Simplify this section: cut repetition and filler, prefer short sentences and lists, and keep every decision, requirement and number it contains.",
+  },
+];
+
+export const isSectionAction = (value: unknown): value is SectionAction =>
+  SECTION_ACTIONS.some((a) => a.action === value);
+
+export const SECTION_INSTRUCTION = `You rewrite ONE section of a larger project document. You see that section and the outline of the whole document, never the rest of its text.
+
+Rules:
+- Return ONLY the rewritten section in markdown, starting with its original heading line exactly as given.
+- Keep the heading level; subsections keep their levels relative to it.
+- Do not add content that belongs to other sections in the outline.
+- No preamble, no closing remarks, no code fences or ~~~ markers around the section.`;
+
+/** Document outline with the target section marked, for context without the full text. */
+export function sectionOutline(content: string, section: DocSection): string {
+  return parseHeadings(content)
+    .map((h) => `${"  ".repeat(h.level - 1)}- ${h.title}${h.start === section.start ? "  ← THIS SECTION" : ""}`)
+    .join("\n");
+}
+
+export function buildSectionPrompt(action: SectionAction, docType: string, section: string, outline: string): string {
+  const { instruction } = SECTION_ACTIONS.find((a) => a.action === action)!;
+  return `# ${docType} — section rewrite
+
+## Document outline
+
+${outline}
+
+## Section
+
+${section}
+
+## Task
+
+${instruction}`;
+}
+
+// Models sometimes wrap the section in a fence or doc marker despite the instruction
+export function cleanSectionResponse(text: string): string {
+  const trimmed = text.trim();
+  const wrapped = trimmed.match(/^(?:```(?:markdown|md)?|~~~(?:doc:[^\n]*)?)\n([\s\S]*?)\n(?:```|~~~)$/);
+  return (wrapped ? wrapped[1] : trimmed).trim();
+}
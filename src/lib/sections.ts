@@ -0,0 +1,127 @@
+/**
+ * Markdown section parsing — pure, client-safe.
+ * A section runs from an ATX heading to the next heading of the same or a
+ * higher level; headings inside fenced code blocks are ignored.
+ */
+
+export interface Heading {
+  level: number;
+  title: string;
+  // Offsets into the source: start of the heading line, end of the heading line (incl. newline)
+  start: number;
+  lineEnd: number;
+}
+
+export interface DocSection extends Heading {
+  // End offset of the whole section (exclusive), including its subsections
+  end: number;
+  // Titles of enclosing headings, outermost first
+  path: string[];
+}
+
+const HEADING_RE = /^(#{1,6})[ \t]+(.+?)[ \t#]*$/;
+const FENCE_RE = /^\s*(```|~~~)/;
+
+export function parseHeadings(content: string): Heading[] {
+  const headings: Heading[] = [];
+  let offset = 0;
+  let fence: string | null = null;
+
+  for (const line of content.split("\n")) {
+    const lineEnd = Math.min(offset + line.length + 1, content.length);
+    const fenceMatch = line.match(FENCE_RE);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1];
+      else if (fenceMatch[1] === fence) fence = null;
+    } else if (!fence) {
+      const m = line.match(HEADING_RE);
+      if (m) headings.push({ level: m[1].length, title: m[2].trim(), start: offset, lineEnd });
+    }
+    offset += line.length + 1;
+  }
+  return headings;
+}
+
+export function parseSections(content: string): DocSection[] {
+  const headings = parseHeadings(content);
+  const stack: Heading[] = [];
+
+  return headings.map((h, i) => {
+    while (stack.length > 0 && stack[stack.length - 1].level >= h.level) stack.pop();
+    const path = stack.map((s) => s.title);
+    stack.push(h);
+
+    const next = headings.slice(i + 1).find((n) => n.level <= h.level);
+    return { ...h, end: next ? next.start : content.length, path };
+  });
+}
+
+/** Leaf chunks: each heading up to the very next heading (any level), plus any preamble. */
+export function splitIntoChunks(content: string): { heading: string; path: string[]; text: string }[] {
+  const sections = parseSections(content);
+  const chunks: { heading: string; path: string[]; text: string }[] = [];
+
+  const firstStart = sections[0]?.start ?? content.length;
+  if (content.slice(0, firstStart).trim()) {
+    chunks.push({ heading: "", path: [], text: content.slice(0, firstStart).trim() });
+  }
+  sections.forEach((s, i) => {
+    const chunkEnd = sections[i + 1]?.start ?? content.length;
+    const text = content.slice(s.start, chunkEnd).trim();
+    if (text) chunks.push({ heading: s.title, path: s.path, text });
+  });
+  return chunks;
+}
+
+/** Indented heading outline, e.g. for giving the model a map of a document. */
+export function outline(content: string): string {
+  return parseHeadings(content)
+    .map((h) => `${"  ".repeat(h.level - 1)}- ${h.title}`)
+    .join("\n");
+}
+
+const normalizeTitle = (title: string) => title.replace(/^#+\s*/, "").replace(/\s+/g, " ").trim().toLowerCase();
+
+/** First section whose title matches `heading` (case- and whitespace-insensitive, leading #'s optional). */
+export function findSection(content: string, heading: string): DocSection | null {
+  const wanted = normalizeTitle(heading);
+  return parseSections(content).find((s) => normalizeTitle(s.title) === wanted) ?? null;
+}
+
+/**
+ * Every section matching `anchor` — a heading title, optionally prefixed
+ * with enclosing titles to disambiguate (`"Goals > Metrics"`).
+ */
+export function matchSections(content: string, anchor: string): DocSection[] {
+  const parts = anchor.split(">").map(normalizeTitle).filter(Boolean);
+  const title = parts.pop();
+  if (!title) return [];
+  return parseSections(content).filter((s) => {
+    if (normalizeTitle(s.title) !== title) return false;
+    const path = s.path.map(normalizeTitle);
+    return parts.every((p, i) => path[path.length - parts.length + i] === p);
+  });
+}
+
+/**
+ * Replaces a whole section (heading line through its subsections) with
+ * `replacement`. The original heading line is kept when the replacement
+ * does not start with a heading of its own. Returns null if no section matches.
+ */
+export function replaceSection(content: string, heading: string, replacement: string): string | null {
+  const section = findSection(content, heading);
+  return section ? spliceSection(content, section, replacement) : null;
+}
+
+/**
+ * Swaps `section` for `replacement`, keeping the original heading line when
+ * the replacement has none. Everything outside the section — including the
+ * blank lines that separate it from the next heading — stays byte-identical.
+ */
+export function spliceSection(content: string, section: DocSection, replacement: string): string {
+  const body = replacement.trim();
+  const next = parseHeadings(body)[0]?.start === 0 ? body : `${content.slice(section.start, section.lineEnd).trimEnd()}\n\n${body}`;
+  const original = content.slice(section.start, section.end);
+  const trailing = original.slice(original.trimEnd().length) || (section.end < content.length ? "\n\n" : "");
+  return `${content.slice(0, section.start)}${next}${trailing}${content.slice(section.end)}`;
+}
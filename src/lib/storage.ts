@@ -1,15 +1,58 @@
+import type { StreamError } from "./llm/errors";
+import type { ContextSummary } from "./tokens";
+import type { UsageRecord } from "./usage";
+import type { ModelRouting, TaskType } from "./routing";
+import type { PatchConflict } from "./patch";
+import type { CandidateSet } from "./candidates";
+import type { Attachment } from "./attachments";
+import type { PipelineState } from "./pipeline";
+import type { DocSources } from "./dependencies";
+import type { TopicCoverage } from "./coverage";
+import type { QuickReplies } from "./choices";
+import type { ProjectFact } from "./facts";
+import type { DecisionRecord } from "./decisions";
+import type { DocDefinition } from "./doc-definitions";
+import type { BranchState, DocSnapshot } from "./branches";
+
 export interface ChatMessage {
   id: string;
   role: "user" | "assistant";
   content: string;
   timestamp: number;
+  // Set when the response stream ended with an error — content may be partial
+  error?: StreamError;
+  // Set when the response was replayed from the server-side response cache
+  cached?: boolean;
+  // Tokens the response consumed, as reported by the provider
+  usage?: UsageRecord;
+  // Task a user message was routed as — retries reuse it
+  task?: TaskType;
+  // Previous message in this message's branch; null for a first message.
+  // Unset on messages saved before branching (array order applies)
+  parentId?: string | null;
+  // Files that were in context when this user message was sent
+  attachmentNames?: string[];
+  // Guided-mode checklist as reported at the end of this reply
+  coverage?: TopicCoverage[];
+  // Quick-reply options the reply offered for its closing question
+  choices?: QuickReplies;
+}
+
+// Append-only ledger entry — survives message trimming and retries, so
+// session totals reflect everything that was actually billed
+export interface UsageEntry extends UsageRecord {
+  id: string;
+  timestamp: number;
+  source: "chat" | "verify" | "harmonize" | "section" | "decisions";
+  // The chat message the response was streamed into
+  messageId?: string;
 }
 
 export interface DocVersion {
   docType: string;
   content: string;
   timestamp: number;
-  source: "generated" | "edited" | "harmonized";
+  source: "generated" | "edited" | "harmonized" | "rewritten";
 }
 
 export interface Session {
@@ -18,10 +61,44 @@ export interface Session {
   instructionKey: string;
   createdAt: number;
   updatedAt: number;
+  // Every message of every branch — see lib/branches.ts
   messages: ChatMessage[];
   documents: Record<string, string>;
   documentHistory: DocVersion[];
   customInstructions?: Record<string, string>;
+  // Per-task provider/model overrides on top of the YAML defaults
+  modelRouting?: ModelRouting;
+  // Rolling summary of chat turns compacted out of /api/chat requests
+  contextSummary?: ContextSummary;
+  // Token usage of every chat and verifier request made in this session
+  usageLog?: UsageEntry[];
+  // Patch operations that failed to apply, waiting for the user to resolve them
+  patchConflicts?: PatchConflict[];
+  // Last message of the branch on screen; unset means the last message
+  activeLeafId?: string;
+  // Documents of the branches not on screen, keyed by their leaf message id —
+  // read only, sessions now park the whole branch state in branchStates
+  branchDocs?: Record<string, Record<string, string>>;
+  // Documents, sources, conflicts and candidates of the branches not on screen, keyed by leaf id
+  branchStates?: Record<string, BranchState>;
+  // Branch state just before a user message was sent, keyed by its id; unchanged states are skipped
+  docSnapshots?: Record<string, DocSnapshot>;
+  // Texts the snapshots refer to, each distinct one stored once
+  snapshotTexts?: Record<string, string>;
+  // Generated alternatives not yet picked, at most one set per document
+  candidateSets?: CandidateSet[];
+  // Files dropped into the chat; the ones in context go with every request
+  attachments?: Attachment[];
+  // Last pipeline run, kept until it is closed
+  pipeline?: PipelineState;
+  // Upstream versions each document was last written from
+  docSources?: Record<string, DocSources>;
+  // Answers settled in guided interviews or entered by hand
+  projectFacts?: ProjectFact[];
+  // ADR-style architecture decisions, numbered in the order they were recorded
+  decisions?: DecisionRecord[];
+  // Document types defined for this session only
+  customDocTypes?: DocDefinition[];
 }
 
 // ---------------------------------------------------------------------------
@@ -29,10 +106,13 @@ export interface Session {
 // ---------------------------------------------------------------------------
 
 import { openDB, type IDBPDatabase } from "idb";
+import { pruneSnapshots, trimMessages } from "./branches";
 
 const DB_NAME = "prdbot";
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 const STORE = "sessions";
+// App-wide values by key, e.g. the global custom document types
+const SETTINGS_STORE = "settings";
 
 // Legacy keys for migration
 const LEGACY_BLOB_KEY = "prdbot_sessions";
@@ -49,6 +129,9 @@ function getDB(): Promise<IDBPDatabase> {
           const store = db.createObjectStore(STORE, { keyPath: "id" });
           store.createIndex("updatedAt", "updatedAt");
         }
+        if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+          db.createObjectStore(SETTINGS_STORE);
+        }
       },
     });
   }
@@ -147,6 +230,19 @@ export async function deleteSession(id: string): Promise<void> {
   await db.delete(STORE, id);
 }
 
+// Custom document types shared by every session
+export async function getGlobalDocTypes(): Promise<DocDefinition[]> {
+  if (typeof window === "undefined") return [];
+  const db = await getDB();
+  return (await db.get(SETTINGS_STORE, "customDocTypes")) ?? [];
+}
+
+export async function saveGlobalDocTypes(types: DocDefinition[]): Promise<void> {
+  if (typeof window === "undefined") return;
+  const db = await getDB();
+  await db.put(SETTINGS_STORE, types, "customDocTypes");
+}
+
 export function createSession(name: string, instructionKey: string): Session {
   return {
     id: crypto.randomUUID(),
@@ -203,7 +299,13 @@ function trimSession(session: Session): Session {
   const trimmed = { ...session };
 
   if (trimmed.messages.length > MAX_MESSAGES) {
-    trimmed.messages = trimmed.messages.slice(-MAX_MESSAGES);
+    // The branch on screen is kept whole (up to the limit); older branches go first
+    trimmed.messages = trimMessages(trimmed.messages, trimmed.activeLeafId, MAX_MESSAGES);
+    const ids = new Set(trimmed.messages.map((m) => m.id));
+    const keep = <T,>(byId: Record<string, T>) => Object.fromEntries(Object.entries(byId).filter(([id]) => ids.has(id)));
+    if (trimmed.branchDocs) trimmed.branchDocs = keep(trimmed.branchDocs);
+    if (trimmed.branchStates) trimmed.branchStates = keep(trimmed.branchStates);
+    if (trimmed.docSnapshots) Object.assign(trimmed, pruneSnapshots(trimmed));
   }
 
   if (trimmed.documentHistory && trimmed.documentHistory.length > 0) {
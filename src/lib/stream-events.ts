@@ -0,0 +1,98 @@
+/**
+ * Typed SSE protocol between the API routes and the client — client-safe.
+ * Routes write events with createEventStream; panels read them with
+ * readEvents, which buffers partial lines across network chunks.
+ *
+ * Wire format: one `data: <json>` line per event, `data: [DONE]` last.
+ */
+
+import { readSSEData } from "./llm/sse";
+import type { ToolCall } from "./llm/types";
+import type { StreamError } from "./llm/errors";
+import type { ContextSummary, ContextUsage } from "./tokens";
+import type { UsageRecord } from "./usage";
+import type { VerifierReport } from "./verifier-report";
+import type { DecisionFields } from "./decisions";
+
+export type StreamEvent =
+  | { type: "text"; text: string }
+  // A document streamed out of the response; deltas concatenate to its content
+  | { type: "doc_start"; docType: string }
+  | { type: "doc_delta"; docType: string; text: string }
+  | { type: "doc_end"; docType: string }
+  | { type: "tool"; call: ToolCall }
+  | { type: "usage"; usage: UsageRecord }
+  | { type: "context"; context: ContextUsage }
+  | { type: "compaction"; summary: ContextSummary }
+  | { type: "report"; report: VerifierReport }
+  | { type: "decisions"; decisions: DecisionFields[] }
+  | { type: "error"; error: StreamError }
+  | { type: "done" };
+
+const DONE = "[DONE]";
+
+export const EVENT_STREAM_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache",
+  Connection: "keep-alive",
+};
+
+// ── Server ──
+
+export function encodeEvent(event: StreamEvent): string {
+  return `data: ${event.type === "done" ? DONE : JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Runs `produce` and streams whatever it sends. Every stream ends with
+ * exactly one `done` event, after `produce` resolves or throws (a thrown
+ * error should already have been sent as an `error` event).
+ */
+export function createEventStream(
+  produce: (send: (event: StreamEvent) => void) => Promise<void>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    async start(controller) {
+      const send = (event: StreamEvent) => controller.enqueue(encoder.encode(encodeEvent(event)));
+      try {
+        await produce(send);
+      } finally {
+        send({ type: "done" });
+        controller.close();
+      }
+    },
+  });
+}
+
+// ── Client ──
+
+// Recordings made before events were typed (fixtures, cached responses) carry bare payloads
+function fromLegacy(payload: Record<string, unknown>): StreamEvent | null {
+  if (typeof payload.text === "string") return { type: "text", text: payload.text };
+  if (payload.error) return { type: "error", error: payload.error as StreamError };
+  if (payload.usage) return { type: "usage", usage: payload.usage as UsageRecord };
+  if (payload.context) return { type: "context", context: payload.context as ContextUsage };
+  if (payload.compaction) return { type: "compaction", summary: payload.compaction as ContextSummary };
+  if (payload.tool) return { type: "tool", call: payload.tool as ToolCall };
+  if (payload.report) return { type: "report", report: payload.report as VerifierReport };
+  return null;
+}
+
+/** Yields typed events from an event-stream response body until `done`. */
+export async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<StreamEvent> {
+  for await (const data of readSSEData(body)) {
+    if (data === DONE) {
+      yield { type: "done" };
+      return;
+    }
+    let payload: Record<string, unknown>;
+    try {
+      payload = JSON.parse(data);
+    } catch {
+      continue;
+    }
+    const event = typeof payload.type === "string" ? (payload as StreamEvent) : fromLegacy(payload);
+    if (event) yield event;
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Captures a byte stream chunk-by-chunk (with inter-chunk timing) and plays
+ * it back later. Chunk boundaries are preserved so streaming bugs that only
+ * appear when a line is split across network reads reproduce exactly.
+ */
+
+export interface RecordedChunk {
+  delayMs: number;
+  data: string;
+}
+
+export interface RecordedStream {
+  createdAt: number;
+  chunks: RecordedChunk[];
+}
+
+// Long pauses (e.g. waiting on a slow model) are shortened on playback
+const MAX_REPLAY_DELAY_MS = 1000;
+
+export function recordStream(
+  source: ReadableStream<Uint8Array>,
+  onComplete: (recording: RecordedStream) => void
+): ReadableStream<Uint8Array> {
+  const decoder = new TextDecoder();
+  const chunks: RecordedChunk[] = [];
+  let last = Date.now();
+
+  return source.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        const now = Date.now();
+        chunks.push({ delayMs: now - last, data: decoder.decode(chunk, { stream: true }) });
+        last = now;
+        controller.enqueue(chunk);
+      },
+      flush() {
+        // Only reached when the source closed normally — errored streams are not kept
+        onComplete({ createdAt: Date.now(), chunks });
+      },
+    })
+  );
+}
+
+export function replayStream(
+  recording: RecordedStream,
+  maxDelayMs = MAX_REPLAY_DELAY_MS
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    async start(controller) {
+      for (const chunk of recording.chunks) {
+        const delay = Math.min(chunk.delayMs, maxDelayMs);
+        if (delay > 0) await new Promise((r) => setTimeout(r, delay));
+        controller.enqueue(encoder.encode(chunk.data));
+      }
+      controller.close();
+    },
+  });
+}
@@ -0,0 +1,32 @@
+// Client-safe token accounting — no Node.js imports
+
+import type { IncludedSection } from "./retrieval";
+
+/**
+ * Rough token estimate (~4 characters per token for English/markdown).
+ * Provider-neutral and free; good enough for budgeting, not billing.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function formatTokens(count: number): string {
+  if (count < 1000) return String(count);
+  if (count < 1_000_000) return `${(count / 1000).toFixed(count < 10_000 ? 1 : 0)}k`;
+  return `${(count / 1_000_000).toFixed(1)}M`;
+}
+
+// Rolling summary of chat turns that were compacted out of the request
+export interface ContextSummary {
+  text: string;
+  upToMessageId: string;
+  compactedCount: number;
+  compactedAt: number;
+}
+
+export interface ContextUsage {
+  tokens: number;
+  budget: number;
+  // Document sections retrieved into this request
+  included?: IncludedSection[];
+}
@@ -0,0 +1,125 @@
+/**
+ * Token usage records and cost estimates — pure, client-safe.
+ * Routes emit a `usage` SSE event per model call (a response can take more
+ * than one: history compaction, a verifier re-ask); the client logs each one
+ * and stores their sum on the message (or verifier run), priced here at
+ * display time, so changing the price table re-prices past sessions too.
+ */
+
+import type { TokenUsage } from "./llm/types";
+
+export interface UsageRecord extends TokenUsage {
+  provider: string;
+  model: string;
+}
+
+// USD per 1M tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+  // Price for prompt-cache reads; defaults to the input price
+  cachedInput?: number;
+}
+
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "gemini-3-flash": { input: 0.5, output: 3, cachedInput: 0.05 },
+  "gemini-3-pro": { input: 2, output: 12, cachedInput: 0.2 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5, cachedInput: 0.03 },
+  "gemini-2.5-pro": { input: 1.25, output: 10, cachedInput: 0.125 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6, cachedInput: 0.075 },
+  "gpt-4o": { input: 2.5, output: 10, cachedInput: 1.25 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6, cachedInput: 0.1 },
+  "gpt-4.1": { input: 2, output: 8, cachedInput: 0.5 },
+  "claude-sonnet-4": { input: 3, output: 15, cachedInput: 0.3 },
+  "claude-haiku-4": { input: 1, output: 5, cachedInput: 0.1 },
+  "claude-opus-4": { input: 15, output: 75, cachedInput: 1.5 },
+};
+
+let _prices: Record<string, ModelPrice> | null = null;
+
+/**
+ * Default prices merged with NEXT_PUBLIC_LLM_PRICES, a JSON object of the
+ * same shape — e.g. `{"my-local-model":{"input":0,"output":0}}`.
+ */
+export function getPriceTable(): Record<string, ModelPrice> {
+  if (!_prices) {
+    let overrides: Record<string, ModelPrice> = {};
+    try {
+      overrides = JSON.parse(process.env.NEXT_PUBLIC_LLM_PRICES || "{}");
+    } catch {
+      console.warn("NEXT_PUBLIC_LLM_PRICES is not valid JSON — using default prices");
+    }
+    _prices = { ...DEFAULT_PRICES, ...overrides };
+  }
+  return _prices;
+}
+
+/** Exact model match first, then the longest key the model name starts with. */
+export function findPrice(model: string, prices = getPriceTable()): ModelPrice | null {
+  if (prices[model]) return prices[model];
+  const key = Object.keys(prices)
+    .filter((k) => model.startsWith(k))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? prices[key] : null;
+}
+
+/** Estimated cost in USD, or null when the model has no price entry. */
+export function estimateCost(usage: UsageRecord, prices = getPriceTable()): number | null {
+  const price = findPrice(usage.model, prices);
+  if (!price) return null;
+  const uncached = Math.max(0, usage.inputTokens - usage.cachedTokens);
+  return (
+    (uncached * price.input +
+      usage.cachedTokens * (price.cachedInput ?? price.input) +
+      usage.outputTokens * price.output) /
+    1_000_000
+  );
+}
+
+export interface UsageTotals extends TokenUsage {
+  requests: number;
+  cost: number;
+  // Requests whose model has no price entry — their cost is not in `cost`
+  unpriced: number;
+}
+
+export const EMPTY_TOTALS: UsageTotals = {
+  inputTokens: 0,
+  outputTokens: 0,
+  cachedTokens: 0,
+  requests: 0,
+  cost: 0,
+  unpriced: 0,
+};
+
+export function sumUsage(records: UsageRecord[], prices = getPriceTable()): UsageTotals {
+  return records.reduce<UsageTotals>((totals, r) => {
+    const cost = estimateCost(r, prices);
+    return {
+      inputTokens: totals.inputTokens + r.inputTokens,
+      outputTokens: totals.outputTokens + r.outputTokens,
+      cachedTokens: totals.cachedTokens + r.cachedTokens,
+      requests: totals.requests + 1,
+      cost: totals.cost + (cost ?? 0),
+      unpriced: totals.unpriced + (cost === null ? 1 : 0),
+    };
+  }, EMPTY_TOTALS);
+}
+
+/** The calls behind one response as a single record, labelled with the last call's model. */
+export function mergeUsage(records: UsageRecord[]): UsageRecord | undefined {
+  if (records.length === 0) return undefined;
+  return records.reduce((sum, r) => ({
+    provider: r.provider,
+    model: r.model,
+    inputTokens: sum.inputTokens + r.inputTokens,
+    outputTokens: sum.outputTokens + r.outputTokens,
+    cachedTokens: sum.cachedTokens + r.cachedTokens,
+  }));
+}
+
+export function formatCost(usd: number): string {
+  if (usd === 0) return "$0";
+  if (usd < 0.01) return "<$0.01";
+  return `$${usd.toFixed(usd < 10 ? 2 : 0)}`;
+}
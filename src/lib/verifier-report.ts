@@ -0,0 +1,203 @@
+/**
+ * Structured verifier output — schema, validation and rendering. Client-safe.
+ * The verify route asks the model for JSON matching VERIFIER_REPORT_SCHEMA,
+ * validates it here and re-asks once on failure; the client only ever sees
+ * a validated report or an explicit parse failure.
+ */
+
+export const ISSUE_SEVERITIES = ["critical", "warning", "info"] as const;
+export const ISSUE_TYPES = [
+  "contradiction",
+  "terminology_drift",
+  "coverage_gap",
+  "complexity_overflow",
+  "consistency",
+  "cross_reference",
+  "decision_conflict",
+] as const;
+export const GUIDANCE_PRIORITIES = ["high", "medium", "low"] as const;
+
+export interface VerifierIssue {
+  id: string;
+  severity: (typeof ISSUE_SEVERITIES)[number];
+  type: string;
+  title: string;
+  description: string;
+  affectedDocs: string[];
+  evidence: { doc: string; quote: string }[];
+  fix: string;
+  targetDoc: string;
+}
+
+export interface VerifierGuidance {
+  missingDoc: string;
+  priority: (typeof GUIDANCE_PRIORITIES)[number];
+  notes: string;
+}
+
+export interface VerifierReport {
+  issues: VerifierIssue[];
+  guidance: VerifierGuidance[];
+  // Human-readable markdown: analyzed/missing docs, entropy score, cross-reference matrix
+  summary: string;
+}
+
+const stringArray = { type: "array", items: { type: "string" } };
+
+// Plain JSON Schema — every property required and no extras, so it also
+// satisfies OpenAI's strict structured-output mode
+export const VERIFIER_REPORT_SCHEMA = {
+  type: "object",
+  properties: {
+    issues: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          severity: { type: "string", enum: [...ISSUE_SEVERITIES] },
+          type: { type: "string", enum: [...ISSUE_TYPES] },
+          title: { type: "string" },
+          description: { type: "string" },
+          affectedDocs: stringArray,
+          evidence: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: { doc: { type: "string" }, quote: { type: "string" } },
+              required: ["doc", "quote"],
+              additionalProperties: false,
+            },
+          },
+          fix: { type: "string" },
+          targetDoc: { type: "string" },
+        },
+        required: ["id", "severity", "type", "title", "description", "affectedDocs", "evidence", "fix", "targetDoc"],
+        additionalProperties: false,
+      },
+    },
+    guidance: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          missingDoc: { type: "string" },
+          priority: { type: "string", enum: [...GUIDANCE_PRIORITIES] },
+          notes: { type: "string" },
+        },
+        required: ["missingDoc", "priority", "notes"],
+        additionalProperties: false,
+      },
+    },
+    summary: { type: "string" },
+  },
+  required: ["issues", "guidance", "summary"],
+  additionalProperties: false,
+};
+
+export type ValidationResult =
+  | { ok: true; report: VerifierReport }
+  | { ok: false; errors: string[] };
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+function checkString(errors: string[], path: string, v: unknown) {
+  if (typeof v !== "string") errors.push(`${path} must be a string`);
+}
+
+function checkStringArray(errors: string[], path: string, v: unknown) {
+  if (!Array.isArray(v) || v.some((s) => typeof s !== "string")) errors.push(`${path} must be an array of strings`);
+}
+
+export function validateVerifierReport(value: unknown): ValidationResult {
+  const errors: string[] = [];
+  if (!isRecord(value)) return { ok: false, errors: ["report must be a JSON object"] };
+
+  if (!Array.isArray(value.issues)) {
+    errors.push("issues must be an array");
+  } else {
+    value.issues.forEach((issue, i) => {
+      const p = `issues[${i}]`;
+      if (!isRecord(issue)) {
+        errors.push(`${p} must be an object`);
+        return;
+      }
+      for (const key of ["id", "type", "title", "description", "fix", "targetDoc"]) checkString(errors, `${p}.${key}`, issue[key]);
+      if (!ISSUE_SEVERITIES.includes(issue.severity as VerifierIssue["severity"])) {
+        errors.push(`${p}.severity must be one of ${ISSUE_SEVERITIES.join(", ")}`);
+      }
+      checkStringArray(errors, `${p}.affectedDocs`, issue.affectedDocs);
+      if (!Array.isArray(issue.evidence) || issue.evidence.some((e) => !isRecord(e) || typeof e.doc !== "string" || typeof e.quote !== "string")) {
+        errors.push(`${p}.evidence must be an array of { doc, quote } strings`);
+      }
+    });
+  }
+
+  if (!Array.isArray(value.guidance)) {
+    errors.push("guidance must be an array");
+  } else {
+    value.guidance.forEach((g, i) => {
+      const p = `guidance[${i}]`;
+      if (!isRecord(g)) {
+        errors.push(`${p} must be an object`);
+        return;
+      }
+      checkString(errors, `${p}.missingDoc`, g.missingDoc);
+      checkString(errors, `${p}.notes`, g.notes);
+      if (!GUIDANCE_PRIORITIES.includes(g.priority as VerifierGuidance["priority"])) {
+        errors.push(`${p}.priority must be one of ${GUIDANCE_PRIORITIES.join(", ")}`);
+      }
+    });
+  }
+
+  checkString(errors, "summary", value.summary);
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, report: value as unknown as VerifierReport };
+}
+
+/**
+ * Best-effort local repair before validation: strips code fences and prose
+ * around the JSON object, fills omitted optional arrays and normalizes
+ * enum casing. Anything still invalid is left for the re-ask.
+ */
+export function parseVerifierReport(text: string): ValidationResult {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) return { ok: false, errors: ["no JSON object found in the response"] };
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text.slice(start, end + 1));
+  } catch (err) {
+    return { ok: false, errors: [`invalid JSON: ${err instanceof Error ? err.message : String(err)}`] };
+  }
+
+  if (isRecord(value)) {
+    value.guidance ??= [];
+    if (Array.isArray(value.issues)) {
+      for (const issue of value.issues) {
+        if (!isRecord(issue)) continue;
+        if (typeof issue.severity === "string") issue.severity = issue.severity.toLowerCase();
+        issue.affectedDocs ??= [];
+        issue.evidence ??= [];
+      }
+    }
+    if (Array.isArray(value.guidance)) {
+      for (const g of value.guidance) {
+        if (isRecord(g) && typeof g.priority === "string") g.priority = g.priority.toLowerCase();
+      }
+    }
+  }
+  return validateVerifierReport(value);
+}
+
+/** Renders a report as the marker-block text the chat route injects as context. */
+export function renderVerifierReport(report: VerifierReport): string {
+  const blocks = [`~~~issues\n${JSON.stringify(report.issues, null, 2)}\n~~~`];
+  if (report.guidance.length > 0) {
+    blocks.push(`~~~guidance\n${JSON.stringify(report.guidance, null, 2)}\n~~~`);
+  }
+  blocks.push(`~~~summary\n${report.summary.trim()}\n~~~`);
+  return blocks.join("\n\n");
+}